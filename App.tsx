@@ -1,24 +1,74 @@
-import React, { useState, useEffect, useRef } from "react";
-import { AppState, FocusTier, ObservationReport, Task } from "./types";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import {
+  AppState,
+  FocusTier,
+  ObservationReport,
+  ArchiveEntry,
+  SignalLostEntry,
+  FocusSession,
+  ExpeditionPlan,
+  Task,
+  getNearestTier,
+  getRemainingSeconds,
+  getFocusedMinutes,
+  MIN_CUSTOM_DURATION,
+  MAX_CUSTOM_DURATION,
+} from "./types";
 import StarTunnel from "./components/StarTunnel";
 import Terminal from "./components/Terminal";
 import ReportCard from "./components/ReportCard";
 import ArchiveView from "./components/ArchiveView";
+import StatsView from "./components/StatsView";
 import AudioAmbience from "./components/AudioAmbience";
 import SpaceMusic from "./components/SpaceMusic";
 import AbyssPulse from "./components/AbyssPulse";
 import LanguageSwitcher from "./components/LanguageSwitcher";
-import { generateObservationReport } from "./services/geminiService";
+import SyncPanel from "./components/SyncPanel";
+import {
+  TelemetryProgress,
+  generateObservationReport,
+} from "./services/geminiService";
+import { hasArchiveQuery } from "./services/archiveQuery";
+import { mergeArchives } from "./services/archiveTransfer";
+import { getTaskFocus } from "./services/archiveStats";
+import {
+  STORAGE_KEYS,
+  loadArchive,
+  loadTasks,
+  saveArchive,
+  saveTasks,
+} from "./services/storage";
+import { buildContinuityMemory } from "./services/continuity";
+import { playTransmissionChime, primeChime } from "./services/chime";
+import { reestablishSignal } from "./services/outbox";
+import {
+  isNotificationSupported,
+  loadNotificationPreference,
+  notify,
+  requestNotificationPermission,
+  saveNotificationPreference,
+} from "./services/notifications";
+import {
+  DEFAULT_EXPEDITION_PLAN,
+  MIN_EXPEDITION_BLOCKS,
+  MAX_EXPEDITION_BLOCKS,
+  buildExpeditionReport,
+  getBreakMinutes,
+  getBreakPhase,
+  toChapter,
+} from "./services/expedition";
 import {
   MotionParallaxProvider,
   ParallaxLayer,
   useMotionParallaxContext,
 } from "./contexts/MotionParallaxContext";
 import { I18nProvider, useI18n, useTierConfig } from "./contexts/I18nContext";
+import { useCloudSync } from "./hooks/useCloudSync";
+import { useOutbox } from "./hooks/useOutbox";
 
 // Constants
-const LOCAL_STORAGE_KEY_ARCHIVE = "4th_dim_archive";
-const LOCAL_STORAGE_KEY_TASKS = "4th_dim_tasks";
+// How long the signal-lost screen holds before returning to setup
+const SIGNAL_LOST_HOLD_MS = 4000;
 
 // Tier Button Styles
 const getTierButtonStyle = (isSelected: boolean, tierColor: string) => {
@@ -96,6 +146,12 @@ const ghostButtonStyle = {
   border: "1px solid var(--border)",
 };
 
+// MM:SS countdown display
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)
+    .toString()
+    .padStart(2, "0")}:${(seconds % 60).toString().padStart(2, "0")}`;
+
 // Inner App Component (needs context)
 const AppContent: React.FC = () => {
   // State
@@ -103,24 +159,53 @@ const AppContent: React.FC = () => {
   const [selectedTier, setSelectedTier] = useState<FocusTier>(
     FocusTier.NEIGHBORING,
   );
+  // Custom duration input (minutes); empty means the selected preset is used
+  const [customDuration, setCustomDuration] = useState<string>("");
   const [timeLeft, setTimeLeft] = useState<number>(0);
-  const [totalDuration, setTotalDuration] = useState<number>(0);
+  const [session, setSession] = useState<FocusSession | null>(null);
+  // Expedition mode: N blocks of the chosen duration separated by breaks
+  const [isExpedition, setIsExpedition] = useState<boolean>(false);
+  const [expeditionPlan, setExpeditionPlan] = useState<ExpeditionPlan>(
+    DEFAULT_EXPEDITION_PLAN,
+  );
   const [isMuted, setIsMuted] = useState<boolean>(false);
+  const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(
+    loadNotificationPreference,
+  );
 
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [archive, setArchive] = useState<ObservationReport[]>([]);
+  const [targetTaskId, setTargetTaskId] = useState<string | null>(null);
+  const [archive, setArchive] = useState<ArchiveEntry[]>([]);
+  // Archive and tasks load asynchronously; nothing is saved before they have
+  const [isStorageReady, setIsStorageReady] = useState<boolean>(false);
+  const [lostSignal, setLostSignal] = useState<SignalLostEntry | null>(null);
   const [currentReport, setCurrentReport] = useState<ObservationReport | null>(
     null,
   );
+  // Report text streamed in so far for the current (non-expedition) session
+  const [telemetry, setTelemetry] = useState<
+    (TelemetryProgress & { sessionId: string }) | null
+  >(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
 
   // Button hover states
   const [isStartHovered, setIsStartHovered] = useState(false);
+  const [isPauseHovered, setIsPauseHovered] = useState(false);
   const [hoveredTier, setHoveredTier] = useState<number | null>(null);
 
+  // Document title from index.html, restored whenever no countdown is shown
+  const baseTitleRef = useRef(document.title);
+
   // Refs for timer logic
   const timerRef = useRef<number | null>(null);
-  const generatedRef = useRef<boolean>(false);
+  // Latest session and completion handler, read from the interval callback
+  const sessionRef = useRef<FocusSession | null>(null);
+  const handleCompleteRef = useRef<() => void>(() => {});
+  // In-flight report requests keyed by session + block (shared by early + final trigger)
+  const reportRequestsRef = useRef<Map<string, Promise<ObservationReport>>>(
+    new Map(),
+  );
 
   // Get parallax context for UI elements
   const {
@@ -133,125 +218,429 @@ const AppContent: React.FC = () => {
   const { t, language } = useI18n();
   const TIER_CONFIG = useTierConfig();
 
+  // Cloud sync of archive and tasks (no-op until this device is linked)
+  const sync = useCloudSync(archive, tasks, setArchive, setTasks, isStorageReady);
+  useOutbox(archive, setArchive, isStorageReady, language);
+
   // Load data on mount
   useEffect(() => {
-    const savedArchive = localStorage.getItem(LOCAL_STORAGE_KEY_ARCHIVE);
-    if (savedArchive) setArchive(JSON.parse(savedArchive));
+    // Entries archived before loading finished (e.g. a resumed session that
+    // already expired) are kept on top of what was stored
+    Promise.all([loadArchive(), loadTasks()]).then(([storedArchive, storedTasks]) => {
+      setArchive((prev) => mergeArchives(prev, storedArchive).archive);
+      setTasks(storedTasks);
+      setIsStorageReady(true);
+    });
 
-    const savedTasks = localStorage.getItem(LOCAL_STORAGE_KEY_TASKS);
-    if (savedTasks) setTasks(JSON.parse(savedTasks));
+    // Resume a session interrupted by a reload
+    const savedSession = localStorage.getItem(STORAGE_KEYS.session);
+    if (savedSession) {
+      const restored: FocusSession = JSON.parse(savedSession);
+      const remaining = getRemainingSeconds(restored, Date.now());
+      const phase = restored.expedition?.phase ?? "focus";
+      setSession(restored);
+      setSelectedTier(restored.tier);
+      setTimeLeft(remaining);
+      if (restored.pausedAt !== null) {
+        setAppState(AppState.PAUSED);
+      } else if (phase !== "focus") {
+        // An expired break is advanced by the first timer tick
+        setAppState(
+          phase === "longBreak" ? AppState.LONG_BREAK : AppState.SHORT_BREAK,
+        );
+      } else if (remaining > 0 || restored.expedition) {
+        setAppState(AppState.FOCUSING);
+      } else {
+        // Expired while the tab was closed: go straight to the report
+        setAppState(AppState.PROCESSING);
+      }
+    } else if (hasArchiveQuery(window.location.search)) {
+      // A filtered archive link opens straight into the archive
+      setAppState(AppState.ARCHIVE);
+    }
   }, []);
 
   // Save tasks on change
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEY_TASKS, JSON.stringify(tasks));
-  }, [tasks]);
+    if (isStorageReady) saveTasks(tasks);
+  }, [tasks, isStorageReady]);
 
-  // Save archive on change
+  // Save archive on change (only changed entries are written)
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEY_ARCHIVE, JSON.stringify(archive));
-  }, [archive]);
+    if (isStorageReady) saveArchive(archive);
+  }, [archive, isStorageReady]);
 
-  // Timer Logic
+  // Save session on change (cleared once it is archived or aborted)
   useEffect(() => {
-    if (appState === AppState.FOCUSING) {
-      timerRef.current = window.setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            handleComplete();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    sessionRef.current = session;
+    if (session) {
+      localStorage.setItem(STORAGE_KEYS.session, JSON.stringify(session));
     } else {
-      if (timerRef.current) clearInterval(timerRef.current);
+      localStorage.removeItem(STORAGE_KEYS.session);
     }
+  }, [session]);
+
+  // Timer Logic - remaining time is derived from the wall clock on every tick,
+  // so throttled intervals in background tabs cannot drift the countdown
+  useEffect(() => {
+    if (
+      appState !== AppState.FOCUSING &&
+      appState !== AppState.SHORT_BREAK &&
+      appState !== AppState.LONG_BREAK
+    )
+      return;
+
+    const tick = () => {
+      const current = sessionRef.current;
+      if (!current) return;
+      const remaining = getRemainingSeconds(current, Date.now());
+      setTimeLeft(remaining);
+      if (remaining <= 0) handleCompleteRef.current();
+    };
+
+    tick();
+    timerRef.current = window.setInterval(tick, 1000);
+    document.addEventListener("visibilitychange", tick);
+
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      document.removeEventListener("visibilitychange", tick);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [appState]);
 
-  // AI Trigger Logic
+  // Tab Title - live countdown while focusing, so background tabs show progress
   useEffect(() => {
-    if (appState === AppState.FOCUSING && !generatedRef.current) {
-      const progress = 1 - timeLeft / (totalDuration * 60);
+    const baseTitle = baseTitleRef.current;
+    if (appState === AppState.FOCUSING) {
+      document.title = `${formatClock(timeLeft)} · ${baseTitle}`;
+    } else if (appState === AppState.PAUSED) {
+      document.title = `❚❚ ${formatClock(timeLeft)} · ${baseTitle}`;
+    } else {
+      document.title = baseTitle;
+    }
+  }, [appState, timeLeft]);
 
-      if (progress > 0.8) {
-        generatedRef.current = true;
-        const activeTask = tasks.find((t) => !t.completed)?.text || "";
-        console.log("Initiating Sequence: Connecting to Gemini...");
-
-        generateObservationReport(
-          totalDuration,
-          activeTask,
-          selectedTier,
-          language,
-        ).then((data) => {
-          const report: ObservationReport = {
-            ...data,
-            id: crypto.randomUUID(),
-            timestamp: Date.now(),
-          };
-          setCurrentReport(report);
-        });
+  const requestReport = (target: FocusSession) => {
+    const key = `${target.id}:${target.expedition?.block ?? 0}`;
+    let request = reportRequestsRef.current.get(key);
+    if (!request) {
+      console.log("Initiating Sequence: Connecting to Gemini...");
+      // Expedition blocks are merged into one report, so only single sessions stream
+      const onTelemetry = target.expedition
+        ? undefined
+        : (progress: TelemetryProgress) =>
+            setTelemetry({ ...progress, sessionId: target.id });
+      request = generateObservationReport(
+        target.duration,
+        target.taskContext,
+        target.tier,
+        language,
+        buildContinuityMemory(archive),
+        onTelemetry,
+      ).then((data) => ({
+        ...data,
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        tier: target.tier,
+        language,
+      }));
+      reportRequestsRef.current.set(key, request);
+    }
+    return request;
+  };
+
+  // AI Trigger Logic - start generating once 80% of the session has elapsed
+  useEffect(() => {
+    if (appState === AppState.FOCUSING && session) {
+      const progress = 1 - timeLeft / (session.duration * 60);
+      if (progress > 0.8) requestReport(session);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeLeft, appState, session]);
+
+  // Report Resolution - wait for the early request, or issue one now
+  useEffect(() => {
+    if (appState !== AppState.PROCESSING || !session) return;
+
+    const finish = (report: ObservationReport) => {
+      // Ignore results for a session that was aborted in the meantime
+      if (sessionRef.current?.id !== session.id) return;
+      setCurrentReport({
+        ...report,
+        ...(session.pauses.length > 0 && { pauses: session.pauses }),
+        ...(session.taskId && {
+          taskId: session.taskId,
+          taskContext: session.taskContext,
+        }),
+      });
+      setAppState(AppState.REPORT);
+      if (notificationsEnabled) {
+        notify(
+          t("notify.reportReady"),
+          `${report.dimensionCode} — ${report.log}`,
+          session.id,
+        );
       }
+    };
+
+    const expedition = session.expedition;
+    if (!expedition) {
+      requestReport(session).then(finish);
+      return;
     }
-  }, [timeLeft, totalDuration, appState, tasks, selectedTier, language]);
+
+    // Expedition: gather every block's chapter, re-requesting any lost to a reload
+    const chapters = Array.from(
+      { length: expedition.plan.blocks },
+      (_, block) => {
+        const saved = expedition.chapters.find((c) => c.block === block);
+        if (saved) return Promise.resolve(saved);
+        return requestReport({
+          ...session,
+          expedition: { ...expedition, block },
+        }).then((report) => toChapter(report, block));
+      },
+    );
+    Promise.all(chapters).then((all) =>
+      finish({
+        ...buildExpeditionReport(all, session.tier, language),
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+      }),
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appState, session?.id]);
+
+  // Parsed custom duration, or null when the input is empty/invalid
+  const parsedCustomDuration = (() => {
+    const value = parseInt(customDuration, 10);
+    if (isNaN(value)) return null;
+    return Math.min(MAX_CUSTOM_DURATION, Math.max(MIN_CUSTOM_DURATION, value));
+  })();
+
+  const handleCustomDurationChange = (value: string) => {
+    const digits = value.replace(/[^0-9]/g, "").slice(0, 3);
+    setCustomDuration(digits);
+    const minutes = parseInt(digits, 10);
+    if (!isNaN(minutes) && minutes > 0) {
+      // Borrow the visuals and prompt of the closest preset tier
+      setSelectedTier(getNearestTier(minutes));
+    }
+  };
+
+  // Session target: the directive picked in the Terminal, else the first open one
+  const targetTask =
+    tasks.find((t) => t.id === targetTaskId && !t.completed) ??
+    tasks.find((t) => !t.completed);
+
+  // Focus observed per directive, shown next to each task
+  const taskFocus = useMemo(() => getTaskFocus(archive), [archive]);
 
   const startFocus = () => {
-    const durationMins = selectedTier;
-    setTotalDuration(durationMins);
+    const durationMins = parsedCustomDuration ?? selectedTier;
+    const now = Date.now();
+    primeChime();
+    reportRequestsRef.current.clear();
+    setSession({
+      id: crypto.randomUUID(),
+      duration: durationMins,
+      tier: selectedTier,
+      taskContext: targetTask?.text || "",
+      ...(targetTask && { taskId: targetTask.id }),
+      startedAt: now,
+      endsAt: now + durationMins * 60 * 1000,
+      pausedAt: null,
+      pauses: [],
+      ...(isExpedition && {
+        expedition: {
+          plan: expeditionPlan,
+          block: 0,
+          phase: "focus" as const,
+          chapters: [],
+        },
+      }),
+    });
     setTimeLeft(durationMins * 60);
-    setAppState(AppState.FOCUSING);
-    generatedRef.current = false;
     setCurrentReport(null);
+    setAppState(AppState.FOCUSING);
+  };
+
+  const pauseFocus = () => {
+    if (appState !== AppState.FOCUSING || !session) return;
+    const paused = { ...session, pausedAt: Date.now() };
+    setSession(paused);
+    setTimeLeft(getRemainingSeconds(paused, Date.now()));
+    setAppState(AppState.PAUSED);
+  };
+
+  const resumeFocus = () => {
+    if (appState !== AppState.PAUSED || !session || session.pausedAt === null)
+      return;
+    const now = Date.now();
+    primeChime();
+    setSession({
+      ...session,
+      // Push the target end back by the time spent on hold
+      endsAt: session.endsAt + (now - session.pausedAt),
+      pausedAt: null,
+      pauses: [...session.pauses, { start: session.pausedAt, end: now }],
+    });
+    setAppState(AppState.FOCUSING);
+  };
+
+  // Chime, plus a notification if the tab is in the background
+  const announce = (title: string, body: string) => {
+    if (!isMuted) playTransmissionChime();
+    if (notificationsEnabled && session) notify(title, body, session.id);
   };
 
   const handleComplete = () => {
     if (timerRef.current) clearInterval(timerRef.current);
+    setTimeLeft(0);
 
-    if (currentReport) {
-      setAppState(AppState.REPORT);
-    } else {
+    const expedition = session?.expedition;
+    if (!session || !expedition) {
+      announce(t("notify.sessionComplete"), t("notify.sessionCompleteBody"));
       setAppState(AppState.PROCESSING);
-      const activeTask = tasks.find((t) => !t.completed)?.text || "";
-      generateObservationReport(
-        totalDuration,
-        activeTask,
-        selectedTier,
-        language,
-      ).then((data) => {
-        const report: ObservationReport = {
-          ...data,
-          id: crypto.randomUUID(),
-          timestamp: Date.now(),
-        };
-        setCurrentReport(report);
-        setAppState(AppState.REPORT);
+      return;
+    }
+
+    const now = Date.now();
+    if (expedition.phase !== "focus") {
+      announce(t("notify.breakOver"), t("notify.breakOverBody"));
+      // Break over: descend into the next block
+      setSession({
+        ...session,
+        endsAt: now + session.duration * 60 * 1000,
+        expedition: {
+          ...expedition,
+          block: expedition.block + 1,
+          phase: "focus",
+        },
       });
+      setTimeLeft(session.duration * 60);
+      setAppState(AppState.FOCUSING);
+      return;
+    }
+
+    if (expedition.block >= expedition.plan.blocks - 1) {
+      announce(t("notify.sessionComplete"), t("notify.sessionCompleteBody"));
+      setAppState(AppState.PROCESSING);
+      return;
     }
+
+    announce(t("notify.blockComplete"), t("notify.blockCompleteBody"));
+
+    // Decrypt this block's chapter in the background while drifting
+    const block = expedition.block;
+    requestReport(session).then((report) => {
+      setSession((prev) =>
+        prev && prev.id === session.id && prev.expedition
+          ? {
+              ...prev,
+              expedition: {
+                ...prev.expedition,
+                chapters: [
+                  ...prev.expedition.chapters.filter((c) => c.block !== block),
+                  toChapter(report, block),
+                ],
+              },
+            }
+          : prev,
+      );
+    });
+
+    const phase = getBreakPhase(expedition.plan, block);
+    const breakMins = getBreakMinutes(expedition.plan, phase);
+    setSession({
+      ...session,
+      endsAt: now + breakMins * 60 * 1000,
+      expedition: { ...expedition, phase },
+    });
+    setTimeLeft(breakMins * 60);
+    setAppState(
+      phase === "longBreak" ? AppState.LONG_BREAK : AppState.SHORT_BREAK,
+    );
   };
+  handleCompleteRef.current = handleComplete;
 
   const abortFocus = () => {
     if (timerRef.current) clearInterval(timerRef.current);
+    // Keep what was observed as a partial transmission
+    if (session) {
+      const now = Date.now();
+      const entry: SignalLostEntry = {
+        kind: "signalLost",
+        id: session.id,
+        timestamp: now,
+        duration: session.duration * (session.expedition?.plan.blocks ?? 1),
+        elapsed: Math.round(getFocusedMinutes(session, now)),
+        tier: session.tier,
+        taskContext: session.taskContext,
+        ...(session.taskId && { taskId: session.taskId }),
+      };
+      setArchive((prev) => [entry, ...prev]);
+      setLostSignal(entry);
+    }
+    setSession(null);
+    reportRequestsRef.current.clear();
     setAppState(AppState.SIGNAL_LOST);
-    setTimeout(() => {
-      setAppState(AppState.IDLE);
-    }, 4000);
   };
 
+  const dismissSignalLost = () => {
+    setLostSignal(null);
+    setAppState(AppState.IDLE);
+  };
+
+  // Signal lost screen returns to setup on its own unless dismissed first
+  useEffect(() => {
+    if (appState !== AppState.SIGNAL_LOST) return;
+    const timeout = window.setTimeout(dismissSignalLost, SIGNAL_LOST_HOLD_MS);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appState]);
+
   const closeReport = () => {
     if (currentReport) {
       setArchive((prev) => [currentReport, ...prev]);
     }
     setAppState(AppState.IDLE);
     setCurrentReport(null);
+    setSession(null);
+    setTelemetry(null);
+    reportRequestsRef.current.clear();
+  };
+
+  // Re-request a fallback report, keeping its id and timestamp; true when a
+  // real transmission replaced at least part of it
+  const reestablishReportSignal = async (report: ObservationReport) => {
+    const updated = await reestablishSignal(report, archive, language);
+    if (!updated) return false;
+    setArchive((prev) => prev.map((entry) => (entry.id === report.id ? updated : entry)));
+    setCurrentReport((prev) => (prev?.id === report.id ? updated : prev));
+    return true;
+  };
+
+  // Merge imported entries into the archive; existing entries win on id collisions
+  const importEntries = (entries: ArchiveEntry[]) => {
+    const result = mergeArchives(archive, entries);
+    if (result.added > 0) setArchive(result.archive);
+    return result;
+  };
+
+  const toggleNotifications = async () => {
+    const enabled =
+      !notificationsEnabled && (await requestNotificationPermission());
+    setNotificationsEnabled(enabled);
+    saveNotificationPreference(enabled);
   };
 
+  // Session length in minutes (0 when idle)
+  const totalDuration = session?.duration ?? 0;
+
   const getColorStage = () => {
-    if (appState !== AppState.FOCUSING) return "start";
+    if (appState !== AppState.FOCUSING && appState !== AppState.PAUSED)
+      return "start";
     const progress = 1 - timeLeft / (totalDuration * 60);
     if (progress < 0.4) return "start";
     if (progress < 0.8) return "mid";
@@ -264,6 +653,10 @@ const AppContent: React.FC = () => {
       const progress = 1 - timeLeft / (totalDuration * 60);
       return 0.1 + progress * 0.9;
     }
+    if (appState === AppState.PAUSED) return 0.02;
+    // Breaks drift calmly, long breaks almost to a standstill
+    if (appState === AppState.SHORT_BREAK) return 0.05;
+    if (appState === AppState.LONG_BREAK) return 0.03;
     return 0;
   };
 
@@ -275,6 +668,38 @@ const AppContent: React.FC = () => {
 
   // --- Views ---
 
+  // Compact -/+ control used by the expedition settings
+  const renderStepper = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    min: number,
+    max: number,
+    unit?: string,
+  ) => (
+    <div className="flex items-center gap-2">
+      <span style={{ color: "var(--muted)" }}>{label}</span>
+      <button
+        onClick={() => onChange(Math.max(min, value - 1))}
+        disabled={value <= min}
+        className="w-6 h-6 transition-colors disabled:opacity-30"
+        style={{ ...ghostButtonStyle, color: "var(--foreground)" }}
+      >
+        −
+      </button>
+      <span className="min-w-[2ch] text-center text-white">{value}</span>
+      <button
+        onClick={() => onChange(Math.min(max, value + 1))}
+        disabled={value >= max}
+        className="w-6 h-6 transition-colors disabled:opacity-30"
+        style={{ ...ghostButtonStyle, color: "var(--foreground)" }}
+      >
+        +
+      </button>
+      {unit && <span style={{ color: "var(--muted)" }}>{unit}</span>}
+    </div>
+  );
+
   // 1. Idle / Setup View
   const renderSetup = () => (
     <div className="relative z-10 flex flex-col items-center justify-center min-h-screen p-4 gap-6 md:gap-12 animate-in fade-in duration-700 py-16 md:py-4">
@@ -317,18 +742,27 @@ const AppContent: React.FC = () => {
             .sort((a, b) => a - b)
             .map((tier) => {
               const conf = TIER_CONFIG[tier as FocusTier];
-              const isSelected = selectedTier === tier;
+              const isSelected =
+                selectedTier === tier && parsedCustomDuration === null;
+              const isNearest =
+                selectedTier === tier && parsedCustomDuration !== null;
               const isHovered = hoveredTier === tier;
 
               return (
                 <button
                   key={tier}
-                  onClick={() => setSelectedTier(tier as FocusTier)}
+                  onClick={() => {
+                    setSelectedTier(tier as FocusTier);
+                    setCustomDuration("");
+                  }}
                   onMouseEnter={() => setHoveredTier(tier)}
                   onMouseLeave={() => setHoveredTier(null)}
                   className="group relative p-4 md:p-6 transition-all duration-200"
                   style={{
                     ...getTierButtonStyle(isSelected, conf.color),
+                    ...(isNearest && {
+                      border: "1px dashed rgba(255, 255, 255, 0.25)",
+                    }),
                     transform:
                       isHovered && !isSelected
                         ? "translateY(-2px)"
@@ -359,6 +793,88 @@ const AppContent: React.FC = () => {
               );
             })}
         </div>
+
+        {/* Custom Duration - mapped onto the nearest tier */}
+        <div className="mt-3 md:mt-4 flex flex-wrap items-center justify-center gap-2 md:gap-3 font-mono text-[10px] md:text-xs uppercase tracking-widest">
+          <span style={{ color: "var(--muted)" }}>{t("setup.custom")}</span>
+          <div
+            className="flex items-center gap-1 px-3 py-2"
+            style={{
+              background: `linear-gradient(
+                180deg,
+                color-mix(in srgb, var(--background) 100%, black) 0%,
+                var(--background) 100%
+              )`,
+              boxShadow: `inset 0 2px 6px rgba(0, 0, 0, 0.5)`,
+              borderRadius: "var(--radius-sm)",
+              border:
+                parsedCustomDuration !== null
+                  ? "1px solid var(--primary)"
+                  : "1px solid var(--border)",
+            }}
+          >
+            <input
+              type="text"
+              inputMode="numeric"
+              value={customDuration}
+              onChange={(e) => handleCustomDurationChange(e.target.value)}
+              placeholder="--"
+              aria-label={t("setup.customLabel")}
+              className="bg-transparent border-none outline-none w-10 text-right font-mono text-base md:text-sm"
+              style={{ color: "var(--foreground)" }}
+            />
+            <span style={{ color: "var(--muted)" }}>{t("unit.min")}</span>
+          </div>
+          {parsedCustomDuration !== null && (
+            <span className={TIER_CONFIG[selectedTier].color}>
+              → {TIER_CONFIG[selectedTier].name}
+            </span>
+          )}
+        </div>
+
+        {/* Expedition Mode - N blocks with automatic breaks */}
+        <div className="mt-3 md:mt-4 flex flex-wrap items-center justify-center gap-2 md:gap-4 font-mono text-[10px] md:text-xs uppercase tracking-widest">
+          <button
+            onClick={() => setIsExpedition(!isExpedition)}
+            className="px-3 py-2 transition-all duration-200"
+            style={{
+              ...ghostButtonStyle,
+              color: isExpedition ? "white" : "var(--muted)",
+              borderColor: isExpedition ? "var(--primary)" : "var(--border)",
+            }}
+          >
+            {t("setup.expedition")} [{isExpedition ? t("setup.on") : t("setup.off")}]
+          </button>
+          {isExpedition && (
+            <>
+              {renderStepper(
+                t("setup.blocks"),
+                expeditionPlan.blocks,
+                (blocks) => setExpeditionPlan({ ...expeditionPlan, blocks }),
+                MIN_EXPEDITION_BLOCKS,
+                MAX_EXPEDITION_BLOCKS,
+              )}
+              {renderStepper(
+                t("setup.shortBreak"),
+                expeditionPlan.shortBreak,
+                (shortBreak) =>
+                  setExpeditionPlan({ ...expeditionPlan, shortBreak }),
+                1,
+                30,
+                t("unit.min"),
+              )}
+              {renderStepper(
+                t("setup.longBreak"),
+                expeditionPlan.longBreak,
+                (longBreak) =>
+                  setExpeditionPlan({ ...expeditionPlan, longBreak }),
+                5,
+                60,
+                t("unit.min"),
+              )}
+            </>
+          )}
+        </div>
       </ParallaxLayer>
 
       {/* Terminal and CTA - different depths for parallax layering */}
@@ -367,7 +883,13 @@ const AppContent: React.FC = () => {
           depth={0.6}
           className="flex-1 w-full flex justify-center order-2 md:order-1"
         >
-          <Terminal tasks={tasks} setTasks={setTasks} />
+          <Terminal
+            tasks={tasks}
+            setTasks={setTasks}
+            targetTaskId={targetTask?.id ?? null}
+            onSelectTarget={setTargetTaskId}
+            focus={taskFocus}
+          />
         </ParallaxLayer>
         <ParallaxLayer
           depth={1.0}
@@ -397,7 +919,9 @@ const AppContent: React.FC = () => {
               isStartHovered ? primaryButtonHoverStyle : primaryButtonStyle
             }
           >
-            <span className="relative z-10">{t("button.initialize")}</span>
+            <span className="relative z-10">
+              {isExpedition ? t("button.launchExpedition") : t("button.initialize")}
+            </span>
             <div
               className="absolute inset-0 transform scale-x-0 group-hover:scale-x-100 transition-transform origin-left duration-500 -z-0"
               style={{
@@ -415,27 +939,33 @@ const AppContent: React.FC = () => {
         </ParallaxLayer>
       </div>
 
-      {archive.length > 0 && (
-        <ParallaxLayer depth={0.4}>
-          <button
-            onClick={() => setAppState(AppState.ARCHIVE)}
-            className="text-xs uppercase tracking-widest border-b border-transparent hover:border-white transition-all pb-1"
-            style={{ color: "var(--muted)" }}
-            onMouseEnter={(e) => (e.currentTarget.style.color = "white")}
-            onMouseLeave={(e) => (e.currentTarget.style.color = "var(--muted)")}
-          >
-            {t("button.accessArchives")} ({archive.length})
-          </button>
-        </ParallaxLayer>
-      )}
+      {/* Always reachable so an exported archive can be imported on a fresh device */}
+      <ParallaxLayer depth={0.4}>
+        <button
+          onClick={() => setAppState(AppState.ARCHIVE)}
+          className="text-xs uppercase tracking-widest border-b border-transparent hover:border-white transition-all pb-1"
+          style={{ color: "var(--muted)" }}
+          onMouseEnter={(e) => (e.currentTarget.style.color = "white")}
+          onMouseLeave={(e) => (e.currentTarget.style.color = "var(--muted)")}
+        >
+          {t("button.accessArchives")} ({archive.length})
+        </button>
+      </ParallaxLayer>
     </div>
   );
 
-  // 2. Focusing View
+  // 2. Focusing View (also shown, dimmed, while paused)
+  const isPaused = appState === AppState.PAUSED;
+  const isSessionActive = appState === AppState.FOCUSING || isPaused;
+
   const renderFocusing = () => (
     <div className="relative z-10 w-full h-screen flex flex-col items-center justify-center text-white">
       {/* Abyss Pulse - Living, breathing entity with audio + interaction */}
-      <AbyssPulse analyser={analyser} active={appState === AppState.FOCUSING} />
+      <AbyssPulse
+        analyser={analyser}
+        active={isSessionActive}
+        dimmed={isPaused}
+      />
 
       {/* Live Signal indicator - depth 0.3 */}
       <ParallaxLayer
@@ -443,10 +973,10 @@ const AppContent: React.FC = () => {
         className="absolute top-8 left-0 w-full flex justify-center"
       >
         <span
-          className="animate-pulse font-mono text-xs uppercase tracking-[0.3em]"
-          style={{ color: "var(--destructive)" }}
+          className={`font-mono text-xs uppercase tracking-[0.3em] ${isPaused ? "" : "animate-pulse"}`}
+          style={{ color: isPaused ? "var(--muted)" : "var(--destructive)" }}
         >
-          {t("status.liveSignal")}
+          {isPaused ? t("status.signalHeld") : t("status.liveSignal")}
         </span>
       </ParallaxLayer>
 
@@ -459,19 +989,111 @@ const AppContent: React.FC = () => {
           className="font-mono text-xs md:text-sm tracking-widest mb-4"
           style={{ color: "var(--muted)" }}
         >
-          {t("status.timeDilation")}
+          {isPaused ? t("status.paused") : t("status.timeDilation")}
         </div>
 
-        <div className="font-display text-5xl md:text-6xl opacity-80 tracking-widest">
-          {Math.floor(timeLeft / 60)
-            .toString()
-            .padStart(2, "0")}
-          :{(timeLeft % 60).toString().padStart(2, "0")}
+        <div
+          className={`font-display text-5xl md:text-6xl tracking-widest transition-opacity duration-700 ${isPaused ? "opacity-40 animate-pulse" : "opacity-80"}`}
+        >
+          {formatClock(timeLeft)}
+        </div>
+
+        {session?.expedition && (
+          <div
+            className="font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase pt-2"
+            style={{ color: "var(--muted)" }}
+          >
+            {t("status.block")} {session.expedition.block + 1} /{" "}
+            {session.expedition.plan.blocks}
+          </div>
+        )}
+      </ParallaxLayer>
+
+      {/* Session controls - depth 0.5 */}
+      <ParallaxLayer
+        depth={0.5}
+        className="absolute bottom-10 flex flex-col items-center gap-4"
+      >
+        <button
+          onClick={isPaused ? resumeFocus : pauseFocus}
+          onMouseEnter={() => setIsPauseHovered(true)}
+          onMouseLeave={() => setIsPauseHovered(false)}
+          className="text-[10px] md:text-xs font-mono uppercase tracking-widest px-4 py-2 transition-all duration-200"
+          style={{
+            ...ghostButtonStyle,
+            color: isPaused || isPauseHovered ? "white" : "var(--muted)",
+            borderColor: isPaused ? "var(--primary)" : "var(--border)",
+          }}
+        >
+          {isPaused ? t("button.resume") : t("button.pause")}
+        </button>
+        <button
+          onClick={abortFocus}
+          className="text-xs font-mono uppercase tracking-widest transition-colors"
+          style={{ color: "var(--border)" }}
+          onMouseEnter={(e) =>
+            (e.currentTarget.style.color = "var(--destructive)")
+          }
+          onMouseLeave={(e) => (e.currentTarget.style.color = "var(--border)")}
+        >
+          {t("button.abort")}
+        </button>
+      </ParallaxLayer>
+    </div>
+  );
+
+  // 3. Break View (expedition only) - a calm drift between blocks
+  const isBreak =
+    appState === AppState.SHORT_BREAK || appState === AppState.LONG_BREAK;
+
+  const renderBreak = () => (
+    <div className="relative z-10 w-full h-screen flex flex-col items-center justify-center text-white">
+      <ParallaxLayer
+        depth={0.3}
+        className="absolute top-8 left-0 w-full flex justify-center"
+      >
+        <span
+          className="font-mono text-xs uppercase tracking-[0.3em]"
+          style={{ color: "var(--primary)" }}
+        >
+          {appState === AppState.LONG_BREAK
+            ? t("status.longBreak")
+            : t("status.shortBreak")}
+        </span>
+      </ParallaxLayer>
+
+      <ParallaxLayer depth={1.2} className="text-center space-y-2">
+        <div
+          className="font-mono text-xs md:text-sm tracking-widest mb-4"
+          style={{ color: "var(--muted)" }}
+        >
+          {t("status.breakDesc")}
         </div>
+        <div className="font-display text-5xl md:text-6xl opacity-60 tracking-widest">
+          {formatClock(timeLeft)}
+        </div>
+        {session?.expedition && (
+          <div
+            className="font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase pt-2"
+            style={{ color: "var(--muted)" }}
+          >
+            {t("status.nextBlock")} {session.expedition.block + 2} /{" "}
+            {session.expedition.plan.blocks}
+          </div>
+        )}
       </ParallaxLayer>
 
-      {/* Abort button - depth 0.5 */}
-      <ParallaxLayer depth={0.5} className="absolute bottom-10">
+      <ParallaxLayer
+        depth={0.5}
+        className="absolute bottom-10 flex flex-col items-center gap-4"
+      >
+        <button
+          onClick={handleComplete}
+          className="text-[10px] md:text-xs font-mono uppercase tracking-widest px-4 py-2 transition-all duration-200 hover:text-white"
+          style={{ ...ghostButtonStyle, color: "var(--muted)" }}
+        >
+          {t("button.skipBreak")}
+        </button>
         <button
           onClick={abortFocus}
           className="text-xs font-mono uppercase tracking-widest transition-colors"
@@ -487,9 +1109,12 @@ const AppContent: React.FC = () => {
     </div>
   );
 
-  // 3. Signal Lost View
+  // 4. Signal Lost View
   const renderSignalLost = () => (
-    <div className="relative z-50 w-full h-screen flex items-center justify-center bg-black">
+    <div
+      className="relative z-50 w-full h-screen flex items-center justify-center bg-black cursor-pointer"
+      onClick={dismissSignalLost}
+    >
       <div className="noise-bg opacity-30"></div>
       <div className="scanline"></div>
       <div className="crt-flicker text-center px-4">
@@ -499,16 +1124,49 @@ const AppContent: React.FC = () => {
         <p className="font-mono text-xs md:text-base text-red-900 uppercase tracking-widest">
           {t("status.signalLostDesc")}
         </p>
+        {lostSignal && (
+          <p className="font-mono text-[10px] md:text-xs text-slate-600 uppercase tracking-widest mt-6">
+            {t("status.partialArchived")} // {lostSignal.elapsed} /{" "}
+            {lostSignal.duration} {t("unit.min")}
+          </p>
+        )}
       </div>
     </div>
   );
 
+  // 5. Report View - the streamed draft and the final report share one card,
+  // so the typewriter keeps its place when the full transmission lands
+  const liveTelemetry =
+    telemetry && telemetry.sessionId === session?.id ? telemetry : null;
+  const draftReport: ObservationReport | null =
+    appState === AppState.PROCESSING &&
+    session &&
+    liveTelemetry &&
+    (liveTelemetry.environment || liveTelemetry.log)
+      ? {
+          id: session.id,
+          timestamp: session.startedAt,
+          duration: session.duration,
+          tier: session.tier,
+          // Header values only arrive with the final report
+          dimensionCode: "",
+          entropy: 0,
+          stability: "Stable",
+          environment: liveTelemetry.environment,
+          log: liveTelemetry.log,
+        }
+      : null;
+  const shownReport =
+    appState === AppState.REPORT ? currentReport : draftReport;
+
   return (
     <div className="relative min-h-screen w-full bg-slate-950 overflow-x-hidden selection:bg-cyan-500/30">
       {/* Audio Engine */}
       <AudioAmbience active={appState === AppState.FOCUSING} muted={isMuted} />
       <SpaceMusic
-        active={appState === AppState.FOCUSING}
+        active={isSessionActive || isBreak}
+        paused={isPaused}
+        mix={isBreak ? "break" : "focus"}
         muted={isMuted}
         onAnalyserReady={setAnalyser}
       />
@@ -556,7 +1214,62 @@ const AppContent: React.FC = () => {
             </svg>
           )}
         </button>
+        {isNotificationSupported() && (
+          <button
+            onClick={toggleNotifications}
+            className="p-1 transition-colors duration-200 text-[var(--muted)] hover:text-white"
+            title={
+              notificationsEnabled
+                ? t("button.notificationsOff")
+                : t("button.notificationsOn")
+            }
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" />
+              <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+              {!notificationsEnabled && <line x1="2" y1="2" x2="22" y2="22" />}
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={() => setIsSyncOpen(!isSyncOpen)}
+          className="p-1 transition-colors duration-200 hover:text-white"
+          style={{ color: sync.link ? "var(--primary)" : "var(--muted)" }}
+          title={t("button.sync")}
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={sync.status === "syncing" ? "animate-spin" : undefined}
+          >
+            <polyline points="23 4 23 10 17 10" />
+            <polyline points="1 20 1 14 7 14" />
+            <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15" />
+          </svg>
+        </button>
         <LanguageSwitcher />
+        {isSyncOpen && (
+          <div className="absolute top-full right-0 mt-2">
+            <SyncPanel sync={sync} onClose={() => setIsSyncOpen(false)} />
+          </div>
+        )}
       </ParallaxLayer>
 
       {/* Background Visuals - no parallax on fixed background */}
@@ -564,6 +1277,7 @@ const AppContent: React.FC = () => {
         <StarTunnel
           speed={getSpeed()}
           colorStage={getColorStage()}
+          dimmed={isPaused}
           isCollapsed={
             appState === AppState.IDLE || appState === AppState.ARCHIVE
           }
@@ -573,9 +1287,10 @@ const AppContent: React.FC = () => {
       {/* Main Content Router */}
       <main className="relative z-10">
         {appState === AppState.IDLE && renderSetup()}
-        {appState === AppState.FOCUSING && renderFocusing()}
+        {isSessionActive && renderFocusing()}
+        {isBreak && renderBreak()}
         {appState === AppState.SIGNAL_LOST && renderSignalLost()}
-        {appState === AppState.PROCESSING && (
+        {appState === AppState.PROCESSING && !draftReport && (
           <ParallaxLayer
             depth={0.8}
             className="h-screen flex items-center justify-center"
@@ -588,10 +1303,16 @@ const AppContent: React.FC = () => {
             </div>
           </ParallaxLayer>
         )}
-        {appState === AppState.REPORT && currentReport && (
+        {shownReport && (
           <div className="h-screen flex items-center justify-center bg-black/80">
             <ParallaxLayer depth={0.9}>
-              <ReportCard report={currentReport} onClose={closeReport} />
+              <ReportCard
+                report={shownReport}
+                receiving={shownReport === draftReport}
+                typewriter={!!liveTelemetry}
+                onClose={closeReport}
+                onReestablishSignal={() => reestablishReportSignal(shownReport)}
+              />
             </ParallaxLayer>
           </div>
         )}
@@ -599,6 +1320,15 @@ const AppContent: React.FC = () => {
           <ArchiveView
             archive={archive}
             onBack={() => setAppState(AppState.IDLE)}
+            onImport={importEntries}
+            onReestablishSignal={reestablishReportSignal}
+            onOpenStats={() => setAppState(AppState.STATS)}
+          />
+        )}
+        {appState === AppState.STATS && (
+          <StatsView
+            archive={archive}
+            onBack={() => setAppState(AppState.ARCHIVE)}
           />
         )}
       </main>
@@ -51,6 +51,7 @@ import { useMotionParallaxContext } from "../contexts/MotionParallaxContext";
 interface AbyssPulseProps {
   analyser: AnalyserNode | null;
   active: boolean;
+  dimmed?: boolean; // Session paused: the entity sinks into a faint glow
 }
 
 // Particle in the star dust system
@@ -75,7 +76,11 @@ interface Ripple {
   speed: number;
   maxRadius: number;
 }
-const AbyssPulse: React.FC<AbyssPulseProps> = ({ analyser, active }) => {
+const AbyssPulse: React.FC<AbyssPulseProps> = ({
+  analyser,
+  active,
+  dimmed = false,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>(0);
@@ -278,7 +283,7 @@ const AbyssPulse: React.FC<AbyssPulseProps> = ({ analyser, active }) => {
       ctx.clearRect(0, 0, size, size);
 
       // Fade in/out
-      const targetOpacity = active ? 1 : 0;
+      const targetOpacity = active ? (dimmed ? 0.25 : 1) : 0;
       opacityRef.current += (targetOpacity - opacityRef.current) * 0.03;
 
       if (opacityRef.current < 0.01 && !active) {
@@ -540,7 +545,7 @@ const AbyssPulse: React.FC<AbyssPulseProps> = ({ analyser, active }) => {
     return () => {
       cancelAnimationFrame(animationRef.current);
     };
-  }, [analyser, active, getDisplacement, initParticles, createRipple]);
+  }, [analyser, active, dimmed, getDisplacement, initParticles, createRipple]);
 
   // Handle resize
   useEffect(() => {
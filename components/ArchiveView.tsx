@@ -1,17 +1,290 @@
-import React, { useState } from "react";
-import { ObservationReport, FocusTier } from "../types";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  ArchiveEntry,
+  FocusTier,
+  ObservationReport,
+  STABILITY_LEVELS,
+  TIER_CSS_VARS,
+  getEntryTier,
+  isSignalLost,
+} from "../types";
 import { useI18n, useTierConfig } from "../contexts/I18nContext";
+import {
+  ArchiveQuery,
+  ArchiveSort,
+  ARCHIVE_SORTS,
+  ARCHIVE_SOURCES,
+  DEFAULT_ARCHIVE_QUERY,
+  applyArchiveQuery,
+  clearArchiveQuery,
+  getQueryTimeRange,
+  hasActiveFilters,
+  isIndexedQuery,
+  parseArchiveQuery,
+  serializeArchiveQuery,
+} from "../services/archiveQuery";
+import {
+  ArchiveImportError,
+  ArchiveMergeResult,
+  downloadTextFile,
+  exportArchiveCSV,
+  exportArchiveJSON,
+  exportArchiveMarkdown,
+  parseArchiveImport,
+} from "../services/archiveTransfer";
+import { getTaskFocus } from "../services/archiveStats";
+import { getContinuityChains } from "../services/continuity";
+import { ArchivePage, queryArchive } from "../services/storage";
+import VisualFeed from "./VisualFeed";
 
 interface ArchiveViewProps {
-  archive: ObservationReport[];
+  archive: ArchiveEntry[];
   onBack: () => void;
+  onImport: (entries: ArchiveEntry[]) => ArchiveMergeResult;
+  onReestablishSignal: (report: ObservationReport) => Promise<boolean>;
+  onOpenStats: () => void;
 }
 
-const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
+// Spec Badge - Inset Style
+const specBadgeStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    180deg,
+    color-mix(in srgb, var(--background) 100%, black) 0%,
+    var(--background) 100%
+  )`,
+  boxShadow: `inset 0 1px 3px rgba(0, 0, 0, 0.3)`,
+  borderRadius: "0",
+  border: "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
+  color: "var(--muted)",
+};
+
+// Query Input - Inset Style (matches the Terminal input well)
+const insetFieldStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    180deg,
+    color-mix(in srgb, var(--background) 100%, black) 0%,
+    var(--background) 100%
+  )`,
+  boxShadow: `inset 0 2px 6px rgba(0, 0, 0, 0.5)`,
+  borderRadius: "var(--radius-sm)",
+  border: "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
+  color: "var(--foreground)",
+};
+
+// Filter Chip - Ghost Style, highlighted when selected
+const getChipStyle = (isSelected: boolean): React.CSSProperties => ({
+  background: isSelected
+    ? "color-mix(in srgb, var(--primary) 18%, transparent)"
+    : "color-mix(in srgb, var(--surface-elevated) 40%, transparent)",
+  border: isSelected ? "1px solid var(--primary)" : "1px solid var(--border)",
+  borderRadius: "var(--radius-sm)",
+  color: isSelected ? "white" : "var(--muted)",
+});
+
+const TIERS = (
+  Object.values(FocusTier).filter((v) => typeof v === "number") as number[]
+).sort((a, b) => a - b) as FocusTier[];
+
+// Swap the query string in place (no history entry per keystroke)
+const replaceSearch = (params: URLSearchParams) => {
+  const search = params.toString();
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`,
+  );
+};
+
+// Export formats offered in the transfer bar
+const EXPORT_FORMATS = [
+  { key: "json", mimeType: "application/json", build: exportArchiveJSON },
+  { key: "md", mimeType: "text/markdown", build: exportArchiveMarkdown },
+  { key: "csv", mimeType: "text/csv", build: exportArchiveCSV },
+] as const;
+
+// How long a card stays outlined after jumping to it from a chain link
+const JUMP_HIGHLIGHT_MS = 1600;
+// Cards rendered per page; the next page loads when the end of the grid scrolls into view
+const PAGE_SIZE = 24;
+
+const getEntryElementId = (id: string) => `archive-entry-${id}`;
+
+// Add or remove a value from a multi-select filter
+const toggleValue = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+const ArchiveView: React.FC<ArchiveViewProps> = ({
+  archive,
+  onBack,
+  onImport,
+  onReestablishSignal,
+  onOpenStats,
+}) => {
   const [hoveredCard, setHoveredCard] = useState<string | null>(null);
-  const { t } = useI18n();
+  // Chain link target: scrolled to once rendered, then briefly outlined
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightedCard, setHighlightedCard] = useState<string | null>(null);
+  const [query, setQuery] = useState<ArchiveQuery>(() =>
+    parseArchiveQuery(window.location.search),
+  );
+  const [showFilters, setShowFilters] = useState<boolean>(() =>
+    hasActiveFilters(query),
+  );
+  const [transferStatus, setTransferStatus] = useState<{
+    message: string;
+    isError: boolean;
+  } | null>(null);
+  const [pageLimit, setPageLimit] = useState(PAGE_SIZE);
+  // Current page read from storage, for queries its indexes can answer
+  const [storedPage, setStoredPage] = useState<ArchivePage | null>(null);
+  // Fallback reports being re-requested, or whose last attempt failed
+  const [signalStatus, setSignalStatus] = useState<Record<string, "busy" | "lost">>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pageEndRef = useRef<HTMLDivElement>(null);
+  const { t, formatDate } = useI18n();
   const TIER_CONFIG = useTierConfig();
 
+  // Time/tier views page straight from IndexedDB; anything needing a scan
+  // (search, readings filters, other sorts) filters the in-memory archive
+  const isIndexed = isIndexedQuery(query);
+  const scanned = useMemo(
+    () => (isIndexed ? null : applyArchiveQuery(archive, query)),
+    [archive, query, isIndexed],
+  );
+
+  useEffect(() => {
+    if (!isIndexed) return;
+    let cancelled = false;
+    queryArchive({
+      tiers: query.tiers,
+      ...getQueryTimeRange(query),
+      order: query.sort === "oldest" ? "oldest" : "newest",
+      limit: pageLimit,
+    }).then((page) => {
+      if (!cancelled) setStoredPage(page);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // The archive prop changes whenever storage does
+  }, [isIndexed, query, pageLimit, archive]);
+
+  const results = scanned ? scanned.slice(0, pageLimit) : (storedPage?.entries ?? []);
+  const total = scanned ? scanned.length : (storedPage?.total ?? 0);
+  const hasMore = results.length < total;
+  const isLoading = isIndexed && storedPage === null;
+
+  // A different query starts from the first page again
+  useEffect(() => setPageLimit(PAGE_SIZE), [query]);
+
+  useEffect(() => {
+    const end = pageEndRef.current;
+    if (!end || !hasMore) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setPageLimit((limit) => limit + PAGE_SIZE);
+    });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [hasMore, results.length]);
+  // Accumulated focus per directive across the whole archive
+  const taskFocus = useMemo(() => getTaskFocus(archive), [archive]);
+  // Dimension continuity links, resolved against the whole archive
+  const continuityChains = useMemo(() => getContinuityChains(archive), [archive]);
+
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const element = document.getElementById(getEntryElementId(jumpTarget));
+    if (!element) {
+      // Older entries may sit on a later page
+      if (hasMore) setPageLimit((limit) => limit + PAGE_SIZE);
+      return;
+    }
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedCard(jumpTarget);
+    setJumpTarget(null);
+  }, [jumpTarget, results, hasMore]);
+
+  useEffect(() => {
+    if (!highlightedCard) return;
+    const timeout = window.setTimeout(
+      () => setHighlightedCard(null),
+      JUMP_HIGHLIGHT_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [highlightedCard]);
+
+  const reestablishSignal = async (report: ObservationReport) => {
+    const setStatus = (status?: "busy" | "lost") =>
+      setSignalStatus(({ [report.id]: _, ...rest }) =>
+        status ? { ...rest, [report.id]: status } : rest,
+      );
+    setStatus("busy");
+    try {
+      setStatus((await onReestablishSignal(report)) ? undefined : "lost");
+    } catch (error) {
+      console.error("Re-establishing signal failed", error);
+      setStatus("lost");
+    }
+  };
+
+  // Filters that hide the linked entry are cleared first (the sort is kept)
+  const jumpTo = (id: string) => {
+    const target = archive.find((entry) => entry.id === id);
+    if (target && !applyArchiveQuery([target], query).length) {
+      setQuery({ ...DEFAULT_ARCHIVE_QUERY, sort: query.sort });
+    }
+    setJumpTarget(id);
+  };
+
+  // Mirror the filter state into the URL; strip it again when leaving the archive
+  useEffect(() => {
+    const params = clearArchiveQuery(window.location.search);
+    serializeArchiveQuery(query).forEach((value, key) => params.set(key, value));
+    replaceSearch(params);
+  }, [query]);
+
+  useEffect(() => {
+    return () => replaceSearch(clearArchiveQuery(window.location.search));
+  }, []);
+
+  const updateQuery = (patch: Partial<ArchiveQuery>) =>
+    setQuery((prev) => ({ ...prev, ...patch }));
+
+  const isFiltered = hasActiveFilters(query) || query.search.trim() !== "";
+
+  // Exports always cover the full archive, not just the filtered view
+  const handleExport = (format: (typeof EXPORT_FORMATS)[number]) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(
+      `abyss-archive-${date}.${format.key}`,
+      format.build(archive),
+      format.mimeType,
+    );
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const { entries, rejected } = parseArchiveImport(await file.text());
+      const { added, duplicates } = onImport(entries);
+      setTransferStatus({
+        message: `${t('archive.importResult')} +${added} // ${t('archive.importDuplicates')} ${duplicates} // ${t('archive.importRejected')} ${rejected}`,
+        isError: false,
+      });
+    } catch (error) {
+      if (!(error instanceof ArchiveImportError)) {
+        console.error("Archive import failed", error);
+      }
+      setTransferStatus({
+        message: `${t('archive.importError')} ${error instanceof ArchiveImportError ? error.message : ""}`.trim(),
+        isError: true,
+      });
+    }
+  };
+
   return (
     <div className="relative z-10 min-h-screen p-4 md:p-16 w-full max-w-7xl mx-auto animate-in slide-in-from-bottom-10 duration-500">
       {/* Header */}
@@ -30,75 +303,416 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
             className="font-mono text-[10px] md:text-xs tracking-[0.2em]"
             style={{ color: "var(--muted)" }}
           >
-            {t('archive.subtitle')} {archive.length}
+            {t('archive.subtitle')}{" "}
+            {isFiltered ? `${total} / ${archive.length}` : archive.length}
           </p>
         </div>
-        {/* Back Button - Ghost Style */}
-        <button
-          onClick={onBack}
-          className="group flex items-center gap-2 font-mono text-xs uppercase transition-all duration-200 px-4 py-2"
-          style={{
-            background: `linear-gradient(
-              135deg,
-              color-mix(in srgb, var(--surface-elevated) 60%, transparent) 0%,
-              color-mix(in srgb, var(--surface-elevated) 40%, transparent) 100%
-            )`,
-            boxShadow: `
-              0 2px 8px rgba(0, 0, 0, 0.2),
-              inset 0 1px 0 rgba(255, 255, 255, 0.05)
-            `,
-            borderRadius: "var(--radius-sm)",
-            border: "1px solid var(--border)",
-            color: "var(--primary)",
-          }}
-          onMouseEnter={(e) => {
-            e.currentTarget.style.color = "white";
-            e.currentTarget.style.transform = "scale(1.02)";
-          }}
-          onMouseLeave={(e) => {
-            e.currentTarget.style.color = "var(--primary)";
-            e.currentTarget.style.transform = "scale(1)";
-          }}
-        >
-          <span className="hidden md:inline opacity-0 group-hover:opacity-100 -translate-x-2 group-hover:translate-x-0 transition-all">
-            ←
-          </span>
-          {t('button.return')}
-        </button>
+        <div className="flex gap-2">
+          {/* Stats Button - Ghost Style */}
+          <button
+            onClick={onOpenStats}
+            className="font-mono text-xs uppercase transition-all duration-200 px-4 py-2"
+            style={getChipStyle(false)}
+            onMouseEnter={(e) => (e.currentTarget.style.color = "white")}
+            onMouseLeave={(e) => (e.currentTarget.style.color = "var(--muted)")}
+          >
+            {t('button.stats')}
+          </button>
+          {/* Back Button - Ghost Style */}
+          <button
+            onClick={onBack}
+            className="group flex items-center gap-2 font-mono text-xs uppercase transition-all duration-200 px-4 py-2"
+            style={{
+              background: `linear-gradient(
+                135deg,
+                color-mix(in srgb, var(--surface-elevated) 60%, transparent) 0%,
+                color-mix(in srgb, var(--surface-elevated) 40%, transparent) 100%
+              )`,
+              boxShadow: `
+                0 2px 8px rgba(0, 0, 0, 0.2),
+                inset 0 1px 0 rgba(255, 255, 255, 0.05)
+              `,
+              borderRadius: "var(--radius-sm)",
+              border: "1px solid var(--border)",
+              color: "var(--primary)",
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.color = "white";
+              e.currentTarget.style.transform = "scale(1.02)";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.color = "var(--primary)";
+              e.currentTarget.style.transform = "scale(1)";
+            }}
+          >
+            <span className="hidden md:inline opacity-0 group-hover:opacity-100 -translate-x-2 group-hover:translate-x-0 transition-all">
+              ←
+            </span>
+            {t('button.return')}
+          </button>
+        </div>
+      </div>
+
+      {/* Query Bar - search, sort and filters */}
+      <div className="mb-6 md:mb-8 space-y-3 font-mono text-[10px] md:text-xs uppercase tracking-widest">
+        <div className="flex flex-col md:flex-row gap-2 md:gap-3">
+          <div
+            className="flex items-center gap-2 flex-1 px-4 py-2"
+            style={insetFieldStyle}
+          >
+            <span style={{ color: "var(--primary)", fontSize: "16px" }}>›</span>
+            <input
+              type="search"
+              value={query.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              placeholder={t('archive.searchPlaceholder')}
+              className="bg-transparent border-none outline-none w-full font-mono text-base md:text-sm normal-case tracking-normal"
+              style={{ color: "var(--foreground)" }}
+            />
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={query.sort}
+              onChange={(e) =>
+                updateQuery({ sort: e.target.value as ArchiveSort })
+              }
+              aria-label={t('archive.sort')}
+              className="px-3 py-2 outline-none uppercase flex-1 md:flex-none"
+              style={insetFieldStyle}
+            >
+              {ARCHIVE_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {t(`archive.sort.${sort}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="px-3 py-2 transition-colors"
+              style={getChipStyle(showFilters)}
+            >
+              {t('archive.filters')} {showFilters ? "−" : "+"}
+            </button>
+          </div>
+        </div>
+
+        {showFilters && (
+          <div
+            className="grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 p-4"
+            style={{
+              border: "1px solid var(--border)",
+              background: "color-mix(in srgb, var(--surface) 70%, transparent)",
+            }}
+          >
+            {/* Tier */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span style={{ color: "var(--muted)" }}>{t('archive.filter.tier')}</span>
+              {TIERS.map((tier) => (
+                <button
+                  key={tier}
+                  onClick={() =>
+                    updateQuery({ tiers: toggleValue(query.tiers, tier) })
+                  }
+                  className="px-2 py-1"
+                  style={getChipStyle(query.tiers.includes(tier))}
+                >
+                  <span className={TIER_CONFIG[tier].color}>{tier}</span>
+                  {t('unit.min')}
+                </button>
+              ))}
+            </div>
+
+            {/* Stability */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span style={{ color: "var(--muted)" }}>{t('archive.filter.stability')}</span>
+              {STABILITY_LEVELS.map((stability) => (
+                <button
+                  key={stability}
+                  onClick={() =>
+                    updateQuery({
+                      stability: toggleValue(query.stability, stability),
+                    })
+                  }
+                  className="px-2 py-1"
+                  style={getChipStyle(query.stability.includes(stability))}
+                >
+                  {stability}
+                </button>
+              ))}
+            </div>
+
+            {/* Entropy Range */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span style={{ color: "var(--muted)" }}>{t('archive.filter.entropy')}</span>
+              <input
+                type="number"
+                min={0}
+                max={query.entropyMax}
+                step={0.05}
+                value={query.entropyMin}
+                onChange={(e) =>
+                  updateQuery({
+                    entropyMin: Math.min(
+                      query.entropyMax,
+                      Math.max(0, parseFloat(e.target.value) || 0),
+                    ),
+                  })
+                }
+                aria-label={t('archive.filter.entropyMin')}
+                className="w-20 px-2 py-1 outline-none"
+                style={insetFieldStyle}
+              />
+              <span style={{ color: "var(--muted)" }}>—</span>
+              <input
+                type="number"
+                min={query.entropyMin}
+                max={1}
+                step={0.05}
+                value={query.entropyMax}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  updateQuery({
+                    entropyMax: Math.max(
+                      query.entropyMin,
+                      Math.min(1, isNaN(value) ? 1 : value),
+                    ),
+                  });
+                }}
+                aria-label={t('archive.filter.entropyMax')}
+                className="w-20 px-2 py-1 outline-none"
+                style={insetFieldStyle}
+              />
+            </div>
+
+            {/* Date Range */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span style={{ color: "var(--muted)" }}>{t('archive.filter.date')}</span>
+              <input
+                type="date"
+                value={query.from}
+                max={query.to || undefined}
+                onChange={(e) => updateQuery({ from: e.target.value })}
+                aria-label={t('archive.filter.from')}
+                className="px-2 py-1 outline-none"
+                style={{ ...insetFieldStyle, colorScheme: "dark" }}
+              />
+              <span style={{ color: "var(--muted)" }}>—</span>
+              <input
+                type="date"
+                value={query.to}
+                min={query.from || undefined}
+                onChange={(e) => updateQuery({ to: e.target.value })}
+                aria-label={t('archive.filter.to')}
+                className="px-2 py-1 outline-none"
+                style={{ ...insetFieldStyle, colorScheme: "dark" }}
+              />
+            </div>
+
+            {/* Source */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span style={{ color: "var(--muted)" }}>{t('archive.filter.source')}</span>
+              {ARCHIVE_SOURCES.map((source) => (
+                <button
+                  key={source}
+                  onClick={() => updateQuery({ source })}
+                  className="px-2 py-1"
+                  style={getChipStyle(query.source === source)}
+                >
+                  {t(`archive.source.${source}`)}
+                </button>
+              ))}
+            </div>
+
+            {/* Reset */}
+            <div className="flex items-center md:justify-end">
+              <button
+                onClick={() =>
+                  setQuery({ ...DEFAULT_ARCHIVE_QUERY, sort: query.sort })
+                }
+                disabled={!isFiltered}
+                className="px-3 py-1 transition-colors disabled:opacity-30"
+                style={{ ...getChipStyle(false), color: "var(--destructive)" }}
+              >
+                {t('archive.reset')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Transfer - export the full archive or merge a previous export */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span style={{ color: "var(--muted)" }}>{t('archive.export')}</span>
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.key}
+              onClick={() => handleExport(format)}
+              disabled={archive.length === 0}
+              className="px-2 py-1 transition-colors disabled:opacity-30"
+              style={getChipStyle(false)}
+            >
+              {format.key}
+            </button>
+          ))}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 transition-colors"
+            style={{ ...getChipStyle(false), color: "var(--primary)" }}
+          >
+            {t('archive.import')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          {transferStatus && (
+            <span
+              className="normal-case tracking-normal"
+              style={{
+                color: transferStatus.isError
+                  ? "var(--destructive)"
+                  : "var(--muted)",
+              }}
+            >
+              {transferStatus.message}
+            </span>
+          )}
+        </div>
       </div>
 
+      {total === 0 && !isLoading && (
+        <div
+          className="font-mono text-xs text-center py-16 italic"
+          style={{ color: "var(--muted)" }}
+        >
+          {t('archive.noResults')}
+        </div>
+      )}
+
       {/* Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6 pb-20">
-        {archive.map((item) => {
+        {results.map((item) => {
           // Resolve Tier Color
-          const tier =
-            item.duration >= 200
-              ? FocusTier.SINGULARITY
-              : item.duration >= 120
-                ? FocusTier.IMAGINARY
-                : item.duration >= 60
-                  ? FocusTier.MIRROR_RIFT
-                  : item.duration >= 25
-                    ? FocusTier.NEIGHBORING
-                    : FocusTier.QUANTUM_FLICKER;
+          const tier = getEntryTier(item);
           const config = TIER_CONFIG[tier];
           const isHovered = hoveredCard === item.id;
 
           // Get tier CSS variable
-          const tierVar =
-            tier === FocusTier.QUANTUM_FLICKER
-              ? "--tier-quantum"
-              : tier === FocusTier.NEIGHBORING
-                ? "--tier-neighboring"
-                : tier === FocusTier.MIRROR_RIFT
-                  ? "--tier-mirror"
-                  : tier === FocusTier.IMAGINARY
-                    ? "--tier-imaginary"
-                    : "--tier-singularity";
+          const tierVar = TIER_CSS_VARS[tier];
+
+          // Aborted session - rendered as a corrupted, partial transmission
+          if (isSignalLost(item)) {
+            const progress = Math.min(1, item.elapsed / item.duration);
+            return (
+              <div
+                key={item.id}
+                onMouseEnter={() => setHoveredCard(item.id)}
+                onMouseLeave={() => setHoveredCard(null)}
+                className="relative overflow-hidden transition-all duration-300"
+                style={{
+                  background: `linear-gradient(
+                    145deg,
+                    color-mix(in srgb, var(--surface) 92%, black) 0%,
+                    color-mix(in srgb, var(--surface) 80%, black) 100%
+                  )`,
+                  boxShadow: `inset 0 2px 8px rgba(0, 0, 0, 0.4)`,
+                  borderRadius: "var(--radius-default)",
+                  border:
+                    "1px dashed color-mix(in srgb, var(--destructive) 45%, var(--border))",
+                  padding: "20px",
+                  opacity: isHovered ? 0.95 : 0.75,
+                }}
+              >
+                <div
+                  className="noise-bg"
+                  style={{ opacity: 0.05, zIndex: 0 }}
+                ></div>
+
+                {/* Metadata */}
+                <div
+                  className="relative flex justify-between items-start mb-4 md:mb-5 font-mono text-[10px] uppercase tracking-widest"
+                  style={{ color: "var(--muted)" }}
+                >
+                  <div className="flex flex-col">
+                    <span
+                      className={`font-bold text-lg ${isHovered ? "crt-flicker" : ""}`}
+                      style={{ color: "var(--destructive)" }}
+                    >
+                      {t('status.signalLost')}
+                    </span>
+                    <span className="line-through opacity-60">{config.name}</span>
+                  </div>
+                  <div className="text-right">
+                    <div>{formatDate(item.timestamp, { dateStyle: "short" })}</div>
+                    <div className="opacity-50">
+                      {formatDate(item.timestamp, { timeStyle: "medium" })}
+                    </div>
+                  </div>
+                </div>
+
+                {/* Corrupted Payload */}
+                <div className="relative mb-4 md:mb-5 pl-4 font-mono text-xs leading-relaxed">
+                  <p className="italic" style={{ color: "var(--muted)" }}>
+                    ▓▒░ {t('archive.lost.corrupted')} ░▒▓
+                  </p>
+                  {item.taskContext && (
+                    <p className="mt-2 line-clamp-2" style={{ color: "var(--foreground)" }}>
+                      {t('archive.task')} {item.taskContext}
+                      {item.taskId && (
+                        <span style={{ color: "var(--muted)" }}>
+                          {" "}
+                          // Σ{taskFocus[item.taskId].minutes}{t('unit.min')}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {/* Partial Transmission Bar */}
+                  <div className="mt-3 h-1 w-full" style={specBadgeStyle}>
+                    <div
+                      className="h-full"
+                      style={{
+                        width: `${progress * 100}%`,
+                        background: `linear-gradient(90deg, var(${tierVar}), var(--destructive))`,
+                      }}
+                    ></div>
+                  </div>
+                </div>
+
+                {/* Footer Specs */}
+                <div
+                  className="relative flex justify-between items-center pt-4 mt-auto"
+                  style={{
+                    borderTop:
+                      "1px dashed color-mix(in srgb, var(--border) 50%, transparent)",
+                  }}
+                >
+                  <div className="flex gap-2 text-[10px] font-mono">
+                    <span className="px-2 py-1" style={specBadgeStyle}>
+                      Δt: {item.elapsed}/{item.duration}m
+                    </span>
+                  </div>
+                  <div
+                    className="text-[10px] font-bold font-mono px-2 py-1"
+                    style={{
+                      border: "1px solid var(--destructive)",
+                      color: "var(--destructive)",
+                    }}
+                  >
+                    {t('archive.lost.partial')}
+                  </div>
+                </div>
+              </div>
+            );
+          }
+
+          const chain = continuityChains[item.id];
 
           return (
             <div
               key={item.id}
+              id={getEntryElementId(item.id)}
               onMouseEnter={() => setHoveredCard(item.id)}
               onMouseLeave={() => setHoveredCard(null)}
               className="relative transition-all duration-300 cursor-pointer"
@@ -119,6 +733,11 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
                      inset 0 -1px 0 rgba(0, 0, 0, 0.1)`,
                 borderRadius: "var(--radius-default)",
                 border: "1px solid var(--border)",
+                outline:
+                  highlightedCard === item.id
+                    ? `1px solid var(${tierVar})`
+                    : "1px solid transparent",
+                outlineOffset: "4px",
                 padding: "20px",
                 transform: isHovered
                   ? "translateY(-4px) scale(1.01)"
@@ -147,13 +766,30 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
                   <span>{config.name}</span>
                 </div>
                 <div className="text-right">
-                  <div>{new Date(item.timestamp).toLocaleDateString()}</div>
+                  <div>{formatDate(item.timestamp, { dateStyle: "short" })}</div>
                   <div className="opacity-50">
-                    {new Date(item.timestamp).toLocaleTimeString()}
+                    {formatDate(item.timestamp, { timeStyle: "medium" })}
                   </div>
                 </div>
               </div>
 
+              {/* Visual Feed Thumbnail */}
+              <div
+                className="overflow-hidden mb-4 h-16 transition-opacity"
+                style={{
+                  borderRadius: "var(--radius-sm)",
+                  border: "1px solid var(--border)",
+                  opacity: isHovered ? 1 : 0.7,
+                }}
+              >
+                <VisualFeed
+                  dimensionCode={item.dimensionCode}
+                  entropy={item.entropy}
+                  stability={item.stability}
+                  className="h-full"
+                />
+              </div>
+
               {/* Content Preview */}
               <div className="mb-4 md:mb-5 relative">
                 {/* Left Border Accent */}
@@ -171,6 +807,70 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
                 >
                   "{item.log}"
                 </p>
+                {item.taskContext && (
+                  <p
+                    className="font-mono text-[10px] uppercase tracking-widest pl-4 mt-3 truncate"
+                    style={{ color: "var(--muted)" }}
+                  >
+                    {t('archive.task')}{" "}
+                    <span className="normal-case tracking-normal" style={{ color: "var(--foreground)" }}>
+                      {item.taskContext}
+                    </span>
+                    {item.taskId && (
+                      <> // Σ{taskFocus[item.taskId].minutes}{t('unit.min')}</>
+                    )}
+                  </p>
+                )}
+                {/* Continuity Chain - earlier dimensions this one links back to */}
+                {chain && (
+                  <p
+                    className="font-mono text-[10px] uppercase tracking-widest pl-4 mt-2 truncate"
+                    style={{ color: "var(--muted)" }}
+                  >
+                    {chain[chain.length - 1].dimensionCode === item.dimensionCode
+                      ? t('archive.revisited')
+                      : t('archive.echoes')}{" "}
+                    {chain.map((link) => (
+                      <React.Fragment key={link.id}>
+                        <button
+                          onClick={() => jumpTo(link.id)}
+                          className="uppercase tracking-widest hover:text-white transition-colors"
+                          style={{ color: "var(--primary)" }}
+                        >
+                          {link.dimensionCode}
+                        </button>
+                        {" → "}
+                      </React.Fragment>
+                    ))}
+                    <span style={{ color: "var(--foreground)" }}>
+                      {item.dimensionCode}
+                    </span>
+                  </p>
+                )}
+                {/* Fallback - ask the relay again for a real transmission */}
+                {item.isSystemGenerated && (
+                  <p
+                    className="font-mono text-[10px] uppercase tracking-widest pl-4 mt-2 truncate"
+                    style={{ color: "var(--muted)" }}
+                  >
+                    {t('report.fallback')}{" "}
+                    <button
+                      onClick={() => reestablishSignal(item)}
+                      disabled={signalStatus[item.id] === "busy"}
+                      className="uppercase tracking-widest hover:text-white transition-colors disabled:opacity-30"
+                      style={{ color: "var(--primary)" }}
+                    >
+                      {signalStatus[item.id] === "busy"
+                        ? t('report.reestablishing')
+                        : t('button.reestablishSignal')}
+                    </button>
+                    {signalStatus[item.id] === "lost" && (
+                      <span style={{ color: "var(--destructive)" }}>
+                        {" "}// {t('report.signalStillLost')}
+                      </span>
+                    )}
+                  </p>
+                )}
               </div>
 
               {/* Footer Specs */}
@@ -183,40 +883,20 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
               >
                 {/* Spec Badges - Inset Style */}
                 <div className="flex gap-2 text-[10px] font-mono">
-                  <span
-                    className="px-2 py-1"
-                    style={{
-                      background: `linear-gradient(
-                          180deg,
-                          color-mix(in srgb, var(--background) 100%, black) 0%,
-                          var(--background) 100%
-                        )`,
-                      boxShadow: `inset 0 1px 3px rgba(0, 0, 0, 0.3)`,
-                      borderRadius: "0",
-                      border:
-                        "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
-                      color: "var(--muted)",
-                    }}
-                  >
+                  <span className="px-2 py-1" style={specBadgeStyle}>
                     Δt: {item.duration}m
                   </span>
-                  <span
-                    className="px-2 py-1"
-                    style={{
-                      background: `linear-gradient(
-                          180deg,
-                          color-mix(in srgb, var(--background) 100%, black) 0%,
-                          var(--background) 100%
-                        )`,
-                      boxShadow: `inset 0 1px 3px rgba(0, 0, 0, 0.3)`,
-                      borderRadius: "0",
-                      border:
-                        "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
-                      color: "var(--muted)",
-                    }}
-                  >
+                  <span className="px-2 py-1" style={specBadgeStyle}>
                     ENT: {item.entropy.toFixed(2)}
                   </span>
+                  {item.chapters && item.chapters.length > 1 && (
+                    <span
+                      className="px-2 py-1"
+                      style={{ ...specBadgeStyle, color: "var(--primary)" }}
+                    >
+                      CH: {item.chapters.length}
+                    </span>
+                  )}
                 </div>
                 {/* Status Badge - Raised Style */}
                 <div
@@ -241,6 +921,7 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ archive, onBack }) => {
           );
         })}
       </div>
+      {hasMore && <div ref={pageEndRef} className="h-px -mt-20 mb-20" />}
     </div>
   );
 };
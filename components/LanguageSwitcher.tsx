@@ -1,25 +1,85 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useI18n } from '../contexts/I18nContext';
+import { LANGUAGES, LANGUAGE_INFO } from '../services/languages';
+
+// Menu - Neumorphic Raised (matches the sync panel)
+const menuStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    145deg,
+    color-mix(in srgb, var(--surface) 108%, white) 0%,
+    var(--surface) 50%,
+    color-mix(in srgb, var(--surface) 88%, black) 100%
+  )`,
+  boxShadow: `0 8px 24px rgba(0, 0, 0, 0.5),
+    inset 0 1px 0 rgba(255, 255, 255, 0.05),
+    inset 0 -1px 0 rgba(0, 0, 0, 0.1)`,
+  borderRadius: 'var(--radius-sm)',
+  border: '1px solid var(--border)',
+};
 
 const LanguageSwitcher: React.FC = () => {
   const { language, setLanguage } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
 
-  const toggleLanguage = () => {
-    setLanguage(language === 'en' ? 'zh' : 'en');
-  };
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen]);
 
   return (
-    <button
-      onClick={toggleLanguage}
-      className="p-1 transition-colors duration-200 text-[var(--muted)] hover:text-white"
-      title={language === 'en' ? '切换到中文' : 'Switch to English'}
-    >
-      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-        <circle cx="12" cy="12" r="10"/>
-        <line x1="2" y1="12" x2="22" y2="12"/>
-        <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/>
-      </svg>
-    </button>
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1 transition-colors duration-200 text-[var(--muted)] hover:text-white"
+        title={LANGUAGE_INFO[language].nativeName}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <circle cx="12" cy="12" r="10"/>
+          <line x1="2" y1="12" x2="22" y2="12"/>
+          <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/>
+        </svg>
+      </button>
+      {isOpen && (
+        <ul
+          role="listbox"
+          className="absolute top-full right-0 mt-2 py-1 min-w-[8rem] z-50 font-mono text-xs"
+          style={menuStyle}
+        >
+          {LANGUAGES.map((code) => (
+            <li key={code}>
+              <button
+                role="option"
+                aria-selected={code === language}
+                onClick={() => {
+                  setLanguage(code);
+                  setIsOpen(false);
+                }}
+                className="w-full px-3 py-1.5 text-left transition-colors hover:text-white"
+                style={{ color: code === language ? 'var(--primary)' : 'var(--muted)' }}
+                lang={LANGUAGE_INFO[code].locale}
+              >
+                {LANGUAGE_INFO[code].nativeName}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
   );
 };
 
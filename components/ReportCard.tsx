@@ -1,10 +1,23 @@
 import React, { useState } from "react";
-import { ObservationReport, FocusTier } from "../types";
+import { ObservationReport, getReportTier } from "../types";
 import { useI18n, useTierConfig } from "../contexts/I18nContext";
+import { useTypewriter } from "../hooks/useTypewriter";
+import VisualFeed from "./VisualFeed";
+import {
+  SHARE_CARD_SIZES,
+  ShareCardSize,
+  canvasToPng,
+  renderShareCard,
+} from "../services/shareCard";
+import { ShareUnavailableError, createShareLink } from "../services/shareLink";
+import { downloadBlob } from "../services/archiveTransfer";
 
 interface ReportCardProps {
   report: ObservationReport;
   onClose: () => void;
+  receiving?: boolean; // Draft: narrative still streaming, header values pending
+  typewriter?: boolean; // Type the narrative out instead of showing it at once
+  onReestablishSignal?: () => Promise<boolean>; // Re-request a system fallback
 }
 
 // Primary Button Style
@@ -35,25 +48,121 @@ const primaryButtonHoverStyle = {
   transform: "scale(1.02)",
 };
 
-const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
+// Share Chip - Ghost Style (matches the archive export row)
+const shareChipStyle: React.CSSProperties = {
+  background: "color-mix(in srgb, var(--surface-elevated) 40%, transparent)",
+  border: "1px solid var(--border)",
+  borderRadius: "var(--radius-sm)",
+};
+
+const SHARE_SIZES = Object.keys(SHARE_CARD_SIZES) as ShareCardSize[];
+
+const ReportCard: React.FC<ReportCardProps> = ({
+  report,
+  onClose,
+  receiving = false,
+  typewriter = false,
+  onReestablishSignal,
+}) => {
   const [isButtonHovered, setIsButtonHovered] = useState(false);
-  const { t } = useI18n();
+  const [signalStatus, setSignalStatus] = useState<"idle" | "busy" | "lost">("idle");
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareStatus, setShareStatus] = useState<{
+    message: string;
+    isError: boolean;
+  } | null>(null);
+  const { t, language, formatNumber, formatDate } = useI18n();
   const TIER_CONFIG = useTierConfig();
 
-  // Determine tier styles based on duration
-  const tier =
-    report.duration >= 200
-      ? FocusTier.SINGULARITY
-      : report.duration >= 120
-        ? FocusTier.IMAGINARY
-        : report.duration >= 60
-          ? FocusTier.MIRROR_RIFT
-          : report.duration >= 25
-            ? FocusTier.NEIGHBORING
-            : FocusTier.QUANTUM_FLICKER;
+  const environment = useTypewriter(report.environment, typewriter);
+  const log = useTypewriter(report.log, typewriter);
+  const isTyping =
+    receiving ||
+    environment.length < report.environment.length ||
+    log.length < report.log.length;
+  // Caret follows whichever field is currently being written
+  const caretOnLog = log.length > 0;
+  const caret = (
+    <span className="animate-pulse not-italic" style={{ color: "var(--primary)" }}>
+      ▌
+    </span>
+  );
+
+  // Determine tier styles (custom durations fall back to the nearest tier)
+  const tier = getReportTier(report);
 
   const config = TIER_CONFIG[tier];
 
+  const renderPng = async (size: ShareCardSize) =>
+    canvasToPng(
+      await renderShareCard(report, size, {
+        tierName: config.name,
+        visualFeed: t('report.visualFeed'),
+        observerLog: t('report.observerLog'),
+        entropy: t('report.entropy'),
+        integrity: t('report.integrity'),
+        minutes: t('unit.min'),
+      }),
+    );
+
+  const exportImage = async (size: ShareCardSize) => {
+    setIsSharing(true);
+    try {
+      downloadBlob(`abyss-${report.dimensionCode}-${size}.png`, await renderPng(size));
+      setShareStatus(null);
+    } catch (error) {
+      console.error("Image export failed", error);
+      setShareStatus({ message: t('report.shareFailed'), isError: true });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // Publishes a snapshot with a link-preview image, then hands the URL to
+  // the system share sheet or the clipboard
+  const shareLink = async () => {
+    setIsSharing(true);
+    try {
+      const preview = await renderPng("landscape").catch(() => null);
+      const url = await createShareLink(report, language, preview);
+      if (navigator.share) {
+        await navigator.share({ title: report.dimensionCode, url }).catch(() => {});
+        setShareStatus({ message: url, isError: false });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setShareStatus({ message: t('report.linkCopied'), isError: false });
+      }
+    } catch (error) {
+      console.error("Share failed", error);
+      setShareStatus({
+        message:
+          error instanceof ShareUnavailableError
+            ? t('report.shareUnavailable')
+            : t('report.shareFailed'),
+        isError: true,
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const reestablishSignal = async () => {
+    if (!onReestablishSignal) return;
+    setSignalStatus("busy");
+    try {
+      setSignalStatus((await onReestablishSignal()) ? "idle" : "lost");
+    } catch (error) {
+      console.error("Re-establishing signal failed", error);
+      setSignalStatus("lost");
+    }
+  };
+
+  // Total time spent on hold, rounded to whole minutes
+  const pausedMinutes = Math.round(
+    (report.pauses ?? []).reduce((sum, p) => sum + (p.end - p.start), 0) /
+      60000,
+  );
+
   return (
     <div className="relative z-50 max-w-3xl w-full mx-4 animate-in fade-in zoom-in duration-700">
       {/* Outer Glow Effect */}
@@ -136,9 +245,18 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
             }}
           >
             <div className="flex flex-col gap-2">
-              <span className="text-white font-bold text-2xl md:text-3xl font-display tracking-normal">
-                {report.dimensionCode}
-              </span>
+              {receiving ? (
+                <span
+                  className="font-bold text-2xl md:text-3xl font-display tracking-normal animate-pulse"
+                  style={{ color: "var(--primary)" }}
+                >
+                  {t('report.receiving')}
+                </span>
+              ) : (
+                <span className="text-white font-bold text-2xl md:text-3xl font-display tracking-normal">
+                  {report.dimensionCode}
+                </span>
+              )}
               <span className={`${config.color} font-bold`}>
                 // {config.name}
               </span>
@@ -162,25 +280,32 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
                 }}
               >
                 {t('report.entropy')}{" "}
-                <span className="text-white">{report.entropy.toFixed(4)}</span>
+                <span className="text-white">
+                  {receiving
+                    ? "-.----"
+                    : formatNumber(report.entropy, {
+                        minimumFractionDigits: 4,
+                        maximumFractionDigits: 4,
+                      })}
+                </span>
               </div>
               {/* Status Badge - Neumorphic Raised */}
               <div
-                className="px-3 py-1 whitespace-nowrap font-bold"
+                className={`px-3 py-1 whitespace-nowrap font-bold ${receiving ? "opacity-40" : ""}`}
                 style={{
                   background:
-                    report.stability === "Stable"
+                    receiving || report.stability === "Stable"
                       ? `linear-gradient(135deg, var(--tier-quantum) 0%, color-mix(in srgb, var(--tier-quantum) 70%, black) 100%)`
                       : `linear-gradient(135deg, var(--destructive) 0%, color-mix(in srgb, var(--destructive) 70%, black) 100%)`,
                   boxShadow:
-                    report.stability === "Stable"
+                    receiving || report.stability === "Stable"
                       ? `0 2px 8px color-mix(in srgb, var(--tier-quantum) 40%, transparent), inset 0 1px 0 rgba(255,255,255,0.2)`
                       : `0 2px 8px color-mix(in srgb, var(--destructive) 40%, transparent), inset 0 1px 0 rgba(255,255,255,0.2)`,
                   borderRadius: "var(--radius-sm)",
                   color: "white",
                 }}
               >
-                {t('report.integrity')} {report.stability}
+                {t('report.integrity')} {receiving ? "···" : report.stability}
               </div>
             </div>
           </div>
@@ -199,6 +324,27 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
                 style={{ background: "var(--border)" }}
               ></div>
             </div>
+            {/* Procedural Feed - static noise until the header values land */}
+            <div
+              className="relative overflow-hidden mb-6 h-32 md:h-44"
+              style={{
+                borderRadius: "var(--radius-default)",
+                border: "1px solid var(--border)",
+                boxShadow: "inset 0 2px 8px rgba(0, 0, 0, 0.5)",
+                background: "var(--background)",
+              }}
+            >
+              {receiving ? (
+                <div className="noise-bg" style={{ opacity: 0.15 }}></div>
+              ) : (
+                <VisualFeed
+                  dimensionCode={report.dimensionCode}
+                  entropy={report.entropy}
+                  stability={report.stability}
+                  className="h-full animate-in fade-in duration-700"
+                />
+              )}
+            </div>
             <p
               className="font-serif-literary text-lg md:text-xl leading-relaxed mb-8 italic pl-4 md:pl-6"
               style={{
@@ -206,7 +352,8 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
                 borderLeft: "2px solid var(--border)",
               }}
             >
-              "{report.environment}"
+              "{environment}
+              {isTyping && !caretOnLog && caret}"
             </p>
 
             <div className="flex items-baseline gap-4 mb-4">
@@ -225,10 +372,127 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
               className="font-serif-literary text-xl md:text-2xl text-white leading-relaxed pl-4 md:pl-6"
               style={{ borderLeft: "2px solid var(--border)" }}
             >
-              {report.log}
+              {log}
+              {isTyping && caretOnLog && caret}
             </p>
+
+            {/* Expedition Chapters - one entry per focus block */}
+            {report.chapters && report.chapters.length > 1 && (
+              <>
+                <div className="flex items-baseline gap-4 mt-8 mb-4">
+                  <h3
+                    className="font-mono text-xs uppercase tracking-widest"
+                    style={{ color: "var(--muted)" }}
+                  >
+                    {t('report.chapters')}
+                  </h3>
+                  <div
+                    className="h-[1px] flex-1"
+                    style={{ background: "var(--border)" }}
+                  ></div>
+                </div>
+                <ol className="space-y-4 pl-4 md:pl-6 max-h-[240px] overflow-y-auto no-scrollbar">
+                  {report.chapters.map((chapter) => (
+                    <li
+                      key={chapter.block}
+                      className="pl-4"
+                      style={{ borderLeft: "2px solid var(--border)" }}
+                    >
+                      <div
+                        className="font-mono text-[10px] uppercase tracking-widest mb-1"
+                        style={{ color: "var(--muted)" }}
+                      >
+                        {t('report.chapter')} {chapter.block + 1} //{" "}
+                        <span className="text-white">{chapter.dimensionCode}</span>{" "}
+                        // ENT{" "}
+                        {formatNumber(chapter.entropy, {
+                          minimumFractionDigits: 2,
+                          maximumFractionDigits: 2,
+                        })}{" "}
+                        // {chapter.stability}
+                      </div>
+                      <p
+                        className="font-serif-literary text-base leading-relaxed"
+                        style={{ color: "var(--foreground)" }}
+                      >
+                        {chapter.log}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
           </div>
 
+          {/* Fallback Row - ask the relay again for a real transmission */}
+          {!receiving && report.isSystemGenerated && onReestablishSignal && (
+            <div
+              className="flex flex-wrap items-center gap-2 mb-3 font-mono text-[10px] uppercase tracking-widest relative z-10"
+              style={{ color: "var(--muted)" }}
+            >
+              <span>{t('report.fallback')}</span>
+              <button
+                onClick={reestablishSignal}
+                disabled={signalStatus === "busy"}
+                className="px-2 py-1 transition-colors hover:text-white disabled:opacity-30"
+                style={{ ...shareChipStyle, color: "var(--primary)" }}
+              >
+                {signalStatus === "busy"
+                  ? t('report.reestablishing')
+                  : t('button.reestablishSignal')}
+              </button>
+              {signalStatus === "lost" && (
+                <span
+                  className="normal-case tracking-normal"
+                  style={{ color: "var(--destructive)" }}
+                >
+                  {t('report.signalStillLost')}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Share Row - PNG exports at social card sizes, public link */}
+          {!receiving && (
+            <div
+              className="flex flex-wrap items-center gap-2 mb-6 font-mono text-[10px] uppercase tracking-widest relative z-10"
+              style={{ color: "var(--muted)" }}
+            >
+              <span>{t('report.share')}</span>
+              {SHARE_SIZES.map((size) => (
+                <button
+                  key={size}
+                  onClick={() => exportImage(size)}
+                  disabled={isSharing}
+                  className="px-2 py-1 transition-colors hover:text-white disabled:opacity-30"
+                  style={shareChipStyle}
+                >
+                  PNG {SHARE_CARD_SIZES[size].width}×{SHARE_CARD_SIZES[size].height}
+                </button>
+              ))}
+              <button
+                onClick={shareLink}
+                disabled={isSharing}
+                className="px-2 py-1 transition-colors hover:text-white disabled:opacity-30"
+                style={{ ...shareChipStyle, color: "var(--primary)" }}
+              >
+                {t('report.shareLink')}
+              </button>
+              {shareStatus && (
+                <span
+                  className="normal-case tracking-normal truncate max-w-full"
+                  style={{
+                    color: shareStatus.isError
+                      ? "var(--destructive)"
+                      : "var(--primary)",
+                  }}
+                >
+                  {shareStatus.message}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Footer / Actions */}
           <div
             className="flex flex-col md:flex-row justify-between items-center gap-6 pt-6 relative z-10"
@@ -239,20 +503,44 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onClose }) => {
               style={{ color: "var(--muted)" }}
             >
               {t('report.refId')} {report.id.substring(0, 12).toUpperCase()} <br />
-              {t('report.timestamp')} {new Date(report.timestamp).toISOString()}
+              {t('report.timestamp')}{" "}
+              {formatDate(report.timestamp, { dateStyle: "medium", timeStyle: "medium" })} <br />
+              {t('report.duration')} {t('unit.minutes', { count: report.duration })}
+              {report.taskContext && (
+                <>
+                  <br />
+                  {t('report.directive')} {report.taskContext}
+                </>
+              )}
+              {report.pauses && report.pauses.length > 0 && (
+                <>
+                  <br />
+                  {t('report.interruptions')} {t('unit.pauses', { count: report.pauses.length })} //{" "}
+                  {t('unit.minutes', { count: pausedMinutes })}
+                </>
+              )}
+              {report.awaitingSignal && (
+                <>
+                  <br />
+                  {t('report.awaitingSignal')}
+                </>
+              )}
             </div>
 
             {/* Primary Action Button - Neumorphic */}
             <button
               onClick={onClose}
+              disabled={receiving}
               onMouseEnter={() => setIsButtonHovered(true)}
               onMouseLeave={() => setIsButtonHovered(false)}
-              className="w-full md:w-auto group relative overflow-hidden px-8 py-3 text-black font-mono text-xs font-bold uppercase tracking-[0.2em] transition-all duration-200"
+              className="w-full md:w-auto group relative overflow-hidden px-8 py-3 text-black font-mono text-xs font-bold uppercase tracking-[0.2em] transition-all duration-200 disabled:opacity-40 disabled:cursor-wait"
               style={
                 isButtonHovered ? primaryButtonHoverStyle : primaryButtonStyle
               }
             >
-              <span className="relative z-10">{t('button.secureData')}</span>
+              <span className="relative z-10">
+                {receiving ? t('report.receiving') : t('button.secureData')}
+              </span>
               <div
                 className="absolute inset-0 transform translate-y-full group-hover:translate-y-0 transition-transform duration-300 z-0"
                 style={{
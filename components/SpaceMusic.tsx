@@ -3,6 +3,8 @@ import React, { useEffect, useRef } from 'react';
 interface SpaceMusicProps {
   active: boolean;
   muted: boolean;
+  paused?: boolean; // Keep layers alive but fade the mix down
+  mix?: 'focus' | 'break'; // Break mix keeps only the wind and the pads
   onAnalyserReady?: (analyser: AnalyserNode) => void;
 }
 
@@ -31,7 +33,7 @@ interface LayerRefs {
   };
 }
 
-const SpaceMusic: React.FC<SpaceMusicProps> = ({ active, muted, onAnalyserReady }) => {
+const SpaceMusic: React.FC<SpaceMusicProps> = ({ active, muted, paused = false, mix = 'focus', onAnalyserReady }) => {
   const audioCtxRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
@@ -456,6 +458,64 @@ const SpaceMusic: React.FC<SpaceMusicProps> = ({ active, muted, onAnalyserReady
     };
   }, []);
 
+  // ============================================
+  // LAYER TEARDOWN
+  // ============================================
+  const stopCosmicWind = () => {
+    const layer = layersRef.current.cosmicWind;
+    if (layer.lfoInterval) {
+      clearInterval(layer.lfoInterval);
+      layer.lfoInterval = null;
+    }
+    if (layer.source) {
+      layer.source.stop();
+      layer.source = null;
+      layer.filter = null;
+      layer.gain = null;
+    }
+  };
+
+  const stopStellarShimmer = () => {
+    const layer = layersRef.current.stellarShimmer;
+    if (layer.interval) {
+      clearTimeout(layer.interval);
+      layer.interval = null;
+    }
+  };
+
+  const stopDeepVoid = () => {
+    const layer = layersRef.current.deepVoid;
+    if (layer.lfoInterval) {
+      clearInterval(layer.lfoInterval);
+      layer.lfoInterval = null;
+    }
+    if (layer.osc) {
+      layer.osc.stop();
+      layer.osc = null;
+      layer.gain = null;
+    }
+  };
+
+  const stopDistantSignal = () => {
+    const layer = layersRef.current.distantSignal;
+    if (layer.interval) {
+      clearTimeout(layer.interval);
+      layer.interval = null;
+    }
+  };
+
+  const stopPadSequencer = () => {
+    const layer = layersRef.current.padSequencer;
+    if (layer.droneInterval) {
+      clearInterval(layer.droneInterval);
+      layer.droneInterval = null;
+    }
+    if (layer.melodyInterval) {
+      clearInterval(layer.melodyInterval);
+      layer.melodyInterval = null;
+    }
+  };
+
   // ============================================
   // LAYER ACTIVATION/DEACTIVATION
   // ============================================
@@ -471,67 +531,47 @@ const SpaceMusic: React.FC<SpaceMusicProps> = ({ active, muted, onAnalyserReady
         ctx.resume();
       }
 
-      // Fade in master
-      masterGain.gain.setTargetAtTime(0.5, ctx.currentTime, 2);
+      // Fade in master (or down to a faint hum while paused)
+      const isBreak = mix === 'break';
+      const targetGain = paused ? 0.08 : isBreak ? 0.3 : 0.5;
+      masterGain.gain.setTargetAtTime(targetGain, ctx.currentTime, paused ? 1 : 2);
 
-      // Start all layers
+      // Wind and pads run in every mix
       if (!layers.cosmicWind.source) {
         createCosmicWind(ctx, masterGain);
       }
-      if (!layers.stellarShimmer.interval) {
-        startStellarShimmer(ctx, masterGain);
-      }
-      if (!layers.deepVoid.osc) {
-        createDeepVoid(ctx, masterGain);
-      }
-      if (!layers.distantSignal.interval) {
-        startDistantSignal(ctx, masterGain);
-      }
       if (!layers.padSequencer.droneInterval) {
         startPadSequencer();
       }
+
+      if (isBreak) {
+        // Break mix: drop the shimmer, sub-bass and signals for a calmer drift
+        stopStellarShimmer();
+        stopDeepVoid();
+        stopDistantSignal();
+      } else {
+        if (!layers.stellarShimmer.interval) {
+          startStellarShimmer(ctx, masterGain);
+        }
+        if (!layers.deepVoid.osc) {
+          createDeepVoid(ctx, masterGain);
+        }
+        if (!layers.distantSignal.interval) {
+          startDistantSignal(ctx, masterGain);
+        }
+      }
     } else {
       // Fade out master
       masterGain.gain.setTargetAtTime(0, ctx.currentTime, 1.5);
 
       // Stop all layers
-      if (layers.cosmicWind.lfoInterval) {
-        clearInterval(layers.cosmicWind.lfoInterval);
-        layers.cosmicWind.lfoInterval = null;
-      }
-      if (layers.cosmicWind.source) {
-        layers.cosmicWind.source.stop();
-        layers.cosmicWind.source = null;
-        layers.cosmicWind.filter = null;
-        layers.cosmicWind.gain = null;
-      }
-      if (layers.stellarShimmer.interval) {
-        clearTimeout(layers.stellarShimmer.interval);
-        layers.stellarShimmer.interval = null;
-      }
-      if (layers.deepVoid.lfoInterval) {
-        clearInterval(layers.deepVoid.lfoInterval);
-        layers.deepVoid.lfoInterval = null;
-      }
-      if (layers.deepVoid.osc) {
-        layers.deepVoid.osc.stop();
-        layers.deepVoid.osc = null;
-        layers.deepVoid.gain = null;
-      }
-      if (layers.distantSignal.interval) {
-        clearTimeout(layers.distantSignal.interval);
-        layers.distantSignal.interval = null;
-      }
-      if (layers.padSequencer.droneInterval) {
-        clearInterval(layers.padSequencer.droneInterval);
-        layers.padSequencer.droneInterval = null;
-      }
-      if (layers.padSequencer.melodyInterval) {
-        clearInterval(layers.padSequencer.melodyInterval);
-        layers.padSequencer.melodyInterval = null;
-      }
+      stopCosmicWind();
+      stopStellarShimmer();
+      stopDeepVoid();
+      stopDistantSignal();
+      stopPadSequencer();
     }
-  }, [active, muted]);
+  }, [active, muted, paused, mix]);
 
   return null;
 };
@@ -4,12 +4,14 @@ interface StarTunnelProps {
   speed: number; // 0 to 1, higher is faster
   colorStage: "start" | "mid" | "end"; // influences color palette
   isCollapsed?: boolean;
+  dimmed?: boolean; // fades the field while a session is paused
 }
 
 const StarTunnel: React.FC<StarTunnelProps> = ({
   speed,
   colorStage,
   isCollapsed,
+  dimmed,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
@@ -19,13 +21,16 @@ const StarTunnel: React.FC<StarTunnelProps> = ({
   const speedRef = useRef(speed);
   const colorStageRef = useRef(colorStage);
   const isCollapsedRef = useRef(isCollapsed);
+  const dimmedRef = useRef(dimmed);
+  const dimLevelRef = useRef(1);
 
   // Update refs when props change
   useEffect(() => {
     speedRef.current = speed;
     colorStageRef.current = colorStage;
     isCollapsedRef.current = isCollapsed;
-  }, [speed, colorStage, isCollapsed]);
+    dimmedRef.current = dimmed;
+  }, [speed, colorStage, isCollapsed, dimmed]);
 
   // Logic to map props to visual parameters
   const getColors = (stage: string) => {
@@ -75,6 +80,11 @@ const StarTunnel: React.FC<StarTunnelProps> = ({
       const currentStage = colorStageRef.current;
       const currentCollapsed = isCollapsedRef.current;
 
+      // Ease brightness towards the dimmed level
+      const targetDim = dimmedRef.current ? 0.3 : 1;
+      dimLevelRef.current += (targetDim - dimLevelRef.current) * 0.05;
+      const dimLevel = dimLevelRef.current;
+
       // Clear with trail effect
       ctx.fillStyle = currentCollapsed
         ? "rgba(0,0,0, 0.05)"
@@ -109,9 +119,9 @@ const StarTunnel: React.FC<StarTunnelProps> = ({
           const shade = colors[Math.floor(star.o * colors.length)];
           ctx.beginPath();
           ctx.fillStyle = shade;
-          ctx.globalAlpha = currentCollapsed
-            ? 0.2
-            : Math.min(1, 1 - star.z / width + 0.2);
+          ctx.globalAlpha =
+            (currentCollapsed ? 0.2 : Math.min(1, 1 - star.z / width + 0.2)) *
+            dimLevel;
           ctx.arc(x, y, size / 2, 0, Math.PI * 2);
           ctx.fill();
 
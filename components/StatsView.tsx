@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from "react";
+import { ArchiveEntry, FocusTier, TIER_CSS_VARS } from "../types";
+import { useI18n, useTierConfig } from "../contexts/I18nContext";
+import {
+  StatsPeriod,
+  computeArchiveStats,
+  getHeatmap,
+  getPeriodSeries,
+} from "../services/archiveStats";
+
+interface StatsViewProps {
+  archive: ArchiveEntry[];
+  onBack: () => void;
+}
+
+// Number of buckets shown per chart period
+const SERIES_LENGTH: Record<StatsPeriod, number> = {
+  day: 14,
+  week: 12,
+  month: 12,
+};
+
+const HEATMAP_WEEKS = 26;
+
+// Panel - Neumorphic Raised (matches archive cards)
+const panelStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    145deg,
+    color-mix(in srgb, var(--surface) 108%, white) 0%,
+    var(--surface) 50%,
+    color-mix(in srgb, var(--surface) 88%, black) 100%
+  )`,
+  boxShadow: `0 4px 16px rgba(0, 0, 0, 0.3),
+    inset 0 1px 0 rgba(255, 255, 255, 0.05),
+    inset 0 -1px 0 rgba(0, 0, 0, 0.1)`,
+  borderRadius: "var(--radius-default)",
+  border: "1px solid var(--border)",
+  padding: "20px",
+};
+
+// Chart Well - Inset Style
+const wellStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    180deg,
+    color-mix(in srgb, var(--background) 100%, black) 0%,
+    var(--background) 100%
+  )`,
+  boxShadow: `inset 0 2px 6px rgba(0, 0, 0, 0.5)`,
+  borderRadius: "var(--radius-sm)",
+  border: "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
+};
+
+// Period Toggle - Ghost Style, highlighted when selected
+const getToggleStyle = (isSelected: boolean): React.CSSProperties => ({
+  background: isSelected
+    ? "color-mix(in srgb, var(--primary) 18%, transparent)"
+    : "transparent",
+  border: isSelected ? "1px solid var(--primary)" : "1px solid var(--border)",
+  borderRadius: "var(--radius-sm)",
+  color: isSelected ? "white" : "var(--muted)",
+});
+
+// Heatmap shades, from empty to busiest
+const HEATMAP_FILLS = [
+  "color-mix(in srgb, var(--border) 40%, transparent)",
+  "color-mix(in srgb, var(--primary) 25%, transparent)",
+  "color-mix(in srgb, var(--primary) 45%, transparent)",
+  "color-mix(in srgb, var(--primary) 70%, transparent)",
+  "var(--primary)",
+];
+
+const TIERS = (
+  Object.values(FocusTier).filter((v) => typeof v === "number") as number[]
+).sort((a, b) => a - b) as FocusTier[];
+
+const BUCKET_LABEL_FORMATS: Record<StatsPeriod, Intl.DateTimeFormatOptions> = {
+  day: { month: "numeric", day: "numeric" },
+  week: { month: "numeric", day: "numeric" },
+  month: { month: "short" },
+};
+
+const StatsView: React.FC<StatsViewProps> = ({ archive, onBack }) => {
+  const [period, setPeriod] = useState<StatsPeriod>("day");
+  const { t, formatDate } = useI18n();
+  const TIER_CONFIG = useTierConfig();
+
+  const stats = useMemo(() => computeArchiveStats(archive), [archive]);
+  const series = useMemo(
+    () => getPeriodSeries(archive, period, SERIES_LENGTH[period]),
+    [archive, period],
+  );
+  const heatmap = useMemo(() => getHeatmap(archive, HEATMAP_WEEKS), [archive]);
+
+  const seriesMax = Math.max(1, ...series.map((b) => b.minutes));
+  const tierMax = Math.max(1, ...Object.values<number>(stats.tierDistribution));
+
+  const summary = [
+    { label: t('stats.today'), value: stats.today, unit: t('unit.min') },
+    { label: t('stats.thisWeek'), value: stats.thisWeek, unit: t('unit.min') },
+    { label: t('stats.thisMonth'), value: stats.thisMonth, unit: t('unit.min') },
+    { label: t('stats.currentStreak'), value: stats.currentStreak, unit: t('stats.days') },
+    { label: t('stats.longestStreak'), value: stats.longestStreak, unit: t('stats.days') },
+    {
+      label: t('stats.avgEntropy'),
+      value: stats.averageEntropy === null ? "—" : stats.averageEntropy.toFixed(3),
+      unit: "",
+    },
+    {
+      label: t('stats.completionRate'),
+      value:
+        stats.completionRate === null
+          ? "—"
+          : Math.round(stats.completionRate * 100),
+      unit: stats.completionRate === null ? "" : "%",
+    },
+    { label: t('stats.aborted'), value: stats.aborted, unit: "" },
+  ];
+
+  return (
+    <div className="relative z-10 min-h-screen p-4 md:p-16 w-full max-w-7xl mx-auto animate-in slide-in-from-bottom-10 duration-500">
+      {/* Header */}
+      <div
+        className="flex justify-between items-end mb-8 md:mb-12 pb-4 md:pb-6 sticky top-0 z-20 pt-4"
+        style={{
+          borderBottom: "1px solid var(--border)",
+          background: "color-mix(in srgb, var(--background) 90%, transparent)",
+        }}
+      >
+        <div>
+          <h1 className="font-display text-2xl md:text-4xl text-white mb-2 tracking-widest uppercase">
+            {t('stats.title')}
+          </h1>
+          <p
+            className="font-mono text-[10px] md:text-xs tracking-[0.2em]"
+            style={{ color: "var(--muted)" }}
+          >
+            {t('stats.subtitle')} {stats.sessions} // {stats.totalMinutes}{" "}
+            {t('unit.min')}
+          </p>
+        </div>
+        {/* Back Button - Ghost Style */}
+        <button
+          onClick={onBack}
+          className="group flex items-center gap-2 font-mono text-xs uppercase transition-all duration-200 px-4 py-2"
+          style={{
+            background: `linear-gradient(
+              135deg,
+              color-mix(in srgb, var(--surface-elevated) 60%, transparent) 0%,
+              color-mix(in srgb, var(--surface-elevated) 40%, transparent) 100%
+            )`,
+            boxShadow: `
+              0 2px 8px rgba(0, 0, 0, 0.2),
+              inset 0 1px 0 rgba(255, 255, 255, 0.05)
+            `,
+            borderRadius: "var(--radius-sm)",
+            border: "1px solid var(--border)",
+            color: "var(--primary)",
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.color = "white";
+            e.currentTarget.style.transform = "scale(1.02)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.color = "var(--primary)";
+            e.currentTarget.style.transform = "scale(1)";
+          }}
+        >
+          <span className="hidden md:inline opacity-0 group-hover:opacity-100 -translate-x-2 group-hover:translate-x-0 transition-all">
+            ←
+          </span>
+          {t('button.return')}
+        </button>
+      </div>
+
+      <div className="space-y-4 md:space-y-6 pb-20 font-mono text-[10px] md:text-xs uppercase tracking-widest">
+        {/* Summary Tiles */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
+          {summary.map((item) => (
+            <div key={item.label} style={panelStyle}>
+              <div className="mb-2" style={{ color: "var(--muted)" }}>
+                {item.label}
+              </div>
+              <div className="font-display text-2xl md:text-3xl text-white tracking-normal">
+                {item.value}
+                {item.unit && (
+                  <span
+                    className="font-mono text-[10px] ml-1"
+                    style={{ color: "var(--muted)" }}
+                  >
+                    {item.unit}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Focus Minutes Chart */}
+        <div style={panelStyle}>
+          <div className="flex justify-between items-center mb-4">
+            <span style={{ color: "var(--muted)" }}>{t('stats.minutes')}</span>
+            <div className="flex gap-2">
+              {(["day", "week", "month"] as StatsPeriod[]).map((p) => (
+                <button
+                  key={p}
+                  onClick={() => setPeriod(p)}
+                  className="px-2 py-1 transition-colors"
+                  style={getToggleStyle(period === p)}
+                >
+                  {t(`stats.period.${p}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end gap-1 md:gap-2 h-40 p-3" style={wellStyle}>
+            {series.map((bucket) => (
+              <div
+                key={bucket.start}
+                className="flex-1 flex flex-col items-center justify-end h-full gap-1"
+                title={`${formatDate(bucket.start, BUCKET_LABEL_FORMATS[period])} · ${bucket.minutes} ${t('unit.min')}`}
+              >
+                <div
+                  className="w-full transition-all duration-500"
+                  style={{
+                    height: `${(bucket.minutes / seriesMax) * 100}%`,
+                    minHeight: bucket.minutes > 0 ? 2 : 0,
+                    background:
+                      "linear-gradient(180deg, var(--primary), color-mix(in srgb, var(--primary) 30%, transparent))",
+                    borderRadius: "2px 2px 0 0",
+                  }}
+                ></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 md:gap-2 px-3 mt-2">
+            {series.map((bucket, i) => (
+              <span
+                key={bucket.start}
+                className="flex-1 text-center text-[8px] md:text-[10px] normal-case"
+                style={{ color: "var(--muted)" }}
+              >
+                {/* Label every other day (ending today) so two weeks fit on mobile */}
+                {period !== "day" || i % 2 === (series.length - 1) % 2
+                  ? formatDate(bucket.start, BUCKET_LABEL_FORMATS[period])
+                  : ""}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+          {/* Tier Distribution */}
+          <div style={panelStyle}>
+            <div className="mb-4" style={{ color: "var(--muted)" }}>
+              {t('stats.tiers')}
+            </div>
+            <div className="space-y-3">
+              {TIERS.map((tier) => (
+                <div key={tier} className="flex items-center gap-3">
+                  <span className={`w-32 md:w-40 truncate ${TIER_CONFIG[tier].color}`}>
+                    {TIER_CONFIG[tier].name}
+                  </span>
+                  <div className="flex-1 h-2" style={wellStyle}>
+                    <div
+                      className="h-full transition-all duration-500"
+                      style={{
+                        width: `${(stats.tierDistribution[tier] / tierMax) * 100}%`,
+                        background: `var(${TIER_CSS_VARS[tier]})`,
+                        borderRadius: "var(--radius-sm)",
+                      }}
+                    ></div>
+                  </div>
+                  <span className="w-8 text-right text-white">
+                    {stats.tierDistribution[tier]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Calendar Heatmap */}
+          <div style={panelStyle}>
+            <div className="mb-4" style={{ color: "var(--muted)" }}>
+              {t('stats.heatmap')}
+            </div>
+            <div className="flex gap-[3px] overflow-x-auto no-scrollbar">
+              {heatmap.map((week) => (
+                <div key={week[0].date} className="flex flex-col gap-[3px]">
+                  {week.map((cell) => (
+                    <div
+                      key={cell.date}
+                      className="w-3 h-3"
+                      title={`${formatDate(cell.date, { dateStyle: "short" })} · ${cell.minutes} ${t('unit.min')}`}
+                      style={{
+                        background: HEATMAP_FILLS[cell.level],
+                        opacity: cell.isFuture ? 0.2 : 1,
+                        borderRadius: "2px",
+                      }}
+                    ></div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div
+              className="flex items-center justify-end gap-[3px] mt-3 text-[10px]"
+              style={{ color: "var(--muted)" }}
+            >
+              <span className="mr-1">{t('stats.less')}</span>
+              {HEATMAP_FILLS.map((fill) => (
+                <div
+                  key={fill}
+                  className="w-3 h-3"
+                  style={{ background: fill, borderRadius: "2px" }}
+                ></div>
+              ))}
+              <span className="ml-1">{t('stats.more')}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsView;
@@ -0,0 +1,211 @@
+import React, { useState } from "react";
+import { useI18n } from "../contexts/I18nContext";
+import { useCloudSync } from "../hooks/useCloudSync";
+import {
+  PairingCode,
+  SyncRejectedError,
+  SyncUnavailableError,
+  createPairingCode,
+  formatPairingCode,
+} from "../services/sync";
+
+interface SyncPanelProps {
+  sync: ReturnType<typeof useCloudSync>;
+  onClose: () => void;
+}
+
+// Panel - Neumorphic Raised (matches archive cards)
+const panelStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    145deg,
+    color-mix(in srgb, var(--surface) 108%, white) 0%,
+    var(--surface) 50%,
+    color-mix(in srgb, var(--surface) 88%, black) 100%
+  )`,
+  boxShadow: `0 8px 24px rgba(0, 0, 0, 0.5),
+    inset 0 1px 0 rgba(255, 255, 255, 0.05),
+    inset 0 -1px 0 rgba(0, 0, 0, 0.1)`,
+  borderRadius: "var(--radius-default)",
+  border: "1px solid var(--border)",
+};
+
+// Code Input - Inset Style (matches the Terminal input well)
+const insetFieldStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    180deg,
+    color-mix(in srgb, var(--background) 100%, black) 0%,
+    var(--background) 100%
+  )`,
+  boxShadow: `inset 0 2px 6px rgba(0, 0, 0, 0.5)`,
+  borderRadius: "var(--radius-sm)",
+  border: "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
+  color: "var(--foreground)",
+};
+
+// Action Chip - Ghost Style (matches the share row)
+const chipStyle: React.CSSProperties = {
+  background: "color-mix(in srgb, var(--surface-elevated) 40%, transparent)",
+  border: "1px solid var(--border)",
+  borderRadius: "var(--radius-sm)",
+};
+
+const chipClassName =
+  "px-2 py-1 transition-colors hover:text-white disabled:opacity-30";
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ sync, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [code, setCode] = useState("");
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const { link, status } = sync;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Sync action failed", error);
+      setMessage(
+        error instanceof SyncUnavailableError
+          ? t('sync.unavailable')
+          : error instanceof SyncRejectedError
+            ? t('sync.invalidCode')
+            : t('sync.failed'),
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const joinSpace = () =>
+    run(async () => {
+      await sync.joinSpace(code);
+      setCode("");
+    });
+
+  const issuePairingCode = () =>
+    run(async () => {
+      if (link) setPairing(await createPairingCode(link.token));
+    });
+
+  const unlink = () => {
+    setPairing(null);
+    sync.unlink();
+  };
+
+  const statusText =
+    status === "syncing"
+      ? t('sync.status.syncing')
+      : status === "error"
+        ? t('sync.status.error')
+        : status === "unavailable"
+          ? t('sync.unavailable')
+          : status === "tooLarge"
+            ? t('sync.status.tooLarge')
+            : `${t('sync.lastSynced')} ${
+                link?.lastSyncedAt
+                  ? formatDate(link.lastSyncedAt, { dateStyle: "short", timeStyle: "medium" })
+                  : t('sync.never')
+              }`;
+
+  return (
+    <div
+      className="w-72 p-4 font-mono text-[10px] uppercase tracking-widest"
+      style={{ ...panelStyle, color: "var(--muted)" }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-white">{t('sync.title')}</span>
+        <button
+          onClick={onClose}
+          className="transition-colors hover:text-white"
+          aria-label={t('button.return')}
+        >
+          ✕
+        </button>
+      </div>
+      <p className="normal-case tracking-normal text-xs mb-4">
+        {t('sync.description')}
+      </p>
+
+      {link ? (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            <button
+              onClick={sync.syncNow}
+              disabled={status === "syncing"}
+              className={chipClassName}
+              style={{ ...chipStyle, color: "var(--primary)" }}
+            >
+              {t('sync.now')}
+            </button>
+            <button
+              onClick={issuePairingCode}
+              disabled={isBusy}
+              className={chipClassName}
+              style={chipStyle}
+            >
+              {t('sync.pair')}
+            </button>
+            <button onClick={unlink} className={chipClassName} style={chipStyle}>
+              {t('sync.unlink')}
+            </button>
+          </div>
+          {pairing && pairing.expiresAt > Date.now() && (
+            <div className="mb-3">
+              <div className="text-lg text-white tracking-[0.3em] select-all">
+                {formatPairingCode(pairing.code)}
+              </div>
+              <div className="normal-case tracking-normal">
+                {t('sync.pairHint')}
+              </div>
+            </div>
+          )}
+          <div className="normal-case tracking-normal">{statusText}</div>
+        </>
+      ) : (
+        <>
+          <button
+            onClick={() => run(sync.createSpace)}
+            disabled={isBusy}
+            className={`${chipClassName} mb-3`}
+            style={{ ...chipStyle, color: "var(--primary)" }}
+          >
+            {t('sync.create')}
+          </button>
+          <div className="flex gap-2">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && code.trim() && joinSpace()}
+              placeholder={t('sync.codePlaceholder')}
+              maxLength={9}
+              className="flex-1 min-w-0 px-2 py-1 uppercase tracking-widest outline-none"
+              style={insetFieldStyle}
+            />
+            <button
+              onClick={joinSpace}
+              disabled={isBusy || !code.trim()}
+              className={chipClassName}
+              style={chipStyle}
+            >
+              {t('sync.join')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <div
+          className="mt-3 normal-case tracking-normal"
+          style={{ color: "var(--destructive)" }}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -1,24 +1,70 @@
 import React, { useState } from "react";
 import { Task } from "../types";
 import { useI18n } from "../contexts/I18nContext";
+import { TaskFocus } from "../services/archiveStats";
+import {
+  MAX_TASK_ESTIMATE,
+  createTask,
+  moveTask,
+  normalizeTag,
+  parseTaskInput,
+  setTaskCompleted,
+} from "../services/tasks";
 
 interface TerminalProps {
   tasks: Task[];
   setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  targetTaskId: string | null; // Directive the next session will be linked to
+  onSelectTarget: (id: string) => void;
+  focus: Record<string, TaskFocus>; // Accumulated focus per task id
 }
 
-const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
+// Input Well - Inset Effect
+const insetWellStyle: React.CSSProperties = {
+  background: `linear-gradient(
+    180deg,
+    color-mix(in srgb, var(--background) 100%, black) 0%,
+    var(--background) 100%
+  )`,
+  boxShadow: `
+    inset 0 2px 6px rgba(0, 0, 0, 0.5),
+    inset 0 1px 2px rgba(0, 0, 0, 0.3),
+    0 1px 0 rgba(255, 255, 255, 0.03)
+  `,
+  borderRadius: "var(--radius-sm)",
+  border: "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
+};
+
+// Tag Chip - Ghost Style
+const tagStyle: React.CSSProperties = {
+  border: "1px solid color-mix(in srgb, var(--primary) 40%, transparent)",
+  borderRadius: "var(--radius-sm)",
+  color: "var(--primary)",
+};
+
+const Terminal: React.FC<TerminalProps> = ({
+  tasks,
+  setTasks,
+  targetTaskId,
+  onSelectTarget,
+  focus,
+}) => {
   const [input, setInput] = useState("");
-  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const [showCompleted, setShowCompleted] = useState(false);
+  const { t, formatDate } = useI18n();
+
+  const activeTasks = tasks.filter((task) => !task.completed);
+  const completedTasks = tasks.filter((task) => task.completed);
 
   const submitTask = () => {
-    if (input.trim()) {
-      const newTask: Task = {
-        id: Date.now().toString(),
-        text: input.trim(),
-        completed: false,
-        priority: false,
-      };
+    const newTask = createTask(input);
+    if (newTask) {
       setTasks((prev) => [newTask, ...prev]);
       setInput("");
     }
@@ -30,9 +76,15 @@ const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
     }
   };
 
+  const updateTask = (id: string, patch: Partial<Task>) => {
+    setTasks((prev) =>
+      prev.map((t) => (t.id === id ? { ...t, ...patch, updatedAt: Date.now() } : t)),
+    );
+  };
+
   const toggleTask = (id: string) => {
     setTasks((prev) =>
-      prev.map((t) => (t.id === id ? { ...t, completed: !t.completed } : t)),
+      prev.map((t) => (t.id === id ? setTaskCompleted(t, !t.completed) : t)),
     );
   };
 
@@ -40,6 +92,303 @@ const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
     setTasks((prev) => prev.filter((t) => t.id !== id));
   };
 
+  // Inline Editing - double-click the text, Enter/blur saves, Escape cancels
+  const startEdit = (task: Task) => {
+    setEditingId(task.id);
+    setEditText(
+      [task.text, ...task.tags.map((tag) => `#${tag}`)].join(" "),
+    );
+  };
+
+  const commitEdit = () => {
+    if (!editingId) return;
+    const { text, tags } = parseTaskInput(editText);
+    if (text) updateTask(editingId, { text, tags });
+    setEditingId(null);
+  };
+
+  const toggleDetails = (task: Task) => {
+    setExpandedId(expandedId === task.id ? null : task.id);
+    setTagInput("");
+  };
+
+  const addTags = (task: Task) => {
+    const tags = tagInput.split(/[\s,]+/).map(normalizeTag).filter(Boolean);
+    if (tags.length) {
+      updateTask(task.id, {
+        tags: Array.from(new Set([...task.tags, ...tags])),
+      });
+    }
+    setTagInput("");
+  };
+
+  // Drag Reorder - HTML5 drag and drop between open directives
+  const handleDrop = (targetId: string) => {
+    if (draggedId) setTasks((prev) => moveTask(prev, draggedId, targetId));
+    setDraggedId(null);
+    setDragOverId(null);
+  };
+
+  const renderDetails = (task: Task) => (
+    <div className="mt-2 ml-8 space-y-2 font-mono text-xs">
+      {/* Notes */}
+      <textarea
+        value={task.notes}
+        onChange={(e) => updateTask(task.id, { notes: e.target.value })}
+        placeholder={t('terminal.notesPlaceholder')}
+        rows={2}
+        className="w-full bg-transparent outline-none resize-none px-3 py-2 text-base md:text-xs"
+        style={{ ...insetWellStyle, color: "var(--foreground)" }}
+      />
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-1">
+        {task.tags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() =>
+              updateTask(task.id, {
+                tags: task.tags.filter((t) => t !== tag),
+              })
+            }
+            className="px-1 text-[10px] transition-opacity hover:opacity-60"
+            style={tagStyle}
+            title={t('terminal.removeTag')}
+          >
+            #{tag} ×
+          </button>
+        ))}
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addTags(task)}
+          onBlur={() => addTags(task)}
+          placeholder={t('terminal.tagPlaceholder')}
+          className="flex-1 min-w-[80px] bg-transparent outline-none px-2 py-1 text-base md:text-[10px]"
+          style={{ ...insetWellStyle, color: "var(--foreground)" }}
+        />
+      </div>
+
+      {/* Estimate */}
+      <div
+        className="flex items-center gap-2 uppercase tracking-wider text-[10px]"
+        style={{ color: "var(--muted)" }}
+      >
+        <span>{t('terminal.estimate')}</span>
+        <button
+          onClick={() =>
+            updateTask(task.id, {
+              estimate:
+                task.estimate && task.estimate > 1 ? task.estimate - 1 : null,
+            })
+          }
+          disabled={task.estimate === null}
+          className="w-5 h-5 flex items-center justify-center disabled:opacity-30"
+          style={insetWellStyle}
+        >
+          −
+        </button>
+        <span className="w-6 text-center text-white">
+          {task.estimate ?? "—"}
+        </span>
+        <button
+          onClick={() =>
+            updateTask(task.id, {
+              estimate: Math.min(MAX_TASK_ESTIMATE, (task.estimate ?? 0) + 1),
+            })
+          }
+          disabled={task.estimate === MAX_TASK_ESTIMATE}
+          className="w-5 h-5 flex items-center justify-center disabled:opacity-30"
+          style={insetWellStyle}
+        >
+          +
+        </button>
+        <span>{t('terminal.sessions')}</span>
+      </div>
+    </div>
+  );
+
+  const renderTask = (task: Task) => {
+    const isTarget = task.id === targetTaskId;
+    const isEditing = editingId === task.id;
+    const isExpanded = expandedId === task.id;
+    const taskFocus = focus[task.id];
+    const canDrag = !task.completed && !isEditing;
+
+    return (
+      <li
+        key={task.id}
+        draggable={canDrag}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDraggedId(task.id);
+        }}
+        onDragOver={(e) => {
+          if (!draggedId || task.completed) return;
+          e.preventDefault();
+          setDragOverId(task.id);
+        }}
+        onDragLeave={() => setDragOverId(null)}
+        onDrop={() => handleDrop(task.id)}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDragOverId(null);
+        }}
+        className="group text-sm transition-opacity"
+        style={{
+          opacity: draggedId === task.id ? 0.4 : 1,
+          borderTop:
+            dragOverId === task.id && draggedId !== task.id
+              ? "1px solid var(--primary)"
+              : "1px solid transparent",
+        }}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            {/* Drag Handle */}
+            {!task.completed && (
+              <span
+                className="flex-shrink-0 -mr-2 cursor-grab select-none text-xs opacity-40 group-hover:opacity-100 transition-opacity"
+                style={{ color: "var(--muted)" }}
+                title={t('terminal.reorder')}
+              >
+                ⋮⋮
+              </span>
+            )}
+            {/* Checkbox - Neumorphic Style */}
+            <button
+              onClick={() => toggleTask(task.id)}
+              className="flex-shrink-0 w-5 h-5 md:w-5 md:h-5 flex items-center justify-center transition-all duration-200"
+              style={{
+                background: task.completed
+                  ? `linear-gradient(135deg, var(--primary) 0%, color-mix(in srgb, var(--primary) 70%, black) 100%)`
+                  : `linear-gradient(180deg, color-mix(in srgb, var(--background) 90%, black) 0%, var(--background) 100%)`,
+                boxShadow: task.completed
+                  ? `0 2px 6px color-mix(in srgb, var(--primary) 40%, transparent), inset 0 1px 0 rgba(255, 255, 255, 0.2)`
+                  : `inset 0 2px 4px rgba(0, 0, 0, 0.4), 0 1px 0 rgba(255, 255, 255, 0.03)`,
+                borderRadius: "0",
+                border: task.completed
+                  ? "1px solid var(--primary)"
+                  : "1px solid var(--border)",
+              }}
+            >
+              {task.completed && (
+                <div
+                  className="w-2 h-2"
+                  style={{ backgroundColor: "white" }}
+                />
+              )}
+            </button>
+            {isEditing ? (
+              <input
+                type="text"
+                value={editText}
+                autoFocus
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitEdit();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                onBlur={commitEdit}
+                className="flex-1 min-w-0 bg-transparent outline-none font-mono text-base md:text-sm px-2 py-1"
+                style={{ ...insetWellStyle, color: "var(--foreground)" }}
+              />
+            ) : (
+              <span
+                onDoubleClick={() => startEdit(task)}
+                className={`font-mono transition-all truncate cursor-text ${task.completed ? "line-through" : ""}`}
+                style={{
+                  color: task.completed
+                    ? "var(--muted)"
+                    : isTarget
+                      ? "white"
+                      : "var(--foreground)",
+                  opacity: task.completed ? 0.6 : 1,
+                }}
+                title={t('terminal.editHint')}
+              >
+                {task.text}
+              </span>
+            )}
+          </div>
+          {/* Target Toggle - links the next session to this directive */}
+          {!task.completed && (
+            <button
+              onClick={() => onSelectTarget(task.id)}
+              className={`px-2 py-1 font-mono text-xs transition-all ${isTarget ? "" : "opacity-100 md:opacity-0 group-hover:opacity-100"}`}
+              style={{ color: isTarget ? "var(--primary)" : "var(--muted)" }}
+              title={isTarget ? t('terminal.target') : t('terminal.setTarget')}
+            >
+              {isTarget ? "◉" : "○"}
+            </button>
+          )}
+          {/* Details Toggle */}
+          <button
+            onClick={() => toggleDetails(task)}
+            className="px-1 py-1 font-mono text-xs transition-all"
+            style={{
+              color: isExpanded || task.notes ? "var(--primary)" : "var(--muted)",
+            }}
+            title={t('terminal.details')}
+          >
+            {isExpanded ? "▾" : "▸"}
+          </button>
+          <button
+            onClick={() => removeTask(task.id)}
+            className="opacity-100 md:opacity-0 group-hover:opacity-100 transition-all px-3 py-1 text-lg leading-none hover:scale-110"
+            style={{
+              color: "var(--muted)",
+            }}
+            onMouseEnter={(e) =>
+              (e.currentTarget.style.color = "var(--destructive)")
+            }
+            onMouseLeave={(e) =>
+              (e.currentTarget.style.color = "var(--muted)")
+            }
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Meta Row - tags, estimate progress, accumulated focus, completion */}
+        {(task.tags.length > 0 ||
+          task.estimate !== null ||
+          taskFocus ||
+          task.completedAt !== null) && (
+          <div
+            className="flex flex-wrap items-center gap-2 mt-1 ml-8 font-mono text-[10px]"
+            style={{ color: "var(--muted)" }}
+          >
+            {!isExpanded &&
+              task.tags.map((tag) => (
+                <span key={tag} className="px-1" style={tagStyle}>
+                  #{tag}
+                </span>
+              ))}
+            {task.estimate !== null && (
+              <span title={t('terminal.estimate')}>
+                ◷ {taskFocus?.sessions ?? 0}/{task.estimate}
+              </span>
+            )}
+            {taskFocus && taskFocus.minutes > 0 && (
+              <span title={t('terminal.focusTime')}>
+                Σ{taskFocus.minutes}{t('unit.min')}
+              </span>
+            )}
+            {task.completedAt !== null && (
+              <span title={t('terminal.completedAt')}>
+                ✓ {formatDate(task.completedAt, { dateStyle: "short" })}
+              </span>
+            )}
+          </div>
+        )}
+
+        {isExpanded && renderDetails(task)}
+      </li>
+    );
+  };
+
   return (
     <div
       className="relative w-full max-w-md overflow-hidden"
@@ -83,22 +432,7 @@ const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
       <div className="flex items-center gap-2 mb-4 md:mb-6">
         <div
           className="flex items-center gap-2 flex-1"
-          style={{
-            background: `linear-gradient(
-              180deg,
-              color-mix(in srgb, var(--background) 100%, black) 0%,
-              var(--background) 100%
-            )`,
-            boxShadow: `
-              inset 0 2px 6px rgba(0, 0, 0, 0.5),
-              inset 0 1px 2px rgba(0, 0, 0, 0.3),
-              0 1px 0 rgba(255, 255, 255, 0.03)
-            `,
-            borderRadius: "var(--radius-sm)",
-            border:
-              "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
-            padding: "12px 16px",
-          }}
+          style={{ ...insetWellStyle, padding: "12px 16px" }}
         >
           <span style={{ color: "var(--primary)", fontSize: "18px" }}>›</span>
           <input
@@ -133,7 +467,7 @@ const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
       </div>
 
       <ul className="space-y-3 max-h-[200px] md:max-h-[300px] overflow-y-auto no-scrollbar">
-        {tasks.length === 0 && (
+        {activeTasks.length === 0 && (
           <li
             className="text-xs text-center py-4 italic"
             style={{ color: "var(--muted)" }}
@@ -141,63 +475,26 @@ const Terminal: React.FC<TerminalProps> = ({ tasks, setTasks }) => {
             {t('terminal.empty')}
           </li>
         )}
-        {tasks.map((task) => (
-          <li
-            key={task.id}
-            className="group flex items-center justify-between text-sm"
-          >
-            <div className="flex items-center gap-3 flex-1 min-w-0">
-              {/* Checkbox - Neumorphic Style */}
-              <button
-                onClick={() => toggleTask(task.id)}
-                className="flex-shrink-0 w-5 h-5 md:w-5 md:h-5 flex items-center justify-center transition-all duration-200"
-                style={{
-                  background: task.completed
-                    ? `linear-gradient(135deg, var(--primary) 0%, color-mix(in srgb, var(--primary) 70%, black) 100%)`
-                    : `linear-gradient(180deg, color-mix(in srgb, var(--background) 90%, black) 0%, var(--background) 100%)`,
-                  boxShadow: task.completed
-                    ? `0 2px 6px color-mix(in srgb, var(--primary) 40%, transparent), inset 0 1px 0 rgba(255, 255, 255, 0.2)`
-                    : `inset 0 2px 4px rgba(0, 0, 0, 0.4), 0 1px 0 rgba(255, 255, 255, 0.03)`,
-                  borderRadius: "0",
-                  border: task.completed
-                    ? "1px solid var(--primary)"
-                    : "1px solid var(--border)",
-                }}
-              >
-                {task.completed && (
-                  <div
-                    className="w-2 h-2"
-                    style={{ backgroundColor: "white" }}
-                  />
-                )}
-              </button>
-              <span
-                className={`font-mono transition-all truncate ${task.completed ? "line-through" : ""}`}
-                style={{
-                  color: task.completed ? "var(--muted)" : "var(--foreground)",
-                  opacity: task.completed ? 0.6 : 1,
-                }}
-              >
-                {task.text}
-              </span>
-            </div>
+        {activeTasks.map(renderTask)}
+
+        {/* Completed Section - collapsed by default */}
+        {completedTasks.length > 0 && (
+          <li>
             <button
-              onClick={() => removeTask(task.id)}
-              className="opacity-100 md:opacity-0 group-hover:opacity-100 transition-all px-3 py-1 text-lg leading-none hover:scale-110"
+              onClick={() => setShowCompleted(!showCompleted)}
+              className="w-full flex items-center gap-2 pt-2 font-mono text-[10px] uppercase tracking-[0.2em] transition-colors"
               style={{
                 color: "var(--muted)",
+                borderTop:
+                  "1px solid color-mix(in srgb, var(--border) 50%, transparent)",
               }}
-              onMouseEnter={(e) =>
-                (e.currentTarget.style.color = "var(--destructive)")
-              }
-              onMouseLeave={(e) =>
-                (e.currentTarget.style.color = "var(--muted)")
-              }
             >
-              ×
+              <span>{showCompleted ? "▾" : "▸"}</span>
+              {t('terminal.completed')} ({completedTasks.length})
             </button>
           </li>
-        ))}
+        )}
+        {showCompleted && completedTasks.map(renderTask)}
       </ul>
     </div>
   );
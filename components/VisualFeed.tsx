@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from "react";
+import { VisualFeedSeed, drawVisualFeed } from "../services/visualFeed";
+
+interface VisualFeedProps extends VisualFeedSeed {
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Visual Feed - procedural still of the observed dimension, sized by its container
+const VisualFeed: React.FC<VisualFeedProps> = ({
+  dimensionCode,
+  entropy,
+  stability,
+  className = "",
+  style,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const render = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      if (width === 0 || height === 0) return;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      drawVisualFeed(ctx, width, height, { dimensionCode, entropy, stability });
+    };
+
+    render();
+    // Redraw on layout changes; the image itself never changes for a report
+    const observer = new ResizeObserver(render);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [dimensionCode, entropy, stability]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`block w-full ${className}`}
+      style={style}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default VisualFeed;
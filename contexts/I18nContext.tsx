@@ -1,162 +1,109 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-export type Language = 'en' | 'zh';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { STORAGE_KEYS } from '../services/storage';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_INFO,
+  Language,
+  isLanguage,
+  matchLanguage,
+} from '../services/languages';
+import { Translations } from '../locales/types';
+import { MessageParams, formatMessage } from '../locales/format';
+import en from '../locales/en';
+
+export type { Language };
 
 interface I18nContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string) => string;
+  // Params fill "{name}" placeholders and pick plural branches (see locales/format.ts)
+  t: (key: string, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: number | Date, options?: Intl.DateTimeFormatOptions) => string;
 }
 
-const LOCAL_STORAGE_KEY = 'gazing_abyss_lang';
-
-// Translation dictionaries
-const translations: Record<Language, Record<string, string>> = {
-  en: {
-    // App title
-    'app.title': 'Into the Abyss',
-    'app.title.prefix': 'Into the',
-    'app.title.accent': 'Abyss',
-    'app.subtitle': 'Temporal Observation Interface // OBS-99',
-
-    // Tier names and descriptions
-    'tier.quantum.name': 'Quantum Flicker',
-    'tier.quantum.desc': 'Momentary phase shift. Rapid instability.',
-    'tier.neighboring.name': 'Neighboring Dimension',
-    'tier.neighboring.desc': 'Minimal deviation. Minor physical anomalies.',
-    'tier.mirror.name': 'Mirror Rift',
-    'tier.mirror.desc': 'High anomalies. Biological divergence detected.',
-    'tier.imaginary.name': 'Imaginary Horizon',
-    'tier.imaginary.desc': 'Physics breakdown. Abstract existence.',
-    'tier.singularity.name': 'Singularity Prime',
-    'tier.singularity.desc': 'Total reality collapse. The end of meaning.',
-
-    // Buttons and actions
-    'button.initialize': 'Initialize Sequence',
-    'button.abort': '[ Emergency Abort ]',
-    'button.return': 'Return',
-    'button.mute': 'MUTE',
-    'button.unmute': 'UNMUTE',
-    'button.enableMotion': 'Enable Motion Effects',
-    'button.secureData': 'Secure Data & Return',
-    'button.accessArchives': 'Access Archives',
-
-    // Status messages
-    'status.ready': 'System Ready. Awaiting coordinates.',
-    'status.liveSignal': '● Live Signal Feed',
-    'status.timeDilation': 'TIME DILATION IN PROGRESS',
-    'status.decrypting': 'DECRYPTING TELEMETRY...',
-    'status.signalLost': 'SIGNAL LOST',
-    'status.signalLostDesc': 'Phase alignment failed. Coordinates dropped.',
-
-    // Terminal
-    'terminal.title': '// Order_Management_Terminal',
-    'terminal.placeholder': 'Input directive...',
-    'terminal.empty': 'No active directives.',
-    'terminal.record': 'REC',
-
-    // Archive
-    'archive.title': 'Deep Storage',
-    'archive.subtitle': '// RECOVERED_DIMENSIONAL_ARTIFACTS:',
-
-    // Report
-    'report.visualFeed': 'Visual_Feed',
-    'report.observerLog': 'Observer_Log',
-    'report.entropy': 'ENTROPY:',
-    'report.integrity': 'INTEGRITY:',
-    'report.refId': 'REF_ID:',
-    'report.timestamp': 'TIMESTAMP:',
-    'report.official': 'Official',
-    'report.record': 'Record',
-
-    // Units
-    'unit.min': 'MIN',
-  },
-  zh: {
-    // App title
-    'app.title': '凝视深渊',
-    'app.title.prefix': '凝视',
-    'app.title.accent': '深渊',
-    'app.subtitle': '时间观测接口 // OBS-99',
-
-    // Tier names and descriptions
-    'tier.quantum.name': '量子闪烁',
-    'tier.quantum.desc': '瞬时相位偏移，快速不稳定。',
-    'tier.neighboring.name': '邻近维度',
-    'tier.neighboring.desc': '最小偏差，轻微物理异常。',
-    'tier.mirror.name': '镜像裂隙',
-    'tier.mirror.desc': '高度异常，检测到生物分歧。',
-    'tier.imaginary.name': '虚空地平线',
-    'tier.imaginary.desc': '物理崩溃，抽象存在。',
-    'tier.singularity.name': '奇点本源',
-    'tier.singularity.desc': '现实全面崩塌，意义的终结。',
-
-    // Buttons and actions
-    'button.initialize': '启动序列',
-    'button.abort': '[ 紧急中止 ]',
-    'button.return': '返回',
-    'button.mute': '静音',
-    'button.unmute': '取消静音',
-    'button.enableMotion': '启用动态效果',
-    'button.secureData': '保存数据并返回',
-    'button.accessArchives': '访问档案库',
-
-    // Status messages
-    'status.ready': '系统就绪，等待坐标输入。',
-    'status.liveSignal': '● 实时信号馈送',
-    'status.timeDilation': '时间膨胀进行中',
-    'status.decrypting': '正在解密遥测数据...',
-    'status.signalLost': '信号丢失',
-    'status.signalLostDesc': '相位对齐失败，坐标丢失。',
-
-    // Terminal
-    'terminal.title': '// 指令管理终端',
-    'terminal.placeholder': '输入指令...',
-    'terminal.empty': '暂无活动指令。',
-    'terminal.record': '记录',
-
-    // Archive
-    'archive.title': '深层存储',
-    'archive.subtitle': '// 已恢复的维度文物：',
-
-    // Report
-    'report.visualFeed': '视觉馈送',
-    'report.observerLog': '观察者日志',
-    'report.entropy': '熵值：',
-    'report.integrity': '完整性：',
-    'report.refId': '参考编号：',
-    'report.timestamp': '时间戳：',
-    'report.official': '官方',
-    'report.record': '记录',
-
-    // Units
-    'unit.min': '分钟',
-  },
+// English ships with the bundle as the fallback; other dictionaries are
+// split into their own chunks and fetched the first time they are chosen
+const LOADERS: Record<Language, () => Promise<{ default: Translations }>> = {
+  en: async () => ({ default: en }),
+  zh: () => import('../locales/zh'),
+  ja: () => import('../locales/ja'),
+  es: () => import('../locales/es'),
+  de: () => import('../locales/de'),
+};
+
+const loadTranslations = async (language: Language): Promise<Translations> =>
+  (await LOADERS[language]()).default;
+
+// An explicit choice wins; otherwise the browser's preferred languages
+const detectLanguage = (): Language => {
+  const saved = localStorage.getItem(STORAGE_KEYS.language);
+  if (isLanguage(saved)) return saved;
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return matchLanguage(preferred) ?? DEFAULT_LANGUAGE;
 };
 
 const I18nContext = createContext<I18nContextType | undefined>(undefined);
 
 export const I18nProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [language, setLanguageState] = useState<Language>('en');
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+  const [translations, setTranslations] = useState<Translations>(en);
+  // Latest language asked for, so a slow load cannot override a newer choice
+  const requestedRef = useRef<Language>(DEFAULT_LANGUAGE);
+  // Keys already reported as missing, so each is logged once per language
+  const reportedRef = useRef(new Set<string>());
+
+  // Switches once the dictionary has arrived, so the UI never shows raw keys
+  const switchLanguage = (lang: Language) => {
+    requestedRef.current = lang;
+    loadTranslations(lang)
+      .then((dictionary) => {
+        if (requestedRef.current !== lang) return;
+        setTranslations(dictionary);
+        setLanguageState(lang);
+      })
+      .catch((error) => console.error(`Failed to load ${lang} translations:`, error));
+  };
 
   useEffect(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_KEY) as Language | null;
-    if (saved && (saved === 'en' || saved === 'zh')) {
-      setLanguageState(saved);
+    const initial = detectLanguage();
+    if (initial !== DEFAULT_LANGUAGE) {
+      switchLanguage(initial);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    document.documentElement.lang = LANGUAGE_INFO[language].locale;
+  }, [language]);
+
   const setLanguage = (lang: Language) => {
-    setLanguageState(lang);
-    localStorage.setItem(LOCAL_STORAGE_KEY, lang);
+    switchLanguage(lang);
+    localStorage.setItem(STORAGE_KEYS.language, lang);
   };
 
-  const t = (key: string): string => {
-    return translations[language][key] || key;
+  const locale = LANGUAGE_INFO[language].locale;
+
+  const t = (key: string, params?: MessageParams): string => {
+    // Keys are checked per locale at compile time; this catches unknown ones
+    const dictionary: Record<string, string> = translations;
+    const message = dictionary[key] || (en as Record<string, string>)[key];
+    if (import.meta.env.DEV && !dictionary[key] && !reportedRef.current.has(`${language}:${key}`)) {
+      reportedRef.current.add(`${language}:${key}`);
+      console.warn(`Missing ${language} translation for "${key}"`);
+    }
+    if (!message) return key;
+    return params ? formatMessage(message, params, locale) : message;
   };
 
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(locale, options).format(value);
+
+  const formatDate = (value: number | Date, options?: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, options).format(value);
+
   return (
-    <I18nContext.Provider value={{ language, setLanguage, t }}>
+    <I18nContext.Provider value={{ language, setLanguage, t, formatNumber, formatDate }}>
       {children}
     </I18nContext.Provider>
   );
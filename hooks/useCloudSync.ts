@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ArchiveEntry, Task, isSignalLost } from "../types";
+import {
+  SyncLink,
+  SyncRejectedError,
+  SyncTooLargeError,
+  SyncUnavailableError,
+  claimPairingCode,
+  createSyncSpace,
+  loadSyncLink,
+  loadTaskTombstones,
+  saveSyncLink,
+  saveTaskTombstones,
+  syncSnapshot,
+} from "../services/sync";
+import {
+  SyncSnapshot,
+  mergeArchive,
+  mergeTasks,
+  mergeTombstones,
+} from "../services/syncMerge";
+
+// Quiet period after the last change before pushing
+const SYNC_DEBOUNCE_MS = 5000;
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "error" | "unavailable" | "tooLarge";
+
+// Changes whenever an entry is replaced in place, e.g. a fallback report
+// swapped for the real transmission under the same id
+const getEntryRevision = (entry: ArchiveEntry) =>
+  isSignalLost(entry)
+    ? `${entry.id}:${entry.timestamp}:lost`
+    : `${entry.id}:${entry.timestamp}:${entry.isSystemGenerated ? "fallback" : "signal"}${
+        entry.awaitingSignal ? ":awaiting" : ""
+      }`;
+
+// Order-insensitive fingerprint of what sync cares about
+const getSignature = ({ archive, tasks, deletedTasks }: SyncSnapshot) =>
+  [
+    archive.map(getEntryRevision).sort().join(","),
+    tasks.map((task) => `${task.id}:${task.updatedAt}`).sort().join(","),
+    Object.keys(deletedTasks).sort().join(","),
+  ].join("|");
+
+/**
+ * Keeps the archive and task list in step with the worker's sync space, if
+ * this device is linked to one. Pushes after changes settle and whenever
+ * the tab becomes visible again; the merged result is folded back into
+ * local state, so edits made while a request is in flight are kept.
+ */
+export function useCloudSync(
+  archive: ArchiveEntry[],
+  tasks: Task[],
+  setArchive: React.Dispatch<React.SetStateAction<ArchiveEntry[]>>,
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>,
+  ready: boolean, // false until local data has loaded
+) {
+  const [link, setLink] = useState<SyncLink | null>(loadSyncLink);
+  const [status, setStatus] = useState<SyncStatus>("idle");
+
+  const tombstonesRef = useRef(loadTaskTombstones());
+  const previousTasksRef = useRef<Task[]>(tasks);
+  const stateRef = useRef({ archive, tasks });
+  stateRef.current = { archive, tasks };
+  // Signature of the state last confirmed by the worker
+  const syncedSignatureRef = useRef<string | null>(null);
+  const inFlightRef = useRef(false);
+
+  // Deleted tasks leave a tombstone so other devices drop them too
+  useEffect(() => {
+    const remaining = new Set(tasks.map((task) => task.id));
+    const removed = previousTasksRef.current.filter((task) => !remaining.has(task.id));
+    previousTasksRef.current = tasks;
+    if (!removed.length) return;
+    const now = Date.now();
+    removed.forEach((task) => (tombstonesRef.current[task.id] = now));
+    tombstonesRef.current = mergeTombstones(tombstonesRef.current, {}, now);
+    saveTaskTombstones(tombstonesRef.current);
+  }, [tasks]);
+
+  const updateLink = (next: SyncLink | null) => {
+    saveSyncLink(next);
+    setLink(next);
+  };
+
+  const syncNow = useCallback(async () => {
+    const current = loadSyncLink();
+    if (!current || inFlightRef.current) return;
+    inFlightRef.current = true;
+    setStatus("syncing");
+
+    try {
+      const remote = await syncSnapshot(current.token, {
+        ...stateRef.current,
+        deletedTasks: tombstonesRef.current,
+      });
+      const deletedTasks = mergeTombstones(tombstonesRef.current, remote.deletedTasks);
+      tombstonesRef.current = deletedTasks;
+      saveTaskTombstones(deletedTasks);
+      setArchive((prev) => mergeArchive(prev, remote.archive));
+      setTasks((prev) => mergeTasks(prev, remote.tasks, deletedTasks));
+
+      syncedSignatureRef.current = getSignature(remote);
+      updateLink({ ...current, lastSyncedAt: Date.now() });
+      setStatus("synced");
+    } catch (error) {
+      if (error instanceof SyncRejectedError) {
+        // The space is gone; stop retrying with a dead token
+        updateLink(null);
+      }
+      console.error("Sync failed:", error);
+      setStatus(
+        error instanceof SyncUnavailableError
+          ? "unavailable"
+          : error instanceof SyncTooLargeError
+            ? "tooLarge"
+            : "error",
+      );
+    } finally {
+      inFlightRef.current = false;
+    }
+  }, [setArchive, setTasks]);
+
+  // Push once changes settle; the first run after linking pulls
+  const signature = getSignature({ archive, tasks, deletedTasks: tombstonesRef.current });
+  useEffect(() => {
+    if (!ready || !link || signature === syncedSignatureRef.current) return;
+    const timeout = window.setTimeout(syncNow, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [ready, link?.token, signature, syncNow]);
+
+  // Catch up with other devices when returning to the tab
+  useEffect(() => {
+    if (!ready || !link) return;
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") syncNow();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [ready, link?.token, syncNow]);
+
+  const startLink = async (token: string) => {
+    syncedSignatureRef.current = null;
+    updateLink({ token, lastSyncedAt: null });
+    await syncNow();
+  };
+
+  return {
+    link,
+    status,
+    syncNow,
+    // New space seeded with this device's data
+    createSpace: async () => startLink(await createSyncSpace()),
+    // Join the space a pairing code was issued for; local data is merged in
+    joinSpace: async (code: string) => startLink(await claimPairingCode(code)),
+    unlink: () => {
+      updateLink(null);
+      setStatus("idle");
+    },
+  };
+}
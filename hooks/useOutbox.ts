@@ -0,0 +1,64 @@
+import React, { useCallback, useEffect, useRef } from "react";
+import { ArchiveEntry, Language, isSignalLost } from "../types";
+import { applyTransmission, getOutbox, requestTransmission } from "../services/outbox";
+
+/**
+ * Requests real reports for sessions that were completed offline, once the
+ * connection is back (on load, on the `online` event and when the tab is
+ * shown again). Each arriving report replaces its fallback in the archive.
+ */
+export function useOutbox(
+  archive: ArchiveEntry[],
+  setArchive: React.Dispatch<React.SetStateAction<ArchiveEntry[]>>,
+  ready: boolean, // false until local data has loaded
+  language: Language, // for reports saved before their language was recorded
+) {
+  const archiveRef = useRef(archive);
+  archiveRef.current = archive;
+  const inFlightRef = useRef(false);
+  const pending = getOutbox(archive, language).length;
+
+  const flush = useCallback(async () => {
+    if (inFlightRef.current || !navigator.onLine) return;
+    inFlightRef.current = true;
+
+    try {
+      for (const item of getOutbox(archiveRef.current, language)) {
+        const data = await requestTransmission(item, archiveRef.current);
+        // Still no signal; try again on the next trigger
+        if (data.awaitingSignal) break;
+        // Quota or relay error: keep the fallback queued and move on
+        if (data.isSystemGenerated) continue;
+
+        setArchive((prev) =>
+          prev.map((entry) =>
+            entry.id === item.reportId && !isSignalLost(entry)
+              ? applyTransmission(entry, item, data)
+              : entry,
+          ),
+        );
+      }
+    } finally {
+      inFlightRef.current = false;
+    }
+  }, [setArchive, language]);
+
+  useEffect(() => {
+    if (ready && pending > 0) flush();
+  }, [ready, pending, flush]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") flush();
+    };
+    window.addEventListener("online", flush);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("online", flush);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [ready, flush]);
+
+  return { pending, flush };
+}
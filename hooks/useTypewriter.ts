@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from "react";
+
+const TICK_MS = 24;
+// Characters revealed per tick grow with the backlog, so a burst of text
+// (or a report that arrived all at once) never takes more than ~1.5s to catch up
+const CATCH_UP_TICKS = 60;
+
+/**
+ * Reveals `text` character by character, following it as it grows.
+ * Disabled -> returns the full text immediately.
+ */
+export function useTypewriter(text: string, enabled: boolean): string {
+  const [shown, setShown] = useState(enabled ? 0 : text.length);
+  const textRef = useRef(text);
+  textRef.current = text;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = window.setInterval(() => {
+      setShown((current) => {
+        const target = textRef.current.length;
+        if (current >= target) return target;
+        return current + Math.max(1, Math.ceil((target - current) / CATCH_UP_TICKS));
+      });
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return enabled ? text.slice(0, shown) : text;
+}
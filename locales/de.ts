@@ -0,0 +1,202 @@
+import { Translations } from './types';
+
+// German UI strings
+const de: Translations = {
+  // App title
+  'app.title': 'In den Abgrund',
+  'app.title.prefix': 'In den',
+  'app.title.accent': 'Abgrund',
+  'app.subtitle': 'Temporale Beobachtungsschnittstelle // OBS-99',
+
+  // Tier names and descriptions
+  'tier.quantum.name': 'Quantenflackern',
+  'tier.quantum.desc': 'Kurzzeitige Phasenverschiebung. Rasche Instabilität.',
+  'tier.neighboring.name': 'Nachbardimension',
+  'tier.neighboring.desc': 'Minimale Abweichung. Geringe physikalische Anomalien.',
+  'tier.mirror.name': 'Spiegelriss',
+  'tier.mirror.desc': 'Starke Anomalien. Biologische Divergenz erkannt.',
+  'tier.imaginary.name': 'Imaginärer Horizont',
+  'tier.imaginary.desc': 'Zusammenbruch der Physik. Abstrakte Existenz.',
+  'tier.singularity.name': 'Singularität Prime',
+  'tier.singularity.desc': 'Totaler Realitätskollaps. Das Ende der Bedeutung.',
+
+  // Setup
+  'setup.custom': 'Eigenes Δt',
+  'setup.customLabel': 'Eigene Dauer in Minuten',
+  'setup.expedition': 'Expedition',
+  'setup.blocks': 'Blöcke',
+  'setup.shortBreak': 'Kurze Drift',
+  'setup.longBreak': 'Lange Drift',
+  'setup.on': 'AN',
+  'setup.off': 'AUS',
+
+  // Buttons and actions
+  'button.initialize': 'Sequenz starten',
+  'button.launchExpedition': 'Expedition starten',
+  'button.skipBreak': 'Drift überspringen',
+  'button.abort': '[ Notabbruch ]',
+  'button.pause': 'Signal halten',
+  'button.resume': 'Abstieg fortsetzen',
+  'button.return': 'Zurück',
+  'button.mute': 'STUMM',
+  'button.unmute': 'TON AN',
+  'button.notificationsOn': 'BENACHRICHTIGUNGEN AN',
+  'button.notificationsOff': 'BENACHRICHTIGUNGEN AUS',
+  'button.sync': 'SYNC',
+  'button.reestablishSignal': 'SIGNAL WIEDERHERSTELLEN',
+  'button.enableMotion': 'Bewegungseffekte aktivieren',
+  'button.secureData': 'Daten sichern & zurück',
+  'button.accessArchives': 'Archiv öffnen',
+
+  // Status messages
+  'status.ready': 'System bereit. Warte auf Koordinaten.',
+  'status.liveSignal': '● Live-Signal',
+  'status.timeDilation': 'ZEITDILATATION LÄUFT',
+  'status.paused': 'TEMPORALER ANKER AKTIV',
+  'status.signalHeld': '○ Signal gehalten',
+  'status.block': 'Block',
+  'status.nextBlock': 'Nächster Block',
+  'status.shortBreak': '◌ Drift zwischen Phasen',
+  'status.longBreak': '◌ Tiefe Drift',
+  'status.breakDesc': 'HÜLLE KÜHLT AB. SENSOREN IN RUHE.',
+  'status.decrypting': 'TELEMETRIE WIRD ENTSCHLÜSSELT...',
+  'notify.sessionComplete': 'Sitzung abgeschlossen',
+  'notify.sessionCompleteBody': 'Signal erfasst. Übertragung wird entschlüsselt...',
+  'notify.blockComplete': 'Block abgeschlossen',
+  'notify.blockCompleteBody': 'Driftphase aktiv. Ruhe zwischen den Dimensionen.',
+  'notify.breakOver': 'Drift beendet',
+  'notify.breakOverBody': 'Abstieg in den nächsten Block.',
+  'notify.reportReady': 'Übertragung empfangen',
+  'status.signalLost': 'SIGNAL VERLOREN',
+  'status.signalLostDesc': 'Phasenausrichtung fehlgeschlagen. Koordinaten verloren.',
+
+  // Terminal
+  'terminal.title': '// Direktiven_Terminal',
+  'terminal.placeholder': 'Direktive eingeben... #tag',
+  'terminal.empty': 'Keine aktiven Direktiven.',
+  'terminal.record': 'REC',
+  'terminal.target': 'Sitzungsziel',
+  'terminal.setTarget': 'Als Sitzungsziel festlegen',
+  'terminal.focusTime': 'Gesammelte Fokuszeit',
+  'terminal.completed': 'Erledigt',
+  'terminal.completedAt': 'Erledigt am',
+  'terminal.details': 'Notizen, Tags und Schätzung',
+  'terminal.notesPlaceholder': 'Feldnotizen...',
+  'terminal.tagPlaceholder': '+ Tag',
+  'terminal.removeTag': 'Tag entfernen',
+  'terminal.estimate': 'Schätzung',
+  'terminal.sessions': 'Sitzungen',
+  'terminal.reorder': 'Zum Sortieren ziehen',
+  'terminal.editHint': 'Doppelklick zum Bearbeiten',
+
+  // Archive
+  'archive.title': 'Tiefenspeicher',
+  'archive.subtitle': '// GEBORGENE_DIMENSIONSARTEFAKTE:',
+  'archive.searchPlaceholder': 'Codes, Bilder und Logs durchsuchen...',
+  'archive.sort': 'Sortierung',
+  'archive.sort.newest': 'Neueste zuerst',
+  'archive.sort.oldest': 'Älteste zuerst',
+  'archive.sort.longest': 'Längstes Δt',
+  'archive.sort.shortest': 'Kürzestes Δt',
+  'archive.sort.entropyHigh': 'Entropie ↓',
+  'archive.sort.entropyLow': 'Entropie ↑',
+  'archive.filters': 'Filter',
+  'archive.filter.tier': 'Stufe',
+  'archive.filter.stability': 'Integrität',
+  'archive.filter.entropy': 'Entropie',
+  'archive.filter.entropyMin': 'Minimale Entropie',
+  'archive.filter.entropyMax': 'Maximale Entropie',
+  'archive.filter.date': 'Datum',
+  'archive.filter.from': 'Von',
+  'archive.filter.to': 'Bis',
+  'archive.filter.source': 'Quelle',
+  'archive.source.all': 'Alle',
+  'archive.source.signal': 'Live-Signal',
+  'archive.source.fallback': 'System-Ersatz',
+  'archive.source.lost': 'Verlorenes Signal',
+  'archive.reset': 'Filter zurücksetzen',
+  'archive.noResults': 'Keine Artefakte zu diesen Koordinaten.',
+  'archive.export': 'EXPORT',
+  'archive.import': 'IMPORT',
+  'archive.importResult': 'GEBORGEN',
+  'archive.importDuplicates': 'DUPLIKATE',
+  'archive.importRejected': 'BESCHÄDIGT',
+  'archive.importError': 'Übertragung unlesbar.',
+  'archive.lost.corrupted': 'Übertragung beschädigt. Fragment nicht wiederherstellbar.',
+  'archive.task': 'DIREKTIVE:',
+  'archive.revisited': 'WIEDERBESUCHT:',
+  'archive.echoes': 'ECHOS:',
+  'archive.lost.partial': 'TEILWEISE',
+  'status.partialArchived': 'TEILÜBERTRAGUNG ARCHIVIERT',
+  'button.stats': 'STATISTIK',
+  'stats.title': 'BEOBACHTUNGSMETRIKEN',
+  'stats.subtitle': '// PROTOKOLLIERTE_SITZUNGEN:',
+  'stats.today': 'Heute',
+  'stats.thisWeek': 'Diese Woche',
+  'stats.thisMonth': 'Dieser Monat',
+  'stats.currentStreak': 'Aktuelle Serie',
+  'stats.longestStreak': 'Längste Serie',
+  'stats.days': 'TAGE',
+  'stats.avgEntropy': 'Ø Entropie',
+  'stats.completionRate': 'Abschlussquote',
+  'stats.aborted': 'Verlorene Signale',
+  'stats.minutes': 'Fokusminuten',
+  'stats.period.day': 'TAG',
+  'stats.period.week': 'WOCHE',
+  'stats.period.month': 'MONAT',
+  'stats.tiers': 'Verteilung nach Stufe',
+  'stats.heatmap': 'Beobachtungskalender',
+  'stats.less': 'Weniger',
+  'stats.more': 'Mehr',
+
+  // Report
+  'report.visualFeed': 'Bildsignal',
+  'report.observerLog': 'Beobachterprotokoll',
+  'report.entropy': 'ENTROPIE:',
+  'report.integrity': 'INTEGRITÄT:',
+  'report.refId': 'REF_ID:',
+  'report.timestamp': 'ZEITSTEMPEL:',
+  'report.duration': 'DAUER:',
+  'report.directive': 'DIREKTIVE:',
+  'report.interruptions': 'UNTERBRECHUNGEN:',
+  'report.awaitingSignal': 'OFFLINE-AUFZEICHNUNG // ECHTE ÜBERTRAGUNG IN WARTESCHLANGE',
+  'report.fallback': 'SYSTEM-ERSATZ //',
+  'report.reestablishing': 'WIRD WIEDERHERGESTELLT...',
+  'report.signalStillLost': 'Signal weiterhin verloren. Später erneut versuchen.',
+  'report.chapters': 'Expeditionskapitel',
+  'report.chapter': 'KAP.',
+  'report.official': 'Offizielles',
+  'report.record': 'Protokoll',
+  'report.receiving': 'EMPFANG...',
+  'report.share': 'SENDEN:',
+  'report.shareLink': 'ÖFFENTLICHER LINK',
+  'report.linkCopied': 'Link in die Zwischenablage kopiert.',
+  'report.shareUnavailable': 'Öffentliche Links sind auf diesem Relais nicht aktiviert.',
+  'report.shareFailed': 'Übertragung fehlgeschlagen.',
+
+  // Sync
+  'sync.title': 'Signalrelais',
+  'sync.description': 'Archiv und Direktiven auf all deinen Geräten spiegeln.',
+  'sync.create': 'RELAIS ÖFFNEN',
+  'sync.codePlaceholder': 'KOPPLUNGSCODE',
+  'sync.join': 'BEITRETEN',
+  'sync.now': 'JETZT SYNCHRONISIEREN',
+  'sync.pair': 'GERÄT KOPPELN',
+  'sync.pairHint': 'Gib diesen Code innerhalb von 10 Minuten auf dem anderen Gerät ein.',
+  'sync.unlink': 'TRENNEN',
+  'sync.lastSynced': 'Letzte Synchronisierung:',
+  'sync.never': 'nie',
+  'sync.status.syncing': 'Synchronisiere...',
+  'sync.status.error': 'Relais nicht erreichbar. Neuer Versuch bei der nächsten Änderung.',
+  'sync.status.tooLarge': 'Archiv zu groß für die Synchronisierung. Exportiere es und entferne alte Einträge, um fortzufahren.',
+  'sync.unavailable': 'Synchronisierung ist auf diesem Relais nicht aktiviert.',
+  'sync.invalidCode': 'Kopplungscode unbekannt oder abgelaufen.',
+  'sync.failed': 'Anfrage an das Relais fehlgeschlagen.',
+
+  // Units
+  'unit.min': 'MIN',
+  'unit.minutes': '{count, plural, one {# MINUTE} other {# MINUTEN}}',
+  'unit.pauses': '{count, plural, one {# PAUSE} other {# PAUSEN}}',
+};
+
+export default de;
@@ -0,0 +1,201 @@
+// English UI strings. Its keys are the ones every other locale must define
+// (see types.ts), and it is the runtime fallback while a dictionary loads.
+const en = {
+  // App title
+  'app.title': 'Into the Abyss',
+  'app.title.prefix': 'Into the',
+  'app.title.accent': 'Abyss',
+  'app.subtitle': 'Temporal Observation Interface // OBS-99',
+
+  // Tier names and descriptions
+  'tier.quantum.name': 'Quantum Flicker',
+  'tier.quantum.desc': 'Momentary phase shift. Rapid instability.',
+  'tier.neighboring.name': 'Neighboring Dimension',
+  'tier.neighboring.desc': 'Minimal deviation. Minor physical anomalies.',
+  'tier.mirror.name': 'Mirror Rift',
+  'tier.mirror.desc': 'High anomalies. Biological divergence detected.',
+  'tier.imaginary.name': 'Imaginary Horizon',
+  'tier.imaginary.desc': 'Physics breakdown. Abstract existence.',
+  'tier.singularity.name': 'Singularity Prime',
+  'tier.singularity.desc': 'Total reality collapse. The end of meaning.',
+
+  // Setup
+  'setup.custom': 'Custom Δt',
+  'setup.customLabel': 'Custom duration in minutes',
+  'setup.expedition': 'Expedition',
+  'setup.blocks': 'Blocks',
+  'setup.shortBreak': 'Short Drift',
+  'setup.longBreak': 'Long Drift',
+  'setup.on': 'ON',
+  'setup.off': 'OFF',
+
+  // Buttons and actions
+  'button.initialize': 'Initialize Sequence',
+  'button.launchExpedition': 'Launch Expedition',
+  'button.skipBreak': 'Skip Drift',
+  'button.abort': '[ Emergency Abort ]',
+  'button.pause': 'Hold Signal',
+  'button.resume': 'Resume Descent',
+  'button.return': 'Return',
+  'button.mute': 'MUTE',
+  'button.unmute': 'UNMUTE',
+  'button.notificationsOn': 'ENABLE NOTIFICATIONS',
+  'button.notificationsOff': 'DISABLE NOTIFICATIONS',
+  'button.sync': 'SYNC',
+  'button.reestablishSignal': 'RE-ESTABLISH SIGNAL',
+  'button.enableMotion': 'Enable Motion Effects',
+  'button.secureData': 'Secure Data & Return',
+  'button.accessArchives': 'Access Archives',
+
+  // Status messages
+  'status.ready': 'System Ready. Awaiting coordinates.',
+  'status.liveSignal': '● Live Signal Feed',
+  'status.timeDilation': 'TIME DILATION IN PROGRESS',
+  'status.paused': 'TEMPORAL ANCHOR ENGAGED',
+  'status.signalHeld': '○ Signal On Hold',
+  'status.block': 'Block',
+  'status.nextBlock': 'Next Block',
+  'status.shortBreak': '◌ Inter-Phase Drift',
+  'status.longBreak': '◌ Deep Drift',
+  'status.breakDesc': 'HULL COOLING. SENSORS AT REST.',
+  'status.decrypting': 'DECRYPTING TELEMETRY...',
+  'notify.sessionComplete': 'Session complete',
+  'notify.sessionCompleteBody': 'Signal locked. Decrypting the transmission...',
+  'notify.blockComplete': 'Block complete',
+  'notify.blockCompleteBody': 'Drift phase engaged. Rest between dimensions.',
+  'notify.breakOver': 'Drift over',
+  'notify.breakOverBody': 'Descending into the next block.',
+  'notify.reportReady': 'Transmission received',
+  'status.signalLost': 'SIGNAL LOST',
+  'status.signalLostDesc': 'Phase alignment failed. Coordinates dropped.',
+
+  // Terminal
+  'terminal.title': '// Order_Management_Terminal',
+  'terminal.placeholder': 'Input directive... #tag',
+  'terminal.empty': 'No active directives.',
+  'terminal.record': 'REC',
+  'terminal.target': 'Session target',
+  'terminal.setTarget': 'Set as session target',
+  'terminal.focusTime': 'Accumulated focus time',
+  'terminal.completed': 'Completed',
+  'terminal.completedAt': 'Completed on',
+  'terminal.details': 'Notes, tags and estimate',
+  'terminal.notesPlaceholder': 'Field notes...',
+  'terminal.tagPlaceholder': '+ tag',
+  'terminal.removeTag': 'Remove tag',
+  'terminal.estimate': 'Estimate',
+  'terminal.sessions': 'sessions',
+  'terminal.reorder': 'Drag to reorder',
+  'terminal.editHint': 'Double-click to edit',
+
+  // Archive
+  'archive.title': 'Deep Storage',
+  'archive.subtitle': '// RECOVERED_DIMENSIONAL_ARTIFACTS:',
+  'archive.searchPlaceholder': 'Search codes, feeds and logs...',
+  'archive.sort': 'Sort',
+  'archive.sort.newest': 'Newest First',
+  'archive.sort.oldest': 'Oldest First',
+  'archive.sort.longest': 'Longest Δt',
+  'archive.sort.shortest': 'Shortest Δt',
+  'archive.sort.entropyHigh': 'Entropy ↓',
+  'archive.sort.entropyLow': 'Entropy ↑',
+  'archive.filters': 'Filters',
+  'archive.filter.tier': 'Tier',
+  'archive.filter.stability': 'Integrity',
+  'archive.filter.entropy': 'Entropy',
+  'archive.filter.entropyMin': 'Minimum entropy',
+  'archive.filter.entropyMax': 'Maximum entropy',
+  'archive.filter.date': 'Date',
+  'archive.filter.from': 'From date',
+  'archive.filter.to': 'To date',
+  'archive.filter.source': 'Source',
+  'archive.source.all': 'All',
+  'archive.source.signal': 'Live Signal',
+  'archive.source.fallback': 'System Fallback',
+  'archive.source.lost': 'Lost Signal',
+  'archive.reset': 'Reset Filters',
+  'archive.noResults': 'No artifacts match these coordinates.',
+  'archive.export': 'EXPORT',
+  'archive.import': 'IMPORT',
+  'archive.importResult': 'RECOVERED',
+  'archive.importDuplicates': 'DUPLICATES',
+  'archive.importRejected': 'CORRUPTED',
+  'archive.importError': 'Transmission unreadable.',
+  'archive.lost.corrupted': 'Transmission corrupted. Fragment unrecoverable.',
+  'archive.task': 'DIRECTIVE:',
+  'archive.revisited': 'REVISITED:',
+  'archive.echoes': 'ECHOES:',
+  'archive.lost.partial': 'PARTIAL',
+  'status.partialArchived': 'PARTIAL TRANSMISSION ARCHIVED',
+  'button.stats': 'STATISTICS',
+  'stats.title': 'OBSERVATION METRICS',
+  'stats.subtitle': '// SESSIONS_LOGGED:',
+  'stats.today': 'Today',
+  'stats.thisWeek': 'This Week',
+  'stats.thisMonth': 'This Month',
+  'stats.currentStreak': 'Current Streak',
+  'stats.longestStreak': 'Longest Streak',
+  'stats.days': 'DAYS',
+  'stats.avgEntropy': 'Avg Entropy',
+  'stats.completionRate': 'Completion Rate',
+  'stats.aborted': 'Signals Lost',
+  'stats.minutes': 'Focused Minutes',
+  'stats.period.day': 'DAY',
+  'stats.period.week': 'WEEK',
+  'stats.period.month': 'MONTH',
+  'stats.tiers': 'Tier Distribution',
+  'stats.heatmap': 'Observation Calendar',
+  'stats.less': 'Less',
+  'stats.more': 'More',
+
+  // Report
+  'report.visualFeed': 'Visual_Feed',
+  'report.observerLog': 'Observer_Log',
+  'report.entropy': 'ENTROPY:',
+  'report.integrity': 'INTEGRITY:',
+  'report.refId': 'REF_ID:',
+  'report.timestamp': 'TIMESTAMP:',
+  'report.duration': 'DURATION:',
+  'report.directive': 'DIRECTIVE:',
+  'report.interruptions': 'INTERRUPTIONS:',
+  'report.awaitingSignal': 'OFFLINE RECORD // REAL TRANSMISSION QUEUED',
+  'report.fallback': 'SYSTEM FALLBACK //',
+  'report.reestablishing': 'RE-ESTABLISHING...',
+  'report.signalStillLost': 'Signal still lost. Try again later.',
+  'report.chapters': 'Expedition_Chapters',
+  'report.chapter': 'CH.',
+  'report.official': 'Official',
+  'report.record': 'Record',
+  'report.receiving': 'RECEIVING...',
+  'report.share': 'TRANSMIT:',
+  'report.shareLink': 'PUBLIC LINK',
+  'report.linkCopied': 'Link copied to clipboard.',
+  'report.shareUnavailable': 'Public links are not enabled on this relay.',
+  'report.shareFailed': 'Transmission failed.',
+
+  // Sync
+  'sync.title': 'Signal Relay',
+  'sync.description': 'Mirror the archive and directives across your devices.',
+  'sync.create': 'OPEN RELAY',
+  'sync.codePlaceholder': 'PAIRING CODE',
+  'sync.join': 'JOIN',
+  'sync.now': 'SYNC NOW',
+  'sync.pair': 'PAIR DEVICE',
+  'sync.pairHint': 'Enter this code on the other device within 10 minutes.',
+  'sync.unlink': 'UNLINK',
+  'sync.lastSynced': 'Last sync:',
+  'sync.never': 'never',
+  'sync.status.syncing': 'Syncing...',
+  'sync.status.error': 'Relay unreachable. Will retry on the next change.',
+  'sync.status.tooLarge': 'Archive too large to sync. Export it and remove old entries to resume.',
+  'sync.unavailable': 'Sync is not enabled on this relay.',
+  'sync.invalidCode': 'Pairing code not recognized or expired.',
+  'sync.failed': 'Relay request failed.',
+
+  // Units
+  'unit.min': 'MIN',
+  'unit.minutes': '{count, plural, one {# MINUTE} other {# MINUTES}}',
+  'unit.pauses': '{count, plural, one {# PAUSE} other {# PAUSES}}',
+} satisfies Record<string, string>;
+
+export default en;
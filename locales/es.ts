@@ -0,0 +1,202 @@
+import { Translations } from './types';
+
+// Spanish UI strings
+const es: Translations = {
+  // App title
+  'app.title': 'Hacia el Abismo',
+  'app.title.prefix': 'Hacia el',
+  'app.title.accent': 'Abismo',
+  'app.subtitle': 'Interfaz de Observación Temporal // OBS-99',
+
+  // Tier names and descriptions
+  'tier.quantum.name': 'Parpadeo Cuántico',
+  'tier.quantum.desc': 'Cambio de fase momentáneo. Inestabilidad rápida.',
+  'tier.neighboring.name': 'Dimensión Vecina',
+  'tier.neighboring.desc': 'Desviación mínima. Anomalías físicas menores.',
+  'tier.mirror.name': 'Grieta Espejo',
+  'tier.mirror.desc': 'Anomalías elevadas. Divergencia biológica detectada.',
+  'tier.imaginary.name': 'Horizonte Imaginario',
+  'tier.imaginary.desc': 'Colapso de la física. Existencia abstracta.',
+  'tier.singularity.name': 'Singularidad Prima',
+  'tier.singularity.desc': 'Colapso total de la realidad. El fin del significado.',
+
+  // Setup
+  'setup.custom': 'Δt personalizado',
+  'setup.customLabel': 'Duración personalizada en minutos',
+  'setup.expedition': 'Expedición',
+  'setup.blocks': 'Bloques',
+  'setup.shortBreak': 'Deriva corta',
+  'setup.longBreak': 'Deriva larga',
+  'setup.on': 'SÍ',
+  'setup.off': 'NO',
+
+  // Buttons and actions
+  'button.initialize': 'Iniciar secuencia',
+  'button.launchExpedition': 'Lanzar expedición',
+  'button.skipBreak': 'Saltar deriva',
+  'button.abort': '[ Aborto de emergencia ]',
+  'button.pause': 'Retener señal',
+  'button.resume': 'Reanudar descenso',
+  'button.return': 'Volver',
+  'button.mute': 'SILENCIAR',
+  'button.unmute': 'ACTIVAR SONIDO',
+  'button.notificationsOn': 'ACTIVAR NOTIFICACIONES',
+  'button.notificationsOff': 'DESACTIVAR NOTIFICACIONES',
+  'button.sync': 'SINCRONIZAR',
+  'button.reestablishSignal': 'RESTABLECER SEÑAL',
+  'button.enableMotion': 'Activar efectos de movimiento',
+  'button.secureData': 'Asegurar datos y volver',
+  'button.accessArchives': 'Acceder a los archivos',
+
+  // Status messages
+  'status.ready': 'Sistema listo. Esperando coordenadas.',
+  'status.liveSignal': '● Señal en directo',
+  'status.timeDilation': 'DILATACIÓN TEMPORAL EN CURSO',
+  'status.paused': 'ANCLA TEMPORAL ACTIVADA',
+  'status.signalHeld': '○ Señal retenida',
+  'status.block': 'Bloque',
+  'status.nextBlock': 'Siguiente bloque',
+  'status.shortBreak': '◌ Deriva entre fases',
+  'status.longBreak': '◌ Deriva profunda',
+  'status.breakDesc': 'CASCO ENFRIÁNDOSE. SENSORES EN REPOSO.',
+  'status.decrypting': 'DESCIFRANDO TELEMETRÍA...',
+  'notify.sessionComplete': 'Sesión completada',
+  'notify.sessionCompleteBody': 'Señal fijada. Descifrando la transmisión...',
+  'notify.blockComplete': 'Bloque completado',
+  'notify.blockCompleteBody': 'Fase de deriva activada. Descansa entre dimensiones.',
+  'notify.breakOver': 'Fin de la deriva',
+  'notify.breakOverBody': 'Descendiendo al siguiente bloque.',
+  'notify.reportReady': 'Transmisión recibida',
+  'status.signalLost': 'SEÑAL PERDIDA',
+  'status.signalLostDesc': 'Fallo de alineación de fase. Coordenadas perdidas.',
+
+  // Terminal
+  'terminal.title': '// Terminal_de_Gestión_de_Órdenes',
+  'terminal.placeholder': 'Introduce una directiva... #etiqueta',
+  'terminal.empty': 'No hay directivas activas.',
+  'terminal.record': 'REG',
+  'terminal.target': 'Objetivo de la sesión',
+  'terminal.setTarget': 'Fijar como objetivo de la sesión',
+  'terminal.focusTime': 'Tiempo de concentración acumulado',
+  'terminal.completed': 'Completada',
+  'terminal.completedAt': 'Completada el',
+  'terminal.details': 'Notas, etiquetas y estimación',
+  'terminal.notesPlaceholder': 'Notas de campo...',
+  'terminal.tagPlaceholder': '+ etiqueta',
+  'terminal.removeTag': 'Quitar etiqueta',
+  'terminal.estimate': 'Estimación',
+  'terminal.sessions': 'sesiones',
+  'terminal.reorder': 'Arrastra para reordenar',
+  'terminal.editHint': 'Doble clic para editar',
+
+  // Archive
+  'archive.title': 'Almacén Profundo',
+  'archive.subtitle': '// ARTEFACTOS_DIMENSIONALES_RECUPERADOS:',
+  'archive.searchPlaceholder': 'Buscar códigos, imágenes y registros...',
+  'archive.sort': 'Orden',
+  'archive.sort.newest': 'Más recientes',
+  'archive.sort.oldest': 'Más antiguos',
+  'archive.sort.longest': 'Δt más largo',
+  'archive.sort.shortest': 'Δt más corto',
+  'archive.sort.entropyHigh': 'Entropía ↓',
+  'archive.sort.entropyLow': 'Entropía ↑',
+  'archive.filters': 'Filtros',
+  'archive.filter.tier': 'Nivel',
+  'archive.filter.stability': 'Integridad',
+  'archive.filter.entropy': 'Entropía',
+  'archive.filter.entropyMin': 'Entropía mínima',
+  'archive.filter.entropyMax': 'Entropía máxima',
+  'archive.filter.date': 'Fecha',
+  'archive.filter.from': 'Desde',
+  'archive.filter.to': 'Hasta',
+  'archive.filter.source': 'Fuente',
+  'archive.source.all': 'Todas',
+  'archive.source.signal': 'Señal en directo',
+  'archive.source.fallback': 'Respaldo del sistema',
+  'archive.source.lost': 'Señal perdida',
+  'archive.reset': 'Restablecer filtros',
+  'archive.noResults': 'Ningún artefacto coincide con estas coordenadas.',
+  'archive.export': 'EXPORTAR',
+  'archive.import': 'IMPORTAR',
+  'archive.importResult': 'RECUPERADOS',
+  'archive.importDuplicates': 'DUPLICADOS',
+  'archive.importRejected': 'CORRUPTOS',
+  'archive.importError': 'Transmisión ilegible.',
+  'archive.lost.corrupted': 'Transmisión corrupta. Fragmento irrecuperable.',
+  'archive.task': 'DIRECTIVA:',
+  'archive.revisited': 'REVISITADA:',
+  'archive.echoes': 'ECOS:',
+  'archive.lost.partial': 'PARCIAL',
+  'status.partialArchived': 'TRANSMISIÓN PARCIAL ARCHIVADA',
+  'button.stats': 'ESTADÍSTICAS',
+  'stats.title': 'MÉTRICAS DE OBSERVACIÓN',
+  'stats.subtitle': '// SESIONES_REGISTRADAS:',
+  'stats.today': 'Hoy',
+  'stats.thisWeek': 'Esta semana',
+  'stats.thisMonth': 'Este mes',
+  'stats.currentStreak': 'Racha actual',
+  'stats.longestStreak': 'Racha más larga',
+  'stats.days': 'DÍAS',
+  'stats.avgEntropy': 'Entropía media',
+  'stats.completionRate': 'Tasa de finalización',
+  'stats.aborted': 'Señales perdidas',
+  'stats.minutes': 'Minutos de concentración',
+  'stats.period.day': 'DÍA',
+  'stats.period.week': 'SEMANA',
+  'stats.period.month': 'MES',
+  'stats.tiers': 'Distribución por nivel',
+  'stats.heatmap': 'Calendario de observación',
+  'stats.less': 'Menos',
+  'stats.more': 'Más',
+
+  // Report
+  'report.visualFeed': 'Imagen_Visual',
+  'report.observerLog': 'Registro_del_Observador',
+  'report.entropy': 'ENTROPÍA:',
+  'report.integrity': 'INTEGRIDAD:',
+  'report.refId': 'ID_REF:',
+  'report.timestamp': 'MARCA DE TIEMPO:',
+  'report.duration': 'DURACIÓN:',
+  'report.directive': 'DIRECTIVA:',
+  'report.interruptions': 'INTERRUPCIONES:',
+  'report.awaitingSignal': 'REGISTRO SIN CONEXIÓN // TRANSMISIÓN REAL EN COLA',
+  'report.fallback': 'RESPALDO DEL SISTEMA //',
+  'report.reestablishing': 'RESTABLECIENDO...',
+  'report.signalStillLost': 'La señal sigue perdida. Inténtalo más tarde.',
+  'report.chapters': 'Capítulos_de_la_Expedición',
+  'report.chapter': 'CAP.',
+  'report.official': 'Registro',
+  'report.record': 'Oficial',
+  'report.receiving': 'RECIBIENDO...',
+  'report.share': 'TRANSMITIR:',
+  'report.shareLink': 'ENLACE PÚBLICO',
+  'report.linkCopied': 'Enlace copiado al portapapeles.',
+  'report.shareUnavailable': 'Los enlaces públicos no están activados en este relé.',
+  'report.shareFailed': 'La transmisión falló.',
+
+  // Sync
+  'sync.title': 'Relé de Señal',
+  'sync.description': 'Refleja el archivo y las directivas en todos tus dispositivos.',
+  'sync.create': 'ABRIR RELÉ',
+  'sync.codePlaceholder': 'CÓDIGO DE EMPAREJAMIENTO',
+  'sync.join': 'UNIRSE',
+  'sync.now': 'SINCRONIZAR AHORA',
+  'sync.pair': 'EMPAREJAR DISPOSITIVO',
+  'sync.pairHint': 'Introduce este código en el otro dispositivo en los próximos 10 minutos.',
+  'sync.unlink': 'DESVINCULAR',
+  'sync.lastSynced': 'Última sincronización:',
+  'sync.never': 'nunca',
+  'sync.status.syncing': 'Sincronizando...',
+  'sync.status.error': 'Relé inaccesible. Se reintentará con el próximo cambio.',
+  'sync.status.tooLarge': 'Archivo demasiado grande para sincronizar. Expórtalo y elimina entradas antiguas para continuar.',
+  'sync.unavailable': 'La sincronización no está activada en este relé.',
+  'sync.invalidCode': 'Código de emparejamiento no reconocido o caducado.',
+  'sync.failed': 'La solicitud al relé falló.',
+
+  // Units
+  'unit.min': 'MIN',
+  'unit.minutes': '{count, plural, one {# MINUTO} other {# MINUTOS}}',
+  'unit.pauses': '{count, plural, one {# PAUSA} other {# PAUSAS}}',
+};
+
+export default es;
@@ -0,0 +1,67 @@
+// A small subset of ICU MessageFormat for dictionary strings:
+//   '{name}'                                  -> the parameter, numbers formatted for the locale
+//   '{count, plural, =0 {...} one {# MIN} other {# MIN}}' -> plural branch, # = the count
+// Anything else in braces is left as written.
+
+export type MessageParams = Record<string, string | number>;
+
+// Index of the brace closing the one at `open`, or -1
+const findClose = (message: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    else if (message[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// '=0 {none} one {# item} other {# items}' -> { '=0': 'none', one: '# item', ... }
+const parseOptions = (source: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  const selector = /\s*(=\d+|\w+)\s*\{/y;
+  let match: RegExpExecArray | null;
+  while ((match = selector.exec(source))) {
+    const open = selector.lastIndex - 1;
+    const close = findClose(source, open);
+    if (close === -1) break;
+    options[match[1]] = source.slice(open + 1, close);
+    selector.lastIndex = close + 1;
+  }
+  return options;
+};
+
+const formatArgument = (body: string, params: MessageParams, locale: string): string => {
+  const match = /^\s*(\w+)\s*(?:,\s*(\w+)\s*,([\s\S]*))?$/.exec(body);
+  const value = match ? params[match[1]] : undefined;
+  if (!match || value === undefined) return `{${body}}`;
+
+  if (match[2] !== 'plural') {
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  }
+  const count = Number(value);
+  const options = parseOptions(match[3]);
+  const branch =
+    options[`=${count}`] ?? options[new Intl.PluralRules(locale).select(count)] ?? options.other ?? '';
+  return formatMessage(
+    branch.replace(/#/g, new Intl.NumberFormat(locale).format(count)),
+    params,
+    locale,
+  );
+};
+
+export const formatMessage = (
+  message: string,
+  params: MessageParams,
+  locale: string,
+): string => {
+  let result = '';
+  let index = 0;
+  while (index < message.length) {
+    const open = message.indexOf('{', index);
+    const close = open === -1 ? -1 : findClose(message, open);
+    if (close === -1) return result + message.slice(index);
+    result += message.slice(index, open) + formatArgument(message.slice(open + 1, close), params, locale);
+    index = close + 1;
+  }
+  return result;
+};
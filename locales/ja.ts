@@ -0,0 +1,202 @@
+import { Translations } from './types';
+
+// Japanese UI strings
+const ja: Translations = {
+  // App title
+  'app.title': '深淵を覗く',
+  'app.title.prefix': '深淵を',
+  'app.title.accent': '覗く',
+  'app.subtitle': '時間観測インターフェース // OBS-99',
+
+  // Tier names and descriptions
+  'tier.quantum.name': '量子フリッカー',
+  'tier.quantum.desc': '瞬間的な位相シフト。急速な不安定化。',
+  'tier.neighboring.name': '隣接次元',
+  'tier.neighboring.desc': '最小限の偏差。軽微な物理異常。',
+  'tier.mirror.name': '鏡像の裂け目',
+  'tier.mirror.desc': '高度な異常。生物学的分岐を検出。',
+  'tier.imaginary.name': '虚数の地平',
+  'tier.imaginary.desc': '物理法則の崩壊。抽象的存在。',
+  'tier.singularity.name': '特異点プライム',
+  'tier.singularity.desc': '現実の完全崩壊。意味の終焉。',
+
+  // Setup
+  'setup.custom': 'カスタム Δt',
+  'setup.customLabel': 'カスタム時間（分）',
+  'setup.expedition': '遠征',
+  'setup.blocks': 'ブロック',
+  'setup.shortBreak': '短い漂流',
+  'setup.longBreak': '長い漂流',
+  'setup.on': 'オン',
+  'setup.off': 'オフ',
+
+  // Buttons and actions
+  'button.initialize': 'シーケンス開始',
+  'button.launchExpedition': '遠征を開始',
+  'button.skipBreak': '漂流をスキップ',
+  'button.abort': '[ 緊急中止 ]',
+  'button.pause': '信号を保持',
+  'button.resume': '降下を再開',
+  'button.return': '戻る',
+  'button.mute': 'ミュート',
+  'button.unmute': 'ミュート解除',
+  'button.notificationsOn': '通知を有効化',
+  'button.notificationsOff': '通知を無効化',
+  'button.sync': '同期',
+  'button.reestablishSignal': '信号を再確立',
+  'button.enableMotion': 'モーション効果を有効化',
+  'button.secureData': 'データを保存して戻る',
+  'button.accessArchives': 'アーカイブにアクセス',
+
+  // Status messages
+  'status.ready': 'システム準備完了。座標を待機中。',
+  'status.liveSignal': '● ライブ信号フィード',
+  'status.timeDilation': '時間の遅延が進行中',
+  'status.paused': '時間アンカー作動中',
+  'status.signalHeld': '○ 信号保持中',
+  'status.block': 'ブロック',
+  'status.nextBlock': '次のブロック',
+  'status.shortBreak': '◌ フェーズ間漂流',
+  'status.longBreak': '◌ 深層漂流',
+  'status.breakDesc': '船体冷却中。センサー休止。',
+  'status.decrypting': 'テレメトリを復号中...',
+  'notify.sessionComplete': 'セッション完了',
+  'notify.sessionCompleteBody': '信号をロック。伝送を復号しています...',
+  'notify.blockComplete': 'ブロック完了',
+  'notify.blockCompleteBody': '漂流フェーズ開始。次元の狭間で休息を。',
+  'notify.breakOver': '漂流終了',
+  'notify.breakOverBody': '次のブロックへ降下します。',
+  'notify.reportReady': '伝送を受信',
+  'status.signalLost': '信号消失',
+  'status.signalLostDesc': '位相整列に失敗。座標が失われました。',
+
+  // Terminal
+  'terminal.title': '// 指令管理ターミナル',
+  'terminal.placeholder': '指令を入力... #タグ',
+  'terminal.empty': '有効な指令はありません。',
+  'terminal.record': '記録',
+  'terminal.target': 'セッション目標',
+  'terminal.setTarget': 'セッション目標に設定',
+  'terminal.focusTime': '累積集中時間',
+  'terminal.completed': '完了',
+  'terminal.completedAt': '完了日時',
+  'terminal.details': 'メモ・タグ・見積もり',
+  'terminal.notesPlaceholder': 'フィールドノート...',
+  'terminal.tagPlaceholder': '+ タグ',
+  'terminal.removeTag': 'タグを削除',
+  'terminal.estimate': '見積もり',
+  'terminal.sessions': 'セッション',
+  'terminal.reorder': 'ドラッグで並べ替え',
+  'terminal.editHint': 'ダブルクリックで編集',
+
+  // Archive
+  'archive.title': '深層ストレージ',
+  'archive.subtitle': '// 回収された次元遺物：',
+  'archive.searchPlaceholder': 'コード・フィード・ログを検索...',
+  'archive.sort': '並べ替え',
+  'archive.sort.newest': '新しい順',
+  'archive.sort.oldest': '古い順',
+  'archive.sort.longest': 'Δt が長い順',
+  'archive.sort.shortest': 'Δt が短い順',
+  'archive.sort.entropyHigh': 'エントロピー ↓',
+  'archive.sort.entropyLow': 'エントロピー ↑',
+  'archive.filters': 'フィルター',
+  'archive.filter.tier': '階層',
+  'archive.filter.stability': '完全性',
+  'archive.filter.entropy': 'エントロピー',
+  'archive.filter.entropyMin': '最小エントロピー',
+  'archive.filter.entropyMax': '最大エントロピー',
+  'archive.filter.date': '日付',
+  'archive.filter.from': '開始日',
+  'archive.filter.to': '終了日',
+  'archive.filter.source': 'ソース',
+  'archive.source.all': 'すべて',
+  'archive.source.signal': 'ライブ信号',
+  'archive.source.fallback': 'システム代替',
+  'archive.source.lost': '消失信号',
+  'archive.reset': 'フィルターをリセット',
+  'archive.noResults': 'この座標に一致する遺物はありません。',
+  'archive.export': 'エクスポート',
+  'archive.import': 'インポート',
+  'archive.importResult': '回収',
+  'archive.importDuplicates': '重複',
+  'archive.importRejected': '破損',
+  'archive.importError': '伝送を読み取れません。',
+  'archive.lost.corrupted': '伝送が破損しています。断片は回収不能。',
+  'archive.task': '指令：',
+  'archive.revisited': '再訪：',
+  'archive.echoes': '残響：',
+  'archive.lost.partial': '部分的',
+  'status.partialArchived': '部分伝送をアーカイブしました',
+  'button.stats': '統計',
+  'stats.title': '観測メトリクス',
+  'stats.subtitle': '// 記録されたセッション：',
+  'stats.today': '今日',
+  'stats.thisWeek': '今週',
+  'stats.thisMonth': '今月',
+  'stats.currentStreak': '現在の連続記録',
+  'stats.longestStreak': '最長連続記録',
+  'stats.days': '日',
+  'stats.avgEntropy': '平均エントロピー',
+  'stats.completionRate': '完了率',
+  'stats.aborted': '信号消失',
+  'stats.minutes': '集中時間（分）',
+  'stats.period.day': '日',
+  'stats.period.week': '週',
+  'stats.period.month': '月',
+  'stats.tiers': '階層分布',
+  'stats.heatmap': '観測カレンダー',
+  'stats.less': '少',
+  'stats.more': '多',
+
+  // Report
+  'report.visualFeed': '視覚フィード',
+  'report.observerLog': '観測者ログ',
+  'report.entropy': 'エントロピー：',
+  'report.integrity': '完全性：',
+  'report.refId': '参照ID：',
+  'report.timestamp': 'タイムスタンプ：',
+  'report.duration': '時間：',
+  'report.directive': '指令：',
+  'report.interruptions': '中断：',
+  'report.awaitingSignal': 'オフライン記録 // 実伝送を待機中',
+  'report.fallback': 'システム代替 //',
+  'report.reestablishing': '再確立中...',
+  'report.signalStillLost': '信号はまだ失われています。後でもう一度お試しください。',
+  'report.chapters': '遠征チャプター',
+  'report.chapter': '第',
+  'report.official': '公式',
+  'report.record': '記録',
+  'report.receiving': '受信中...',
+  'report.share': '送信：',
+  'report.shareLink': '公開リンク',
+  'report.linkCopied': 'リンクをクリップボードにコピーしました。',
+  'report.shareUnavailable': 'このリレーでは公開リンクが有効になっていません。',
+  'report.shareFailed': '送信に失敗しました。',
+
+  // Sync
+  'sync.title': '信号リレー',
+  'sync.description': 'アーカイブと指令をデバイス間で同期します。',
+  'sync.create': 'リレーを開く',
+  'sync.codePlaceholder': 'ペアリングコード',
+  'sync.join': '参加',
+  'sync.now': '今すぐ同期',
+  'sync.pair': 'デバイスをペアリング',
+  'sync.pairHint': '10分以内にもう一方のデバイスでこのコードを入力してください。',
+  'sync.unlink': 'リンク解除',
+  'sync.lastSynced': '最終同期：',
+  'sync.never': 'なし',
+  'sync.status.syncing': '同期中...',
+  'sync.status.error': 'リレーに接続できません。次の変更時に再試行します。',
+  'sync.status.tooLarge': 'アーカイブが大きすぎて同期できません。エクスポートして古い記録を削除すると再開します。',
+  'sync.unavailable': 'このリレーでは同期が有効になっていません。',
+  'sync.invalidCode': 'ペアリングコードが認識されないか、期限切れです。',
+  'sync.failed': 'リレーへのリクエストに失敗しました。',
+
+  // Units
+  'unit.min': '分',
+  'unit.minutes': '{count} 分',
+  'unit.pauses': '{count} 回',
+};
+
+export default ja;
@@ -0,0 +1,7 @@
+import type en from './en';
+
+// Flat key -> text map; one per language, loaded on demand (see I18nContext).
+// English defines the keys, so a locale missing one (or adding a stray one)
+// fails to compile.
+export type TranslationKey = keyof typeof en;
+export type Translations = Record<TranslationKey, string>;
@@ -0,0 +1,202 @@
+import { Translations } from './types';
+
+// Simplified Chinese UI strings
+const zh: Translations = {
+  // App title
+  'app.title': '凝视深渊',
+  'app.title.prefix': '凝视',
+  'app.title.accent': '深渊',
+  'app.subtitle': '时间观测接口 // OBS-99',
+
+  // Tier names and descriptions
+  'tier.quantum.name': '量子闪烁',
+  'tier.quantum.desc': '瞬时相位偏移，快速不稳定。',
+  'tier.neighboring.name': '邻近维度',
+  'tier.neighboring.desc': '最小偏差，轻微物理异常。',
+  'tier.mirror.name': '镜像裂隙',
+  'tier.mirror.desc': '高度异常，检测到生物分歧。',
+  'tier.imaginary.name': '虚空地平线',
+  'tier.imaginary.desc': '物理崩溃，抽象存在。',
+  'tier.singularity.name': '奇点本源',
+  'tier.singularity.desc': '现实全面崩塌，意义的终结。',
+
+  // Setup
+  'setup.custom': '自定义 Δt',
+  'setup.customLabel': '自定义时长（分钟）',
+  'setup.expedition': '远征模式',
+  'setup.blocks': '区段',
+  'setup.shortBreak': '短漂流',
+  'setup.longBreak': '长漂流',
+  'setup.on': '开',
+  'setup.off': '关',
+
+  // Buttons and actions
+  'button.initialize': '启动序列',
+  'button.launchExpedition': '启动远征',
+  'button.skipBreak': '跳过漂流',
+  'button.abort': '[ 紧急中止 ]',
+  'button.pause': '保持信号',
+  'button.resume': '继续下潜',
+  'button.return': '返回',
+  'button.mute': '静音',
+  'button.unmute': '取消静音',
+  'button.notificationsOn': '开启通知',
+  'button.notificationsOff': '关闭通知',
+  'button.sync': '同步',
+  'button.reestablishSignal': '重建信号',
+  'button.enableMotion': '启用动态效果',
+  'button.secureData': '保存数据并返回',
+  'button.accessArchives': '访问档案库',
+
+  // Status messages
+  'status.ready': '系统就绪，等待坐标输入。',
+  'status.liveSignal': '● 实时信号馈送',
+  'status.timeDilation': '时间膨胀进行中',
+  'status.paused': '时间锚已启用',
+  'status.signalHeld': '○ 信号保持中',
+  'status.block': '区段',
+  'status.nextBlock': '下一区段',
+  'status.shortBreak': '◌ 相位间漂流',
+  'status.longBreak': '◌ 深度漂流',
+  'status.breakDesc': '舰体冷却中，传感器休眠。',
+  'status.decrypting': '正在解密遥测数据...',
+  'notify.sessionComplete': '会话完成',
+  'notify.sessionCompleteBody': '信号已锁定，正在解密传输...',
+  'notify.blockComplete': '区块完成',
+  'notify.blockCompleteBody': '漂流阶段开始，在维度之间休整。',
+  'notify.breakOver': '漂流结束',
+  'notify.breakOverBody': '正在下潜至下一区块。',
+  'notify.reportReady': '已接收传输',
+  'status.signalLost': '信号丢失',
+  'status.signalLostDesc': '相位对齐失败，坐标丢失。',
+
+  // Terminal
+  'terminal.title': '// 指令管理终端',
+  'terminal.placeholder': '输入指令... #标签',
+  'terminal.empty': '暂无活动指令。',
+  'terminal.record': '记录',
+  'terminal.target': '当前会话目标',
+  'terminal.setTarget': '设为会话目标',
+  'terminal.focusTime': '累计专注时间',
+  'terminal.completed': '已完成',
+  'terminal.completedAt': '完成于',
+  'terminal.details': '备注、标签与预估',
+  'terminal.notesPlaceholder': '现场笔记...',
+  'terminal.tagPlaceholder': '+ 标签',
+  'terminal.removeTag': '移除标签',
+  'terminal.estimate': '预估',
+  'terminal.sessions': '次会话',
+  'terminal.reorder': '拖动以排序',
+  'terminal.editHint': '双击编辑',
+
+  // Archive
+  'archive.title': '深层存储',
+  'archive.subtitle': '// 已恢复的维度文物：',
+  'archive.searchPlaceholder': '搜索编号、视觉馈送与日志...',
+  'archive.sort': '排序',
+  'archive.sort.newest': '最新优先',
+  'archive.sort.oldest': '最早优先',
+  'archive.sort.longest': '时长最长',
+  'archive.sort.shortest': '时长最短',
+  'archive.sort.entropyHigh': '熵值 ↓',
+  'archive.sort.entropyLow': '熵值 ↑',
+  'archive.filters': '筛选',
+  'archive.filter.tier': '层级',
+  'archive.filter.stability': '完整性',
+  'archive.filter.entropy': '熵值',
+  'archive.filter.entropyMin': '最小熵值',
+  'archive.filter.entropyMax': '最大熵值',
+  'archive.filter.date': '日期',
+  'archive.filter.from': '起始日期',
+  'archive.filter.to': '结束日期',
+  'archive.filter.source': '来源',
+  'archive.source.all': '全部',
+  'archive.source.signal': '实时信号',
+  'archive.source.fallback': '系统备用',
+  'archive.source.lost': '信号丢失',
+  'archive.reset': '重置筛选',
+  'archive.noResults': '没有符合这些坐标的文物。',
+  'archive.export': '导出',
+  'archive.import': '导入',
+  'archive.importResult': '已恢复',
+  'archive.importDuplicates': '重复',
+  'archive.importRejected': '已损坏',
+  'archive.importError': '无法解析的传输。',
+  'archive.lost.corrupted': '传输损坏。碎片无法恢复。',
+  'archive.task': '指令：',
+  'archive.revisited': '重访：',
+  'archive.echoes': '回响：',
+  'archive.lost.partial': '残缺',
+  'status.partialArchived': '残缺传输已归档',
+  'button.stats': '统计',
+  'stats.title': '观测统计',
+  'stats.subtitle': '// 已记录会话：',
+  'stats.today': '今日',
+  'stats.thisWeek': '本周',
+  'stats.thisMonth': '本月',
+  'stats.currentStreak': '当前连续',
+  'stats.longestStreak': '最长连续',
+  'stats.days': '天',
+  'stats.avgEntropy': '平均熵值',
+  'stats.completionRate': '完成率',
+  'stats.aborted': '信号丢失',
+  'stats.minutes': '专注分钟',
+  'stats.period.day': '日',
+  'stats.period.week': '周',
+  'stats.period.month': '月',
+  'stats.tiers': '层级分布',
+  'stats.heatmap': '观测日历',
+  'stats.less': '少',
+  'stats.more': '多',
+
+  // Report
+  'report.visualFeed': '视觉馈送',
+  'report.observerLog': '观察者日志',
+  'report.entropy': '熵值：',
+  'report.integrity': '完整性：',
+  'report.refId': '参考编号：',
+  'report.timestamp': '时间戳：',
+  'report.duration': '时长：',
+  'report.directive': '指令：',
+  'report.interruptions': '中断：',
+  'report.awaitingSignal': '离线记录 // 真实传输排队中',
+  'report.fallback': '系统备用 //',
+  'report.reestablishing': '重建中...',
+  'report.signalStillLost': '信号仍然丢失，请稍后再试。',
+  'report.chapters': '远征章节',
+  'report.chapter': '章',
+  'report.official': '官方',
+  'report.record': '记录',
+  'report.receiving': '接收中...',
+  'report.share': '传输：',
+  'report.shareLink': '公开链接',
+  'report.linkCopied': '链接已复制到剪贴板。',
+  'report.shareUnavailable': '此中继未开启公开链接。',
+  'report.shareFailed': '传输失败。',
+
+  // Sync
+  'sync.title': '信号中继',
+  'sync.description': '在你的设备之间同步档案与指令。',
+  'sync.create': '开启中继',
+  'sync.codePlaceholder': '配对码',
+  'sync.join': '加入',
+  'sync.now': '立即同步',
+  'sync.pair': '配对设备',
+  'sync.pairHint': '请在 10 分钟内于另一台设备上输入此代码。',
+  'sync.unlink': '解除连接',
+  'sync.lastSynced': '上次同步：',
+  'sync.never': '从未',
+  'sync.status.syncing': '同步中...',
+  'sync.status.error': '中继无法连接，将在下次变更时重试。',
+  'sync.status.tooLarge': '档案过大，无法同步。导出并删除旧记录后即可恢复。',
+  'sync.unavailable': '此中继未开启同步。',
+  'sync.invalidCode': '配对码无效或已过期。',
+  'sync.failed': '中继请求失败。',
+
+  // Units
+  'unit.min': '分钟',
+  'unit.minutes': '{count} 分钟',
+  'unit.pauses': '{count} 次',
+};
+
+export default zh;
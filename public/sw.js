@@ -0,0 +1,94 @@
+// Offline shell for the installed app. Built assets are precached from the
+// list the build writes to /precache-manifest.json; CDN styles and fonts are
+// cached as they are used. API routes and share pages always go to the network.
+
+// Replaced with a hash of the precache list at build time (see vite.config.ts)
+const CACHE_VERSION = "dev";
+const SHELL_CACHE = `abyss-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `abyss-runtime-${CACHE_VERSION}`;
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png"];
+const CDN_HOSTS = ["cdn.tailwindcss.com", "fonts.googleapis.com", "fonts.gstatic.com", "esm.sh"];
+
+const readPrecacheList = async () => {
+  try {
+    const response = await fetch("/precache-manifest.json", { cache: "no-store" });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return []; // Dev server: nothing is built yet
+  }
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll([...SHELL_URLS, ...(await readPrecacheList())]);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+// Drop caches from earlier versions
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, RUNTIME_CACHE];
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// Pages: network first so deploys show up immediately, cached shell when offline
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match("/")) ?? Response.error();
+  }
+};
+
+const fetchAndCache = async (request) => {
+  const response = await fetch(request);
+  // Cross-origin files without CORS come back opaque; cache them anyway
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Hashed assets never change, CDN files rarely do: serve from cache,
+// refreshing CDN entries in the background
+const handleCached = async (request, revalidate) => {
+  const cached = await caches.match(request);
+  if (!cached) return fetchAndCache(request);
+  if (revalidate) fetchAndCache(request).catch(() => {});
+  return cached;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/s/")) return;
+    if (request.mode === "navigate") {
+      event.respondWith(handleNavigation(request));
+    } else if (url.pathname.startsWith("/assets/")) {
+      event.respondWith(handleCached(request, false));
+    }
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleCached(request, true));
+  }
+});
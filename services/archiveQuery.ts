@@ -0,0 +1,249 @@
+import {
+  ArchiveEntry,
+  FocusTier,
+  Stability,
+  STABILITY_LEVELS,
+  getEntryMinutes,
+  getEntryTier,
+  isSignalLost,
+} from "../types";
+
+export type ArchiveSort =
+  | "newest"
+  | "oldest"
+  | "longest"
+  | "shortest"
+  | "entropyHigh"
+  | "entropyLow";
+
+export type ArchiveSource = "all" | "signal" | "fallback" | "lost";
+
+export const ARCHIVE_SOURCES: ArchiveSource[] = [
+  "all",
+  "signal",
+  "fallback",
+  "lost",
+];
+
+export interface ArchiveQuery {
+  search: string;
+  tiers: FocusTier[]; // empty = every tier
+  stability: Stability[]; // empty = every state
+  entropyMin: number;
+  entropyMax: number;
+  from: string; // YYYY-MM-DD (local), empty = open
+  to: string; // YYYY-MM-DD (local), empty = open
+  source: ArchiveSource; // live AI signal, system-generated fallback or aborted session
+  sort: ArchiveSort;
+}
+
+export const ARCHIVE_SORTS: ArchiveSort[] = [
+  "newest",
+  "oldest",
+  "longest",
+  "shortest",
+  "entropyHigh",
+  "entropyLow",
+];
+
+export const DEFAULT_ARCHIVE_QUERY: ArchiveQuery = {
+  search: "",
+  tiers: [],
+  stability: [],
+  entropyMin: 0,
+  entropyMax: 1,
+  from: "",
+  to: "",
+  source: "all",
+  sort: "newest",
+};
+
+// URL parameter names (kept short so shared links stay readable)
+const PARAMS = {
+  search: "q",
+  tiers: "tier",
+  stability: "state",
+  entropyMin: "emin",
+  entropyMax: "emax",
+  from: "from",
+  to: "to",
+  source: "src",
+  sort: "sort",
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const clampEntropy = (value: string | null, fallback: number) => {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return isNaN(parsed) ? fallback : Math.min(1, Math.max(0, parsed));
+};
+
+export const parseArchiveQuery = (search: string): ArchiveQuery => {
+  const params = new URLSearchParams(search);
+  const list = (key: string) =>
+    (params.get(key) ?? "").split(",").filter(Boolean);
+
+  const tiers = list(PARAMS.tiers)
+    .map(Number)
+    .filter((v) => Object.values(FocusTier).includes(v)) as FocusTier[];
+  const stability = list(PARAMS.stability).filter((v) =>
+    STABILITY_LEVELS.includes(v as Stability),
+  ) as Stability[];
+  const source = params.get(PARAMS.source) as ArchiveSource | null;
+  const sort = params.get(PARAMS.sort) as ArchiveSort | null;
+  const from = params.get(PARAMS.from) ?? "";
+  const to = params.get(PARAMS.to) ?? "";
+
+  return {
+    search: params.get(PARAMS.search) ?? "",
+    tiers,
+    stability,
+    entropyMin: clampEntropy(params.get(PARAMS.entropyMin), 0),
+    entropyMax: clampEntropy(params.get(PARAMS.entropyMax), 1),
+    from: DATE_PATTERN.test(from) ? from : "",
+    to: DATE_PATTERN.test(to) ? to : "",
+    source: source && ARCHIVE_SOURCES.includes(source) ? source : "all",
+    sort: sort && ARCHIVE_SORTS.includes(sort) ? sort : "newest",
+  };
+};
+
+// Only non-default values are written, so an unfiltered archive leaves a clean URL
+export const serializeArchiveQuery = (query: ArchiveQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search.trim()) params.set(PARAMS.search, query.search.trim());
+  if (query.tiers.length) params.set(PARAMS.tiers, query.tiers.join(","));
+  if (query.stability.length)
+    params.set(PARAMS.stability, query.stability.join(","));
+  if (query.entropyMin > 0)
+    params.set(PARAMS.entropyMin, query.entropyMin.toString());
+  if (query.entropyMax < 1)
+    params.set(PARAMS.entropyMax, query.entropyMax.toString());
+  if (query.from) params.set(PARAMS.from, query.from);
+  if (query.to) params.set(PARAMS.to, query.to);
+  if (query.source !== "all") params.set(PARAMS.source, query.source);
+  if (query.sort !== "newest") params.set(PARAMS.sort, query.sort);
+  return params;
+};
+
+// True when any narrowing filter besides the free-text search is set
+export const hasActiveFilters = (query: ArchiveQuery): boolean =>
+  query.tiers.length > 0 ||
+  query.stability.length > 0 ||
+  query.entropyMin > 0 ||
+  query.entropyMax < 1 ||
+  query.from !== "" ||
+  query.to !== "" ||
+  query.source !== "all";
+
+export const hasArchiveQuery = (search: string): boolean => {
+  const params = new URLSearchParams(search);
+  return Object.values(PARAMS).some((key) => params.has(key));
+};
+
+// Strip archive parameters from a query string, keeping anything else
+export const clearArchiveQuery = (search: string): URLSearchParams => {
+  const params = new URLSearchParams(search);
+  Object.values(PARAMS).forEach((key) => params.delete(key));
+  return params;
+};
+
+// Local-day bounds for the YYYY-MM-DD date inputs
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+// Epoch ms bounds of the date filter (open ends are infinite)
+export const getQueryTimeRange = (query: ArchiveQuery) => ({
+  from: query.from ? startOfDay(query.from) : -Infinity,
+  to: query.to ? endOfDay(query.to) : Infinity,
+});
+
+// True when storage can answer the query from its time and tier indexes alone
+export const isIndexedQuery = (query: ArchiveQuery): boolean =>
+  !query.search.trim() &&
+  query.stability.length === 0 &&
+  query.entropyMin === 0 &&
+  query.entropyMax === 1 &&
+  query.source === "all" &&
+  (query.sort === "newest" || query.sort === "oldest");
+
+const getSearchText = (entry: ArchiveEntry) =>
+  (isSignalLost(entry)
+    ? [entry.taskContext]
+    : [
+        entry.dimensionCode,
+        entry.environment,
+        entry.log,
+        entry.taskContext ?? "",
+        ...(entry.chapters ?? []).flatMap((c) => [
+          c.dimensionCode,
+          c.environment,
+          c.log,
+        ]),
+      ]
+  )
+    .join("\n")
+    .toLowerCase();
+
+// Lost signals carry no entropy reading, so they sink to the end of entropy sorts
+const getEntropy = (entry: ArchiveEntry) =>
+  isSignalLost(entry) ? null : entry.entropy;
+
+const byEntropy = (direction: 1 | -1) => (a: ArchiveEntry, b: ArchiveEntry) => {
+  const ea = getEntropy(a);
+  const eb = getEntropy(b);
+  if (ea === null || eb === null) {
+    return Number(ea === null) - Number(eb === null) || b.timestamp - a.timestamp;
+  }
+  return direction * (ea - eb) || b.timestamp - a.timestamp;
+};
+
+const SORTERS: Record<
+  ArchiveSort,
+  (a: ArchiveEntry, b: ArchiveEntry) => number
+> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  longest: (a, b) =>
+    getEntryMinutes(b) - getEntryMinutes(a) || b.timestamp - a.timestamp,
+  shortest: (a, b) =>
+    getEntryMinutes(a) - getEntryMinutes(b) || b.timestamp - a.timestamp,
+  entropyHigh: byEntropy(-1),
+  entropyLow: byEntropy(1),
+};
+
+export const applyArchiveQuery = (
+  archive: ArchiveEntry[],
+  query: ArchiveQuery,
+): ArchiveEntry[] => {
+  // Every whitespace-separated term has to appear somewhere in the report
+  const terms = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const { from, to } = getQueryTimeRange(query);
+
+  const hasEntropyRange = query.entropyMin > 0 || query.entropyMax < 1;
+
+  return archive
+    .filter((entry) => {
+      if (query.tiers.length && !query.tiers.includes(getEntryTier(entry)))
+        return false;
+      if (entry.timestamp < from || entry.timestamp > to) return false;
+      if (isSignalLost(entry)) {
+        // Readings-based filters can only match complete transmissions
+        if (query.stability.length || hasEntropyRange) return false;
+        if (query.source !== "all" && query.source !== "lost") return false;
+      } else {
+        if (query.stability.length && !query.stability.includes(entry.stability))
+          return false;
+        if (entry.entropy < query.entropyMin || entry.entropy > query.entropyMax)
+          return false;
+        if (query.source === "lost") return false;
+        if (query.source === "signal" && entry.isSystemGenerated) return false;
+        if (query.source === "fallback" && !entry.isSystemGenerated) return false;
+      }
+      if (terms.length) {
+        const text = getSearchText(entry);
+        if (!terms.every((term) => text.includes(term))) return false;
+      }
+      return true;
+    })
+    .sort(SORTERS[query.sort]);
+};
@@ -0,0 +1,216 @@
+import {
+  ArchiveEntry,
+  FocusTier,
+  ObservationReport,
+  getEntryMinutes,
+  getReportTier,
+  isSignalLost,
+} from "../types";
+
+export type StatsPeriod = "day" | "week" | "month";
+
+export interface PeriodBucket {
+  start: number; // epoch ms, local start of the day/week/month
+  minutes: number;
+}
+
+export interface HeatmapCell {
+  date: number; // epoch ms, local midnight
+  minutes: number;
+  level: 0 | 1 | 2 | 3 | 4; // 0 = no focus, 4 = busiest day in range
+  isFuture: boolean;
+}
+
+// Focused minutes include the partial time of lost signals; streaks, tiers and
+// entropy only count completed observations
+export interface ArchiveStats {
+  sessions: number; // completed observations
+  totalMinutes: number;
+  today: number;
+  thisWeek: number;
+  thisMonth: number;
+  currentStreak: number; // days
+  longestStreak: number; // days
+  tierDistribution: Record<FocusTier, number>;
+  averageEntropy: number | null; // null without reports
+  aborted: number;
+  completionRate: number | null; // 0..1, null without any sessions
+}
+
+// ============================================
+// CALENDAR HELPERS (local time, weeks start on Monday)
+// ============================================
+
+const startOf = (timestamp: number, period: StatsPeriod): Date => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === "week") date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  if (period === "month") date.setDate(1);
+  return date;
+};
+
+// Move a period start forwards/backwards; setDate/setMonth keep DST shifts out of the math
+const shift = (date: Date, period: StatsPeriod, amount: number): Date => {
+  const next = new Date(date);
+  if (period === "day") next.setDate(next.getDate() + amount);
+  if (period === "week") next.setDate(next.getDate() + amount * 7);
+  if (period === "month") next.setMonth(next.getMonth() + amount);
+  return next;
+};
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+const getMinutesByDay = (archive: ArchiveEntry[]) => {
+  const byDay = new Map<string, number>();
+  archive.forEach((entry) => {
+    const key = dayKey(new Date(entry.timestamp));
+    byDay.set(key, (byDay.get(key) ?? 0) + getEntryMinutes(entry));
+  });
+  return byDay;
+};
+
+const sumSince = (archive: ArchiveEntry[], since: Date) =>
+  archive
+    .filter((e) => e.timestamp >= since.getTime())
+    .reduce((sum, e) => sum + getEntryMinutes(e), 0);
+
+// ============================================
+// AGGREGATES
+// ============================================
+
+// A streak is alive until a full day passes without a report
+const getStreaks = (archive: ObservationReport[], now: number) => {
+  const days = new Set(archive.map((r) => dayKey(new Date(r.timestamp))));
+  const runFrom = (start: Date) => {
+    let length = 0;
+    let cursor = start;
+    while (days.has(dayKey(cursor))) {
+      length++;
+      cursor = shift(cursor, "day", -1);
+    }
+    return length;
+  };
+
+  const today = startOf(now, "day");
+  const current = days.has(dayKey(today))
+    ? runFrom(today)
+    : runFrom(shift(today, "day", -1));
+
+  // Only walk back from days that end a run
+  let longest = 0;
+  archive.forEach((report) => {
+    const day = startOf(report.timestamp, "day");
+    if (days.has(dayKey(shift(day, "day", 1)))) return;
+    longest = Math.max(longest, runFrom(day));
+  });
+
+  return { current, longest };
+};
+
+export const computeArchiveStats = (
+  archive: ArchiveEntry[],
+  now: number = Date.now(),
+): ArchiveStats => {
+  const reports = archive.filter(
+    (e): e is ObservationReport => !isSignalLost(e),
+  );
+  const aborted = archive.length - reports.length;
+
+  const tierDistribution = Object.fromEntries(
+    Object.values(FocusTier)
+      .filter((v) => typeof v === "number")
+      .map((tier) => [tier, 0]),
+  ) as Record<FocusTier, number>;
+  reports.forEach((report) => tierDistribution[getReportTier(report)]++);
+
+  const { current, longest } = getStreaks(reports, now);
+
+  return {
+    sessions: reports.length,
+    totalMinutes: archive.reduce((sum, e) => sum + getEntryMinutes(e), 0),
+    today: sumSince(archive, startOf(now, "day")),
+    thisWeek: sumSince(archive, startOf(now, "week")),
+    thisMonth: sumSince(archive, startOf(now, "month")),
+    currentStreak: current,
+    longestStreak: longest,
+    tierDistribution,
+    averageEntropy: reports.length
+      ? reports.reduce((sum, r) => sum + r.entropy, 0) / reports.length
+      : null,
+    aborted,
+    completionRate: archive.length ? reports.length / archive.length : null,
+  };
+};
+
+export interface TaskFocus {
+  minutes: number; // includes partial time of lost signals
+  sessions: number; // completed observations only
+}
+
+// Accumulated focus per Terminal directive, keyed by task id
+export const getTaskFocus = (
+  archive: ArchiveEntry[],
+): Record<string, TaskFocus> => {
+  const totals: Record<string, TaskFocus> = {};
+  archive.forEach((entry) => {
+    if (!entry.taskId) return;
+    const total = (totals[entry.taskId] ??= { minutes: 0, sessions: 0 });
+    total.minutes += getEntryMinutes(entry);
+    if (!isSignalLost(entry)) total.sessions++;
+  });
+  return totals;
+};
+
+// Focused minutes for the last `count` periods, oldest first (current period included)
+export const getPeriodSeries = (
+  archive: ArchiveEntry[],
+  period: StatsPeriod,
+  count: number,
+  now: number = Date.now(),
+): PeriodBucket[] => {
+  const current = startOf(now, period);
+  const buckets = Array.from({ length: count }, (_, i) => ({
+    start: shift(current, period, i - count + 1).getTime(),
+    minutes: 0,
+  }));
+  archive.forEach((entry) => {
+    const start = startOf(entry.timestamp, period).getTime();
+    const bucket = buckets.find((b) => b.start === start);
+    if (bucket) bucket.minutes += getEntryMinutes(entry);
+  });
+  return buckets;
+};
+
+// Week columns (Monday..Sunday) ending with the current week
+export const getHeatmap = (
+  archive: ArchiveEntry[],
+  weeks: number,
+  now: number = Date.now(),
+): HeatmapCell[][] => {
+  const byDay = getMinutesByDay(archive);
+  const today = startOf(now, "day").getTime();
+  const firstWeek = shift(startOf(now, "week"), "week", 1 - weeks);
+
+  const columns = Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = shift(firstWeek, "day", w * 7 + d);
+      return {
+        date: date.getTime(),
+        minutes: byDay.get(dayKey(date)) ?? 0,
+        isFuture: date.getTime() > today,
+      };
+    }),
+  );
+
+  // Shade relative to the busiest day shown
+  const max = Math.max(0, ...columns.flat().map((c) => c.minutes));
+  return columns.map((column) =>
+    column.map((cell) => ({
+      ...cell,
+      level: (cell.minutes === 0
+        ? 0
+        : Math.max(1, Math.ceil((cell.minutes / max) * 4))) as HeatmapCell["level"],
+    })),
+  );
+};
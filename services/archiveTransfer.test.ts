@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { FocusTier, ObservationReport, SignalLostEntry } from "../types";
+import {
+  exportArchiveCSV,
+  exportArchiveMarkdown,
+  parseArchiveImport,
+  parseEntry,
+} from "./archiveTransfer";
+
+const report = (overrides: Record<string, unknown> = {}): ObservationReport => ({
+  id: "r1",
+  timestamp: Date.UTC(2026, 0, 1),
+  duration: 25,
+  dimensionCode: "PX-772",
+  environment: "A salt flat under a violet sky.",
+  log: "Signal integrity nominal.",
+  entropy: 0.42,
+  stability: "Unstable",
+  ...overrides,
+});
+
+const signalLost = (overrides: Record<string, unknown> = {}): SignalLostEntry => ({
+  kind: "signalLost",
+  id: "l1",
+  timestamp: Date.UTC(2026, 0, 1),
+  duration: 25,
+  elapsed: 300,
+  tier: FocusTier.NEIGHBORING,
+  taskContext: "",
+  ...overrides,
+});
+
+const chapter = (overrides: Record<string, unknown> = {}) => ({
+  block: 1,
+  timestamp: Date.UTC(2026, 0, 1),
+  duration: 25,
+  dimensionCode: "PX-772",
+  environment: "A salt flat.",
+  log: "Nominal.",
+  entropy: 0.4,
+  stability: "Stable",
+  ...overrides,
+});
+
+describe("tiers", () => {
+  it("keeps numeric tiers", () => {
+    expect(parseEntry(report({ tier: FocusTier.MIRROR_RIFT }))).toMatchObject({ tier: 60 });
+    expect(parseEntry(signalLost({ tier: 120 }))).toMatchObject({ tier: 120 });
+  });
+
+  it("drops enum member names and unknown numbers from reports", () => {
+    expect(parseEntry(report({ tier: "MIRROR_RIFT" }))).not.toHaveProperty("tier");
+    expect(parseEntry(report({ tier: "60" }))).not.toHaveProperty("tier");
+    expect(parseEntry(report({ tier: 42 }))).not.toHaveProperty("tier");
+  });
+
+  it("rejects signal-lost entries whose tier is not a member value", () => {
+    expect(parseEntry(signalLost({ tier: "MIRROR_RIFT" }))).toBeNull();
+    expect(parseEntry(signalLost({ tier: 42 }))).toBeNull();
+  });
+});
+
+describe("timestamps", () => {
+  it("accepts the edges of the Date range", () => {
+    expect(parseEntry(report({ timestamp: 8.64e15 }))).not.toBeNull();
+    expect(parseEntry(report({ timestamp: -8.64e15 }))).not.toBeNull();
+  });
+
+  it("rejects timestamps Date cannot represent", () => {
+    expect(parseEntry(report({ timestamp: 8.64e15 + 1 }))).toBeNull();
+    expect(parseEntry(report({ timestamp: -1e16 }))).toBeNull();
+    expect(parseEntry(signalLost({ timestamp: 1e300 }))).toBeNull();
+    expect(parseEntry(report({ chapters: [chapter({ timestamp: 1e16 })] }))).toBeNull();
+  });
+
+  it("only lets exportable entries through an import", () => {
+    const { entries, rejected } = parseArchiveImport(
+      JSON.stringify([
+        report(),
+        report({ id: "r2", timestamp: 1e16 }),
+        signalLost({ timestamp: -1e16 }),
+        report({ id: "r3", chapters: [chapter(), chapter({ block: 2, timestamp: 9e15 })] }),
+      ]),
+    );
+    expect(entries.map((e) => e.id)).toEqual(["r1"]);
+    expect(rejected).toBe(3);
+    expect(() => exportArchiveMarkdown(entries)).not.toThrow();
+    expect(() => exportArchiveCSV(entries)).not.toThrow();
+  });
+});
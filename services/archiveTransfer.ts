@@ -0,0 +1,397 @@
+import {
+  ArchiveEntry,
+  FocusTier,
+  ObservationChapter,
+  ObservationReport,
+  PauseInterval,
+  SignalLostEntry,
+  Stability,
+  STABILITY_LEVELS,
+  getEntryTier,
+  isSignalLost,
+} from "../types";
+import { isLanguage } from "./languages";
+
+// Bump when the exported envelope changes shape; older versions must stay importable
+// v1: { reports: ObservationReport[] }
+// v2: { entries: ArchiveEntry[] } (adds lost-signal entries)
+export const ARCHIVE_EXPORT_VERSION = 2;
+const ARCHIVE_EXPORT_FORMAT = "into-the-abyss/archive";
+
+interface ArchiveExport {
+  format: typeof ARCHIVE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: ArchiveEntry[];
+}
+
+export interface ArchiveImportResult {
+  entries: ArchiveEntry[];
+  rejected: number; // items that matched neither entry shape
+}
+
+export interface ArchiveMergeResult {
+  archive: ArchiveEntry[];
+  added: number;
+  duplicates: number;
+}
+
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveImportError";
+  }
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Date rejects anything beyond ±8.64e15 ms, which would throw on toISOString()
+const MAX_DATE_MS = 8.64e15;
+
+const isTimestamp = (value: unknown): value is number =>
+  isFiniteNumber(value) && Math.abs(value) <= MAX_DATE_MS;
+
+const isStability = (value: unknown): value is Stability =>
+  STABILITY_LEVELS.includes(value as Stability);
+
+// Numeric enums also map names to values; only the numbers are tiers
+const isTier = (value: unknown): value is FocusTier =>
+  typeof value === "number" && FocusTier[value] !== undefined;
+
+const parsePauses = (value: unknown): PauseInterval[] | null => {
+  if (!Array.isArray(value)) return null;
+  const pauses = value.filter(
+    (p): p is PauseInterval =>
+      isRecord(p) && isFiniteNumber(p.start) && isFiniteNumber(p.end),
+  );
+  return pauses.length === value.length
+    ? pauses.map(({ start, end }) => ({ start, end }))
+    : null;
+};
+
+const parseChapter = (value: unknown): ObservationChapter | null => {
+  if (!isRecord(value)) return null;
+  const { block, timestamp, duration, dimensionCode, environment, log, entropy, stability } = value;
+  if (
+    !isFiniteNumber(block) ||
+    !isTimestamp(timestamp) ||
+    !isFiniteNumber(duration) ||
+    typeof dimensionCode !== "string" ||
+    typeof environment !== "string" ||
+    typeof log !== "string" ||
+    !isFiniteNumber(entropy) ||
+    !isStability(stability)
+  ) {
+    return null;
+  }
+  return {
+    block,
+    timestamp,
+    duration,
+    dimensionCode,
+    environment,
+    log,
+    entropy,
+    stability,
+    ...(value.isSystemGenerated === true && { isSystemGenerated: true }),
+    ...(value.awaitingSignal === true && { awaitingSignal: true }),
+  };
+};
+
+// Returns a clean copy of a valid report (unknown fields dropped), or null
+export const parseReport = (value: unknown): ObservationReport | null => {
+  if (!isRecord(value)) return null;
+  const { id, timestamp, duration, dimensionCode, environment, log, entropy, stability } = value;
+  if (
+    typeof id !== "string" ||
+    !id ||
+    !isTimestamp(timestamp) ||
+    !isFiniteNumber(duration) ||
+    duration <= 0 ||
+    typeof dimensionCode !== "string" ||
+    typeof environment !== "string" ||
+    typeof log !== "string" ||
+    !isFiniteNumber(entropy) ||
+    entropy < 0 ||
+    entropy > 1 ||
+    !isStability(stability)
+  ) {
+    return null;
+  }
+
+  const report: ObservationReport = {
+    id,
+    timestamp,
+    duration,
+    dimensionCode,
+    environment,
+    log,
+    entropy,
+    stability,
+  };
+  if (value.isSystemGenerated === true) report.isSystemGenerated = true;
+  if (value.awaitingSignal === true) report.awaitingSignal = true;
+  if (isLanguage(value.language)) report.language = value.language;
+  if (isTier(value.tier)) report.tier = value.tier;
+  if (typeof value.taskId === "string" && value.taskId) {
+    report.taskId = value.taskId;
+    if (typeof value.taskContext === "string") report.taskContext = value.taskContext;
+  }
+  if (typeof value.relatedTo === "string" && value.relatedTo) {
+    report.relatedTo = value.relatedTo;
+  }
+
+  if (value.pauses !== undefined) {
+    const pauses = parsePauses(value.pauses);
+    if (!pauses) return null;
+    if (pauses.length) report.pauses = pauses;
+  }
+  if (value.chapters !== undefined) {
+    if (!Array.isArray(value.chapters)) return null;
+    const chapters = value.chapters.map(parseChapter);
+    if (chapters.some((c) => c === null)) return null;
+    if (chapters.length) report.chapters = chapters as ObservationChapter[];
+  }
+  return report;
+};
+
+const parseSignalLost = (value: Record<string, unknown>): SignalLostEntry | null => {
+  const { id, timestamp, duration, elapsed, tier, taskContext } = value;
+  if (
+    typeof id !== "string" ||
+    !id ||
+    !isTimestamp(timestamp) ||
+    !isFiniteNumber(duration) ||
+    duration <= 0 ||
+    !isFiniteNumber(elapsed) ||
+    elapsed < 0 ||
+    !isTier(tier) ||
+    typeof taskContext !== "string"
+  ) {
+    return null;
+  }
+  return {
+    kind: "signalLost",
+    id,
+    timestamp,
+    duration,
+    elapsed,
+    tier,
+    taskContext,
+    ...(typeof value.taskId === "string" && value.taskId && { taskId: value.taskId }),
+  };
+};
+
+// Dispatches on the entry kind; plain reports carry no kind field
+export const parseEntry = (value: unknown): ArchiveEntry | null => {
+  if (isRecord(value) && value.kind === "signalLost") return parseSignalLost(value);
+  return parseReport(value);
+};
+
+// ============================================
+// IMPORT
+// ============================================
+
+// Accepts a versioned export or a bare array (e.g. a raw localStorage dump)
+export const parseArchiveImport = (text: string): ArchiveImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ArchiveImportError("File is not valid JSON");
+  }
+
+  let items: unknown;
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (isRecord(data) && data.format === ARCHIVE_EXPORT_FORMAT) {
+    if (!isFiniteNumber(data.version) || data.version > ARCHIVE_EXPORT_VERSION) {
+      throw new ArchiveImportError(
+        `Unsupported archive version: ${String(data.version)}`,
+      );
+    }
+    items = data.version < 2 ? data.reports : data.entries;
+  } else {
+    throw new ArchiveImportError("Unrecognized archive format");
+  }
+  if (!Array.isArray(items)) {
+    throw new ArchiveImportError("Archive export has no entries");
+  }
+
+  const entries = items
+    .map(parseEntry)
+    .filter((e): e is ArchiveEntry => e !== null);
+  return { entries, rejected: items.length - entries.length };
+};
+
+// Existing entries win on id collisions; result is newest first
+export const mergeArchives = (
+  existing: ArchiveEntry[],
+  incoming: ArchiveEntry[],
+): ArchiveMergeResult => {
+  const known = new Set(existing.map((e) => e.id));
+  const added: ArchiveEntry[] = [];
+  incoming.forEach((entry) => {
+    if (known.has(entry.id)) return;
+    known.add(entry.id);
+    added.push(entry);
+  });
+
+  return {
+    archive: [...existing, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added: added.length,
+    duplicates: incoming.length - added.length,
+  };
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const exportArchiveJSON = (archive: ArchiveEntry[]): string => {
+  const payload: ArchiveExport = {
+    format: ARCHIVE_EXPORT_FORMAT,
+    version: ARCHIVE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: archive,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const signalLostMarkdown = (entry: SignalLostEntry): string =>
+  [
+    "## SIGNAL LOST",
+    "",
+    `- **Timestamp:** ${new Date(entry.timestamp).toISOString()}`,
+    `- **Duration:** ${entry.elapsed} / ${entry.duration} min (tier ${entry.tier})`,
+    `- **Reference:** ${entry.id}`,
+    ...(entry.taskContext ? [`- **Task:** ${entry.taskContext}`] : []),
+    "",
+    "_Transmission incomplete._",
+  ].join("\n");
+
+export const exportArchiveMarkdown = (archive: ArchiveEntry[]): string => {
+  const sections = archive.map((entry) => {
+    if (isSignalLost(entry)) return signalLostMarkdown(entry);
+    const report: ObservationReport = entry;
+    const lines = [
+      `## ${report.dimensionCode}`,
+      "",
+      `- **Timestamp:** ${new Date(report.timestamp).toISOString()}`,
+      `- **Duration:** ${report.duration} min (tier ${getEntryTier(report)})`,
+      `- **Entropy:** ${report.entropy.toFixed(4)}`,
+      `- **Integrity:** ${report.stability}`,
+      `- **Reference:** ${report.id}`,
+      ...(report.isSystemGenerated ? ["- **Source:** system fallback"] : []),
+      ...(report.taskContext ? [`- **Task:** ${report.taskContext}`] : []),
+      ...(report.relatedTo ? [`- **Related:** ${report.relatedTo}`] : []),
+      "",
+      "### Visual Feed",
+      "",
+      `> ${report.environment}`,
+      "",
+      "### Observer Log",
+      "",
+      report.log,
+    ];
+    (report.chapters ?? []).forEach((chapter) => {
+      lines.push(
+        "",
+        `### Chapter ${chapter.block + 1} — ${chapter.dimensionCode}`,
+        "",
+        `> ${chapter.environment}`,
+        "",
+        chapter.log,
+      );
+    });
+    return lines.join("\n");
+  });
+
+  return [
+    "# Into the Abyss — Observation Archive",
+    "",
+    `Exported ${new Date().toISOString()} · ${archive.length} entries`,
+    "",
+    ...sections.flatMap((section) => [section, "", "---", ""]),
+  ].join("\n");
+};
+
+const CSV_COLUMNS = [
+  "kind",
+  "id",
+  "timestamp",
+  "date",
+  "duration",
+  "elapsed",
+  "tier",
+  "dimensionCode",
+  "stability",
+  "entropy",
+  "isSystemGenerated",
+  "chapters",
+  "environment",
+  "log",
+  "taskId",
+  "taskContext",
+  "relatedTo",
+] as const;
+
+const escapeCsv = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportArchiveCSV = (archive: ArchiveEntry[]): string => {
+  const rows = archive.map((entry) => {
+    const common = [
+      entry.id,
+      entry.timestamp,
+      new Date(entry.timestamp).toISOString(),
+      entry.duration,
+    ];
+    const row = isSignalLost(entry)
+      ? ["signalLost", ...common, entry.elapsed, entry.tier, "", "", "", "", 0, "", ""]
+      : [
+          "report",
+          ...common,
+          entry.duration,
+          getEntryTier(entry),
+          entry.dimensionCode,
+          entry.stability,
+          entry.entropy,
+          entry.isSystemGenerated ?? false,
+          entry.chapters?.length ?? 0,
+          entry.environment,
+          entry.log,
+        ];
+    const relatedTo = isSignalLost(entry) ? "" : entry.relatedTo ?? "";
+    return [...row, entry.taskId ?? "", entry.taskContext ?? "", relatedTo]
+      .map(escapeCsv)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+};
+
+// Trigger a browser download for generated text
+export const downloadTextFile = (
+  filename: string,
+  content: string,
+  mimeType: string,
+) => downloadBlob(filename, new Blob([content], { type: mimeType }));
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,93 @@
+// "Transmission received" chime, synthesized in the same style as the
+// SpaceMusic distant-signal layer (sine pulses through a bandpass + echo)
+
+let chimeCtx: AudioContext | null = null;
+
+const getContext = (): AudioContext | null => {
+  if (!chimeCtx) {
+    const AudioContextClass =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext?: typeof AudioContext })
+        .webkitAudioContext;
+    if (!AudioContextClass) return null;
+    chimeCtx = new AudioContextClass();
+  }
+  return chimeCtx;
+};
+
+// Create/resume the context during a user gesture so the chime can still
+// play later from a background tab (autoplay policies block it otherwise)
+export const primeChime = () => {
+  const ctx = getContext();
+  if (ctx && ctx.state === "suspended") ctx.resume().catch(() => {});
+};
+
+export const playTransmissionChime = (volume: number = 1) => {
+  const ctx = getContext();
+  if (!ctx) return;
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+  const now = ctx.currentTime;
+
+  const output = ctx.createGain();
+  output.gain.value = 0.6 * volume;
+
+  // Echo tail, like the signal bouncing back across the void
+  const delay = ctx.createDelay();
+  delay.delayTime.value = 0.28;
+  const feedback = ctx.createGain();
+  feedback.gain.value = 0.3;
+  delay.connect(feedback);
+  feedback.connect(delay);
+  delay.connect(output);
+  output.connect(ctx.destination);
+
+  // Handshake pulses followed by a rising two-note "received" motif
+  const notes = [
+    { freq: 1200, start: 0, length: 0.06, peak: 0.05 },
+    { freq: 1200, start: 0.1, length: 0.06, peak: 0.05 },
+    { freq: 660, start: 0.32, length: 0.9, peak: 0.09 },
+    { freq: 990, start: 0.52, length: 1.4, peak: 0.08 },
+  ];
+
+  notes.forEach(({ freq, start, length, peak }) => {
+    const t = now + start;
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(freq, t);
+    // Slight downward drift on the sustained tones
+    if (length > 0.5) {
+      osc.frequency.exponentialRampToValueAtTime(freq * 0.985, t + length);
+    }
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "bandpass";
+    filter.frequency.value = freq;
+    filter.Q.value = 4;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(peak, t + 0.015);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + length);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(output);
+    gain.connect(delay);
+
+    osc.start(t);
+    osc.stop(t + length + 0.05);
+    osc.onended = () => {
+      osc.disconnect();
+      filter.disconnect();
+      gain.disconnect();
+    };
+  });
+
+  // Let the echo ring out before tearing the bus down
+  setTimeout(() => {
+    delay.disconnect();
+    feedback.disconnect();
+    output.disconnect();
+  }, 4000);
+};
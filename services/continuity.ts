@@ -0,0 +1,87 @@
+import { ArchiveEntry, ObservationReport, Stability, isSignalLost } from "../types";
+
+// ============================================
+// CONTINUITY MEMORY
+// ============================================
+
+// Sent with every report request so the observer can return to known worlds.
+// Mirrors MemoryEntry in worker/validation.ts.
+export interface ContinuityMemoryEntry {
+  id: string;
+  code: string;
+  motif: string;
+  stability: Stability;
+  daysAgo: number;
+}
+
+export const MAX_CONTINUITY_MEMORY = 8;
+const MAX_MOTIF_LENGTH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The worker rejects memory it cannot safely quote (e.g. odd ids from imports)
+const MEMORY_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const MAX_CODE_LENGTH = 32;
+
+// First sentence of the visual feed stands in for the world's key motif
+const getMotif = (environment: string): string =>
+  environment
+    .split(/(?<=[.!?。！？])/)[0]
+    .trim()
+    .slice(0, MAX_MOTIF_LENGTH);
+
+// Most recent completed reports (archive is newest first); fallbacks and
+// expeditions carry no world worth returning to
+export const buildContinuityMemory = (
+  archive: ArchiveEntry[],
+  now: number = Date.now(),
+): ContinuityMemoryEntry[] =>
+  archive
+    .filter(
+      (entry): entry is ObservationReport =>
+        !isSignalLost(entry) &&
+        !entry.isSystemGenerated &&
+        !entry.chapters &&
+        MEMORY_ID_PATTERN.test(entry.id) &&
+        entry.dimensionCode.trim().length > 0 &&
+        entry.dimensionCode.length <= MAX_CODE_LENGTH,
+    )
+    .slice(0, MAX_CONTINUITY_MEMORY)
+    .map((report) => ({
+      id: report.id,
+      code: report.dimensionCode,
+      motif: getMotif(report.environment),
+      stability: report.stability,
+      daysAgo: Math.max(0, Math.floor((now - report.timestamp) / DAY_MS)),
+    }));
+
+// ============================================
+// CHAINS
+// ============================================
+
+// Guards against cycles and runaway chains in imported archives
+const MAX_CHAIN_LENGTH = 32;
+
+// For every report with a continuity link: the earlier reports it traces back
+// to, oldest first (excluding the report itself). Links to entries no longer
+// in the archive end a chain.
+export const getContinuityChains = (
+  archive: ArchiveEntry[],
+): Record<string, ObservationReport[]> => {
+  const byId = new Map<string, ObservationReport>();
+  archive.forEach((entry) => {
+    if (!isSignalLost(entry)) byId.set(entry.id, entry);
+  });
+
+  const chains: Record<string, ObservationReport[]> = {};
+  byId.forEach((report) => {
+    const chain: ObservationReport[] = [];
+    const seen = new Set([report.id]);
+    let next = report.relatedTo ? byId.get(report.relatedTo) : undefined;
+    while (next && !seen.has(next.id) && chain.length < MAX_CHAIN_LENGTH) {
+      chain.unshift(next);
+      seen.add(next.id);
+      next = next.relatedTo ? byId.get(next.relatedTo) : undefined;
+    }
+    if (chain.length) chains[report.id] = chain;
+  });
+  return chains;
+};
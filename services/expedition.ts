@@ -0,0 +1,82 @@
+import {
+  ExpeditionPhase,
+  ExpeditionPlan,
+  FocusTier,
+  Language,
+  ObservationChapter,
+  ObservationReport,
+  Stability,
+  STABILITY_LEVELS,
+} from "../types";
+
+// The last block goes straight to the report, so a long break only happens
+// when longBreakEvery is below the block count
+export const DEFAULT_EXPEDITION_PLAN: ExpeditionPlan = {
+  blocks: 4,
+  shortBreak: 5,
+  longBreak: 15,
+  longBreakEvery: 2,
+};
+
+export const MIN_EXPEDITION_BLOCKS = 2;
+export const MAX_EXPEDITION_BLOCKS = 8;
+
+// Break that follows a completed focus block (0-based)
+export const getBreakPhase = (
+  plan: ExpeditionPlan,
+  block: number,
+): Exclude<ExpeditionPhase, "focus"> =>
+  (block + 1) % plan.longBreakEvery === 0 ? "longBreak" : "shortBreak";
+
+export const getBreakMinutes = (
+  plan: ExpeditionPlan,
+  phase: Exclude<ExpeditionPhase, "focus">,
+): number => (phase === "longBreak" ? plan.longBreak : plan.shortBreak);
+
+export const toChapter = (
+  report: Omit<ObservationReport, "id">,
+  block: number,
+): ObservationChapter => ({
+  block,
+  timestamp: report.timestamp,
+  duration: report.duration,
+  dimensionCode: report.dimensionCode,
+  environment: report.environment,
+  log: report.log,
+  entropy: report.entropy,
+  stability: report.stability,
+  ...(report.isSystemGenerated && { isSystemGenerated: true }),
+  ...(report.awaitingSignal && { awaitingSignal: true }),
+});
+
+// Fold every block into one multi-chapter report. The headline fields come from
+// the final (deepest) chapter; entropy is averaged and stability is the worst seen.
+export const buildExpeditionReport = (
+  chapters: ObservationChapter[],
+  tier: FocusTier,
+  language: Language,
+): Omit<ObservationReport, "id" | "timestamp"> => {
+  const ordered = [...chapters].sort((a, b) => a.block - b.block);
+  const last = ordered[ordered.length - 1];
+
+  return {
+    duration: ordered.reduce((sum, c) => sum + c.duration, 0),
+    dimensionCode: last.dimensionCode,
+    environment: last.environment,
+    log: last.log,
+    entropy:
+      ordered.reduce((sum, c) => sum + c.entropy, 0) / ordered.length,
+    stability: ordered.reduce<Stability>(
+      (worst, c) =>
+        STABILITY_LEVELS.indexOf(c.stability) > STABILITY_LEVELS.indexOf(worst)
+          ? c.stability
+          : worst,
+      "Stable",
+    ),
+    tier,
+    language,
+    chapters: ordered,
+    ...(ordered.some((c) => c.isSystemGenerated) && { isSystemGenerated: true }),
+    ...(ordered.some((c) => c.awaitingSignal) && { awaitingSignal: true }),
+  };
+};
@@ -0,0 +1,710 @@
+import { FocusTier, Language, ObservationReport, Stability } from "../types";
+import { LANGUAGE_INFO } from "./languages";
+import { createSeededRandom } from "./random";
+
+// Procedural stand-in for a report when the relay cannot be reached. A small
+// grammar per language expands into the dimension code, visual feed and log;
+// the tier sets how strange the world gets and the entropy (drawn from a
+// tier-dependent range) picks calm, shifting or chaotic wording. Everything
+// is derived from the seed, so a seed always yields the same report.
+
+export interface FallbackRequest {
+  duration: number;
+  taskContext: string;
+  tier: FocusTier;
+  language: Language;
+}
+
+type Random = () => number;
+type Band = "calm" | "shifting" | "chaotic";
+
+// Rules are looked up by symbol, plus `symbol.<tier>` and `symbol.<band>`
+// variants whose options are added to the pool. Places may list their forms
+// as "noun|definite|indefinite" for languages whose articles follow the noun's
+// gender; templates then use {place}, {thePlace}, {ThePlace} or {aPlace}.
+type Rules = Record<string, string[]>;
+
+interface Grammar {
+  codePrefixes: Record<FocusTier, string[]>;
+  rules: Rules;
+  quote: (task: string) => string;
+  minutes: (duration: number) => string;
+}
+
+const TIER_KEYS: Record<FocusTier, string> = {
+  [FocusTier.QUANTUM_FLICKER]: "flicker",
+  [FocusTier.NEIGHBORING]: "neighboring",
+  [FocusTier.MIRROR_RIFT]: "mirror",
+  [FocusTier.IMAGINARY]: "imaginary",
+  [FocusTier.SINGULARITY]: "singularity",
+};
+
+// Flickers are too brief to settle; the deepest tiers can land anywhere
+const ENTROPY_RANGES: Record<FocusTier, [number, number]> = {
+  [FocusTier.QUANTUM_FLICKER]: [0.7, 1],
+  [FocusTier.NEIGHBORING]: [0.1, 0.5],
+  [FocusTier.MIRROR_RIFT]: [0.25, 0.7],
+  [FocusTier.IMAGINARY]: [0.35, 0.85],
+  [FocusTier.SINGULARITY]: [0, 1],
+};
+
+// Directives longer than this are cut when quoted in the log
+const MAX_QUOTED_TASK_LENGTH = 60;
+
+const EN_GRAMMAR: Grammar = {
+  codePrefixes: {
+    [FocusTier.QUANTUM_FLICKER]: ["QF", "PX", "GX"],
+    [FocusTier.NEIGHBORING]: ["A", "KR", "NV", "LN"],
+    [FocusTier.MIRROR_RIFT]: ["MX", "DR", "VN", "RF"],
+    [FocusTier.IMAGINARY]: ["IM", "ZX", "Ψ"],
+    [FocusTier.SINGULARITY]: ["ΩX", "Σ", "∞"],
+  },
+  quote: (task) => `"${task}"`,
+  minutes: (duration) => `${duration} minute${duration === 1 ? "" : "s"}`,
+  rules: {
+    environment: ["{opening} {detail}", "{opening} {detail} {coda}", "{opening} {coda}"],
+    opening: [
+      "A {adj} {place} {spread} beneath {sky}.",
+      "An expanse of {material} {spread} toward {horizon}.",
+      "The observer surfaces inside a {adj} {place}, walled in {material}.",
+      "Below, a {adj} {place}; above, {sky}.",
+    ],
+    "opening.flicker": [
+      "A brief glimpse of a {adj} {place}.",
+      "Static, then a {place} of {material}, gone almost at once.",
+    ],
+    "adj.calm": ["silent", "slow", "luminous", "patient", "glassy", "still"],
+    "adj.shifting": ["drifting", "folding", "restless", "murmuring", "half-built", "tidal"],
+    "adj.chaotic": ["fractured", "burning", "shattered", "boiling", "torn", "splintering"],
+    place: ["library", "city", "ocean", "forest", "cathedral", "desert", "harbor", "garden", "corridor"],
+    "place.mirror": ["reef", "hive", "mirror-city"],
+    "place.imaginary": ["lattice", "proof-space", "tessellated plain"],
+    "place.singularity": ["nexus", "threshold", "final archive"],
+    spread: ["stretches", "unfolds", "drifts", "spirals", "rolls"],
+    sky: ["a sky of frozen lightning", "three slow moons", "a ceiling of falling ink", "{count} black suns"],
+    "sky.calm": ["a pale, unbroken dawn", "a sky the color of still water"],
+    "sky.chaotic": ["a sky tearing along its seams", "storms of white static"],
+    material: ["black glass", "liquid mercury", "living coral", "humming bone", "paper-thin light", "braided sound"],
+    horizon: ["a horizon that never arrives", "the edge of the map", "a wall of static"],
+    detail: [
+      "{entities} {activity}.",
+      "Every surface {surfaceVerb} {reflection}.",
+      "Gravity {gravity}.",
+    ],
+    entities: [
+      "Geometric fauna",
+      "Crystalline caravans",
+      "Translucent archivists",
+      "Swarms of glowing glyphs",
+      "Shadows without owners",
+    ],
+    "entities.neighboring": ["Familiar-looking birds", "Commuters one step out of phase"],
+    "entities.mirror": ["Mirror-twins of local wildlife", "Organisms with inverted chirality"],
+    "entities.imaginary": ["Walking equations", "Creatures drawn in a single line"],
+    activity: [
+      "move through the stillness, unaffected",
+      "rearrange themselves when watched",
+      "trace slow circles around the observer",
+      "phase through solid matter",
+      "sing in frequencies just below hearing",
+    ],
+    "activity.chaotic": ["scatter as the ground tears open", "flicker in and out of existence"],
+    surfaceVerb: ["reflects", "remembers", "records", "hums with"],
+    reflection: [
+      "a different moment in time",
+      "a timeline that never happened",
+      "the observer's own heartbeat",
+      "memories that belong to no one",
+    ],
+    gravity: [
+      "runs sideways here",
+      "pulls gently upward",
+      "fades in and out like a tide",
+      "bends around thought itself",
+    ],
+    coda: [
+      "Nothing here casts a shadow.",
+      "Colors without names bleed at the edges.",
+      "Distance is measured in concepts rather than units.",
+      "The air tastes of static.",
+    ],
+    "coda.chaotic": ["The edges of the scene are already dissolving."],
+    "coda.singularity": ["Beyond this point, reality unravels into pure potential."],
+    log: ["{reading} {finding} {closing}", "{reading} {finding}"],
+    logWithTask: ["{reading} {finding} {taskLine}", "{reading} {taskLine} {closing}"],
+    reading: [
+      "Signal integrity at {percent}% across {minutes} of observation.",
+      "Observer logged {count} coherent frames over {minutes}.",
+    ],
+    "reading.calm": ["Stable signal held for {minutes}."],
+    "reading.flicker": [
+      "Signal lasted barely long enough to register.",
+      "Temporal blip. Duration insufficient for a full survey.",
+    ],
+    "reading.chaotic": ["Signal degraded repeatedly; {percent}% of frames recovered."],
+    finding: [
+      "Time flows {factor}% slower near the {place}.",
+      "Local entities appear to communicate through {medium}.",
+      "Physical constants drift by {factor}% between readings.",
+      "The {place} acknowledged the observer's presence.",
+    ],
+    "finding.calm": ["Entropy readings unusually low; the region is at rest."],
+    "finding.shifting": ["Multiverse bleed-through confirmed: {count} parallel iterations visible at once."],
+    "finding.chaotic": [
+      "Causality violations recorded at {count} separate points.",
+      "Structural collapse of the {place} appears imminent.",
+    ],
+    "finding.singularity": ["Retrieved data suggests this dimension predates time itself."],
+    medium: ["written symbols", "shifts in temperature", "patterns of light", "folded silence"],
+    closing: [
+      "Recommend further observation.",
+      "Data archived for cross-reference.",
+      "Observer reports mild vertigo.",
+      "Return coordinates logged.",
+    ],
+    "closing.chaotic": ["Extraction recommended before full collapse."],
+    taskLine: [
+      "Traces of the observer's directive, {task}, were found etched into the {place}.",
+      "The directive {task} echoed back from the {place}, slightly rearranged.",
+      "Local entities studied the directive {task} with evident interest.",
+    ],
+  },
+};
+
+const ZH_GRAMMAR: Grammar = {
+  codePrefixes: {
+    [FocusTier.QUANTUM_FLICKER]: ["量闪", "相位", "虚数"],
+    [FocusTier.NEIGHBORING]: ["墨渊", "镜海", "声城", "雾港"],
+    [FocusTier.MIRROR_RIFT]: ["冻时", "镜原", "机生", "逆鳞"],
+    [FocusTier.IMAGINARY]: ["虚境", "算域", "折面"],
+    [FocusTier.SINGULARITY]: ["欧米伽", "无穷", "档案"],
+  },
+  quote: (task) => `「${task}」`,
+  minutes: (duration) => `${duration}分钟`,
+  rules: {
+    environment: ["{opening}{detail}", "{opening}{detail}{coda}", "{opening}{coda}"],
+    opening: [
+      "一座{adj}的{place}在{sky}之下{spread}。",
+      "{material}铺成的原野{spread}向{horizon}。",
+      "观察者浮现于一座{adj}的{place}之中，四壁皆是{material}。",
+      "下方是{adj}的{place}，上方是{sky}。",
+    ],
+    "opening.flicker": ["短暂一瞥：一座{adj}的{place}。", "静电过后，一座{material}的{place}转瞬即逝。"],
+    "adj.calm": ["寂静", "缓慢", "明亮", "澄澈", "凝固", "安详"],
+    "adj.shifting": ["漂移", "折叠", "躁动", "低语", "半成形", "潮汐般起伏"],
+    "adj.chaotic": ["破碎", "燃烧", "崩裂", "沸腾", "撕裂", "坍缩中"],
+    place: ["图书馆", "城市", "海洋", "森林", "教堂", "沙漠", "港口", "花园", "走廊"],
+    "place.mirror": ["珊瑚礁", "蜂巢", "镜城"],
+    "place.imaginary": ["晶格", "证明空间", "镶嵌平原"],
+    "place.singularity": ["交汇点", "门槛", "终极档案馆"],
+    spread: ["延伸", "展开", "漂浮", "盘旋", "静止悬停"],
+    sky: ["冻结闪电的天空", "三轮缓慢的月亮", "坠落墨水的穹顶", "{count}颗黑色太阳"],
+    "sky.calm": ["苍白而完整的黎明", "静水般颜色的天空"],
+    "sky.chaotic": ["沿接缝撕裂的天空", "白色静电风暴"],
+    material: ["黑色玻璃", "液态水银", "活体珊瑚", "低鸣的骨骼", "薄如纸的光", "编织的声音"],
+    horizon: ["永远无法抵达的地平线", "地图的边缘", "一堵静电之墙"],
+    detail: ["{entities}{activity}。", "每一个表面都{surfaceVerb}{reflection}。", "重力{gravity}。"],
+    entities: ["几何形态的生物", "晶体商队", "半透明的档案员", "发光的符文群", "没有主人的影子"],
+    "entities.neighboring": ["似曾相识的鸟群", "相位偏移半步的行人"],
+    "entities.mirror": ["本地生物的镜像双生体", "手性反转的有机体"],
+    "entities.imaginary": ["行走的方程式", "一笔画成的生物"],
+    activity: [
+      "在静止中穿行，毫不受影响",
+      "在被注视时重新排列自身",
+      "绕着观察者缓缓画圈",
+      "穿透固体物质",
+      "以略低于听阈的频率歌唱",
+    ],
+    "activity.chaotic": ["在地面裂开时四散奔逃", "在存在与消失之间闪烁"],
+    surfaceVerb: ["映射着", "记忆着", "记录着", "回响着"],
+    reflection: ["不同的时间片段", "从未发生过的时间线", "观察者自己的心跳", "不属于任何人的记忆"],
+    gravity: ["在此处横向运行", "温和地向上牵引", "如潮汐般时强时弱", "围绕思维本身弯曲"],
+    coda: ["这里没有任何东西投下影子。", "无名的颜色在边缘渗出。", "距离以概念而非单位衡量。", "空气中有静电的味道。"],
+    "coda.chaotic": ["画面的边缘已在溶解。"],
+    "coda.singularity": ["越过此点，现实分解为纯粹的潜能。"],
+    log: ["{reading}{finding}{closing}", "{reading}{finding}"],
+    logWithTask: ["{reading}{finding}{taskLine}", "{reading}{taskLine}{closing}"],
+    reading: [
+      "{minutes}观测期间信号完整度为{percent}%。",
+      "观察者在{minutes}内记录到{count}帧连贯图像。",
+    ],
+    "reading.calm": ["稳定信号维持了{minutes}。"],
+    "reading.flicker": ["信号持续时间仅够勉强记录。", "时间涟漪。持续时间不足以完成完整勘测。"],
+    "reading.chaotic": ["信号反复衰减，仅恢复{percent}%的画面。"],
+    finding: [
+      "{place}附近的时间流速慢{factor}%。",
+      "原住实体似乎通过{medium}进行交流。",
+      "物理常数在两次读数之间漂移{factor}%。",
+      "{place}察觉到了观察者的存在。",
+    ],
+    "finding.calm": ["熵值读数异常低，该区域处于静息状态。"],
+    "finding.shifting": ["确认多元宇宙渗透：同时可见{count}个平行迭代。"],
+    "finding.chaotic": ["在{count}个独立位置记录到因果违例。", "{place}的结构坍塌似乎迫在眉睫。"],
+    "finding.singularity": ["回收数据表明此维度早于时间本身。"],
+    medium: ["书写符号", "温度变化", "光的图案", "折叠的寂静"],
+    closing: ["建议进一步观测。", "数据已归档以供交叉比对。", "观察者报告轻微眩晕。", "返回坐标已记录。"],
+    "closing.chaotic": ["建议在完全坍缩前撤离。"],
+    taskLine: [
+      "观察者的指令{task}被发现刻在{place}之中。",
+      "指令{task}从{place}回响而来，语序略有改变。",
+      "原住实体饶有兴致地研究着指令{task}。",
+    ],
+  },
+};
+
+const JA_GRAMMAR: Grammar = {
+  codePrefixes: {
+    [FocusTier.QUANTUM_FLICKER]: ["閃光", "位相", "虚数"],
+    [FocusTier.NEIGHBORING]: ["墨淵", "鏡海", "音都", "霧港"],
+    [FocusTier.MIRROR_RIFT]: ["凍時", "鏡原", "機生", "逆鱗"],
+    [FocusTier.IMAGINARY]: ["虚境", "算域", "折面"],
+    [FocusTier.SINGULARITY]: ["終極", "無限", "書庫"],
+  },
+  quote: (task) => `「${task}」`,
+  minutes: (duration) => `${duration}分間`,
+  rules: {
+    environment: ["{opening}{detail}", "{opening}{detail}{coda}", "{opening}{coda}"],
+    opening: [
+      "{sky}の下に、{adj}{place}が{spread}。",
+      "{material}の平原が{horizon}へと{spread}。",
+      "観測者は{adj}{place}の中に浮上する。壁はすべて{material}でできている。",
+      "下には{adj}{place}、上には{sky}。",
+    ],
+    "opening.flicker": ["一瞬の光景：{adj}{place}。", "ノイズの後、{material}の{place}が現れ、すぐに消えた。"],
+    "adj.calm": ["静かな", "穏やかな", "澄みきった", "光に満ちた", "凍りついたような", "動かない"],
+    "adj.shifting": ["漂う", "折り畳まれていく", "落ち着きのない", "ささやく", "建設途中の", "潮のように揺れる"],
+    "adj.chaotic": ["砕けた", "燃え上がる", "崩れかけた", "沸き立つ", "引き裂かれた", "崩壊しつつある"],
+    place: ["図書館", "都市", "海", "森", "大聖堂", "砂漠", "港", "庭園", "回廊"],
+    "place.mirror": ["珊瑚礁", "巣", "鏡の都市"],
+    "place.imaginary": ["格子", "証明空間", "敷き詰められた平原"],
+    "place.singularity": ["結節点", "境界", "最後の書庫"],
+    spread: ["広がっている", "漂っている", "渦を巻いている", "果てしなく続いている", "うねっている"],
+    sky: ["凍った稲妻の空", "ゆっくり巡る三つの月", "降りしきるインクの天蓋", "{count}個の黒い太陽"],
+    "sky.calm": ["淡く途切れない夜明け", "静かな水の色をした空"],
+    "sky.chaotic": ["縫い目から裂けていく空", "白いノイズの嵐"],
+    material: ["黒いガラス", "液体の水銀", "生きた珊瑚", "うなる骨", "紙のように薄い光", "編まれた音"],
+    horizon: ["決して辿り着けない地平線", "地図の端", "ノイズの壁"],
+    detail: ["{entities}が{activity}。", "あらゆる表面が{reflection}を{surfaceVerb}。", "重力は{gravity}。"],
+    entities: ["幾何学的な生物", "結晶の隊商", "半透明の記録係", "光る文字の群れ", "持ち主のいない影"],
+    "entities.neighboring": ["見覚えのある鳥たち", "半歩だけ位相のずれた通行人"],
+    "entities.mirror": ["在来生物の鏡像の双子", "キラリティが反転した生物"],
+    "entities.imaginary": ["歩く方程式", "一筆で描かれた生き物"],
+    activity: [
+      "静止の中を平然と進んでいる",
+      "見られるたびに並び替わる",
+      "観測者の周りをゆっくりと回っている",
+      "固体の物質をすり抜けていく",
+      "可聴域のわずか下の周波数で歌っている",
+    ],
+    "activity.chaotic": ["地面が裂けると同時に散り散りになる", "存在と消滅の間で明滅している"],
+    surfaceVerb: ["映している", "記憶している", "記録している", "響かせている"],
+    reflection: ["別の時間の一瞬", "起こらなかった時間軸", "観測者自身の鼓動", "誰のものでもない記憶"],
+    gravity: ["ここでは横向きに働いている", "やさしく上へと引いている", "潮のように強まっては弱まる", "思考そのものの周りで曲がっている"],
+    coda: ["ここでは何も影を落とさない。", "名前のない色が縁からにじみ出ている。", "距離は単位ではなく概念で測られる。", "空気はノイズの味がする。"],
+    "coda.chaotic": ["光景の縁はすでに溶け始めている。"],
+    "coda.singularity": ["この先で、現実は純粋な可能性へとほどけていく。"],
+    log: ["{reading}{finding}{closing}", "{reading}{finding}"],
+    logWithTask: ["{reading}{finding}{taskLine}", "{reading}{taskLine}{closing}"],
+    reading: [
+      "{minutes}の観測で信号の完全性は{percent}%。",
+      "観測者は{minutes}で{count}フレームの一貫した映像を記録した。",
+    ],
+    "reading.calm": ["安定した信号が{minutes}持続した。"],
+    "reading.flicker": ["信号はかろうじて記録できる長さしか続かなかった。", "時間のゆらぎ。完全な調査には時間が足りない。"],
+    "reading.chaotic": ["信号は繰り返し劣化し、回収できたのはフレームの{percent}%のみ。"],
+    finding: [
+      "{place}の近くでは時間が{factor}%遅く流れる。",
+      "現地の存在は{medium}で意思疎通しているようだ。",
+      "物理定数が計測ごとに{factor}%変動する。",
+      "{place}が観測者の存在に気づいた。",
+    ],
+    "finding.calm": ["エントロピーの値は異常に低く、この領域は静止している。"],
+    "finding.shifting": ["多元宇宙の滲出を確認：{count}の並行反復が同時に見える。"],
+    "finding.chaotic": ["{count}か所で因果律の違反を記録。", "{place}の構造崩壊が差し迫っている。"],
+    "finding.singularity": ["回収したデータは、この次元が時間そのものより古いことを示唆している。"],
+    medium: ["書かれた記号", "温度の変化", "光の模様", "折り畳まれた沈黙"],
+    closing: ["さらなる観測を推奨する。", "相互参照のためデータを保存した。", "観測者は軽いめまいを報告。", "帰還座標を記録した。"],
+    "closing.chaotic": ["完全崩壊の前に離脱を推奨する。"],
+    taskLine: [
+      "観測者の指令{task}が{place}に刻まれているのが見つかった。",
+      "指令{task}が{place}から、わずかに語順を変えて反響してきた。",
+      "現地の存在が指令{task}を興味深そうに調べていた。",
+    ],
+  },
+};
+
+// Adjectives are invariant phrases placed after the noun, so they never
+// need to agree with the place's gender
+const ES_GRAMMAR: Grammar = {
+  codePrefixes: {
+    [FocusTier.QUANTUM_FLICKER]: ["PC", "PX", "GX"],
+    [FocusTier.NEIGHBORING]: ["A", "DV", "NV", "LN"],
+    [FocusTier.MIRROR_RIFT]: ["GE", "DR", "VN", "RF"],
+    [FocusTier.IMAGINARY]: ["HI", "ZX", "Ψ"],
+    [FocusTier.SINGULARITY]: ["ΩX", "Σ", "∞"],
+  },
+  quote: (task) => `«${task}»`,
+  minutes: (duration) => `${duration} minuto${duration === 1 ? "" : "s"}`,
+  rules: {
+    environment: ["{opening} {detail}", "{opening} {detail} {coda}", "{opening} {coda}"],
+    opening: [
+      "Bajo {sky} se extiende {aPlace} {adj}.",
+      "Una extensión de {material} avanza hacia {horizon}.",
+      "El observador emerge dentro de {aPlace} {adj}, con muros de {material}.",
+      "Abajo, {aPlace} {adj}; arriba, {sky}.",
+    ],
+    "opening.flicker": [
+      "Un breve vistazo a {aPlace} {adj}.",
+      "Estática, y luego {aPlace} de {material} que desaparece casi al instante.",
+    ],
+    "adj.calm": ["en silencio", "en calma", "bajo una luz inmóvil", "en perfecta quietud"],
+    "adj.shifting": ["a la deriva", "en perpetuo pliegue", "a medio construir", "en constante murmullo"],
+    "adj.chaotic": ["en ruinas", "en llamas", "a punto de quebrarse", "en plena ebullición"],
+    place: [
+      "biblioteca|la biblioteca|una biblioteca",
+      "ciudad|la ciudad|una ciudad",
+      "océano|el océano|un océano",
+      "bosque|el bosque|un bosque",
+      "catedral|la catedral|una catedral",
+      "desierto|el desierto|un desierto",
+      "puerto|el puerto|un puerto",
+      "jardín|el jardín|un jardín",
+      "pasillo|el pasillo|un pasillo",
+    ],
+    "place.mirror": [
+      "arrecife|el arrecife|un arrecife",
+      "colmena|la colmena|una colmena",
+      "ciudad espejo|la ciudad espejo|una ciudad espejo",
+    ],
+    "place.imaginary": [
+      "retícula|la retícula|una retícula",
+      "espacio de demostración|el espacio de demostración|un espacio de demostración",
+      "llanura teselada|la llanura teselada|una llanura teselada",
+    ],
+    "place.singularity": ["nexo|el nexo|un nexo", "umbral|el umbral|un umbral", "archivo final|el archivo final|un archivo final"],
+    sky: ["un cielo de relámpagos congelados", "tres lunas lentas", "una bóveda de tinta que cae", "{count} soles negros"],
+    "sky.calm": ["un amanecer pálido e intacto", "un cielo del color del agua quieta"],
+    "sky.chaotic": ["un cielo que se rasga por las costuras", "tormentas de estática blanca"],
+    material: ["vidrio negro", "mercurio líquido", "coral vivo", "hueso que zumba", "luz fina como el papel", "sonido trenzado"],
+    horizon: ["un horizonte que nunca llega", "el borde del mapa", "un muro de estática"],
+    detail: ["{entities} {activity}.", "Cada superficie {surfaceVerb} {reflection}.", "La gravedad {gravity}."],
+    entities: [
+      "Criaturas geométricas",
+      "Caravanas cristalinas",
+      "Archivistas translúcidos",
+      "Enjambres de glifos luminosos",
+      "Sombras sin dueño",
+    ],
+    "entities.neighboring": ["Aves de aspecto familiar", "Transeúntes desfasados un paso"],
+    "entities.mirror": ["Gemelos especulares de la fauna local", "Organismos de quiralidad invertida"],
+    "entities.imaginary": ["Ecuaciones que caminan", "Criaturas dibujadas de un solo trazo"],
+    activity: [
+      "cruzan la quietud sin inmutarse",
+      "cambian de forma bajo la mirada del observador",
+      "trazan círculos lentos alrededor del observador",
+      "atraviesan la materia sólida",
+      "cantan en frecuencias apenas inaudibles",
+    ],
+    "activity.chaotic": ["se dispersan mientras el suelo se abre", "parpadean entre la existencia y la nada"],
+    surfaceVerb: ["refleja", "recuerda", "registra", "vibra con"],
+    reflection: [
+      "un momento distinto del tiempo",
+      "una línea temporal que nunca ocurrió",
+      "el propio latido del observador",
+      "recuerdos que no pertenecen a nadie",
+    ],
+    gravity: [
+      "corre de lado aquí",
+      "tira suavemente hacia arriba",
+      "sube y baja como una marea",
+      "se curva alrededor del pensamiento",
+    ],
+    coda: [
+      "Nada aquí proyecta sombra.",
+      "Colores sin nombre se filtran por los bordes.",
+      "La distancia se mide en conceptos, no en unidades.",
+      "El aire sabe a estática.",
+    ],
+    "coda.chaotic": ["Los bordes de la escena ya se están disolviendo."],
+    "coda.singularity": ["Más allá de este punto, la realidad se deshace en pura potencia."],
+    log: ["{reading} {finding} {closing}", "{reading} {finding}"],
+    logWithTask: ["{reading} {finding} {taskLine}", "{reading} {taskLine} {closing}"],
+    reading: [
+      "Integridad de la señal del {percent}% durante {minutes} de observación.",
+      "El observador registró {count} fotogramas coherentes en {minutes}.",
+    ],
+    "reading.calm": ["Señal estable durante {minutes}."],
+    "reading.flicker": [
+      "La señal apenas duró lo suficiente para registrarse.",
+      "Pulso temporal. Duración insuficiente para un estudio completo.",
+    ],
+    "reading.chaotic": ["La señal se degradó repetidamente; se recuperó el {percent}% de los fotogramas."],
+    finding: [
+      "{ThePlace} ralentiza el tiempo un {factor}%.",
+      "Las entidades locales parecen comunicarse mediante {medium}.",
+      "Las constantes físicas varían un {factor}% entre lecturas.",
+      "{ThePlace} ha percibido la presencia del observador.",
+    ],
+    "finding.calm": ["Lecturas de entropía inusualmente bajas; la región está en reposo."],
+    "finding.shifting": ["Filtración multiversal confirmada: {count} iteraciones paralelas visibles a la vez."],
+    "finding.chaotic": [
+      "Violaciones de causalidad registradas en {count} puntos distintos.",
+      "{ThePlace} parece a punto de colapsar.",
+    ],
+    "finding.singularity": ["Los datos recuperados sugieren que esta dimensión es anterior al tiempo mismo."],
+    medium: ["símbolos escritos", "cambios de temperatura", "patrones de luz", "silencio plegado"],
+    closing: [
+      "Se recomienda seguir observando.",
+      "Datos archivados para referencia cruzada.",
+      "El observador informa de un leve vértigo.",
+      "Coordenadas de retorno registradas.",
+    ],
+    "closing.chaotic": ["Se recomienda la extracción antes del colapso total."],
+    taskLine: [
+      "Se hallaron rastros de la directiva del observador, {task}, grabados en {thePlace}.",
+      "La directiva {task} volvió como un eco desde {thePlace}, ligeramente reordenada.",
+      "Las entidades locales estudiaron la directiva {task} con evidente interés.",
+    ],
+  },
+};
+
+// Places only appear in the nominative, and adjectives as invariant phrases
+// after the noun, so nothing needs declining
+const DE_GRAMMAR: Grammar = {
+  codePrefixes: {
+    [FocusTier.QUANTUM_FLICKER]: ["QF", "PX", "GX"],
+    [FocusTier.NEIGHBORING]: ["A", "ND", "NV", "LN"],
+    [FocusTier.MIRROR_RIFT]: ["SR", "DR", "VN", "RF"],
+    [FocusTier.IMAGINARY]: ["IH", "ZX", "Ψ"],
+    [FocusTier.SINGULARITY]: ["ΩX", "Σ", "∞"],
+  },
+  quote: (task) => `„${task}“`,
+  minutes: (duration) => `${duration} ${duration === 1 ? "Minute" : "Minuten"}`,
+  rules: {
+    environment: ["{opening} {detail}", "{opening} {detail} {coda}", "{opening} {coda}"],
+    opening: [
+      "Unter {sky} erstreckt sich {aPlace} {adj}.",
+      "Eine Fläche aus {material} dehnt sich bis zu {horizon}.",
+      "Der Beobachter taucht auf; vor ihm liegt {aPlace} {adj}, umschlossen von {material}.",
+      "Ringsum nur {aPlace} {adj}.",
+    ],
+    "opening.flicker": [
+      "Ein flüchtiger Blick: {aPlace} {adj}.",
+      "Rauschen, dann {aPlace} aus {material}, fast sofort wieder verschwunden.",
+    ],
+    "adj.calm": ["in völliger Stille", "in ruhigem Licht", "ohne jede Bewegung", "in vollkommener Ruhe"],
+    "adj.shifting": ["in ständigem Wandel", "halb errichtet", "im Treiben der Gezeiten", "voller Murmeln"],
+    "adj.chaotic": ["in Flammen", "im Zerfall", "kurz vor dem Bersten", "in kochendem Aufruhr"],
+    place: [
+      "Bibliothek|die Bibliothek|eine Bibliothek",
+      "Stadt|die Stadt|eine Stadt",
+      "Ozean|der Ozean|ein Ozean",
+      "Wald|der Wald|ein Wald",
+      "Kathedrale|die Kathedrale|eine Kathedrale",
+      "Wüste|die Wüste|eine Wüste",
+      "Hafen|der Hafen|ein Hafen",
+      "Garten|der Garten|ein Garten",
+      "Korridor|der Korridor|ein Korridor",
+    ],
+    "place.mirror": [
+      "Riff|das Riff|ein Riff",
+      "Bienenstock|der Bienenstock|ein Bienenstock",
+      "Spiegelstadt|die Spiegelstadt|eine Spiegelstadt",
+    ],
+    "place.imaginary": [
+      "Gitter|das Gitter|ein Gitter",
+      "Beweisraum|der Beweisraum|ein Beweisraum",
+      "Parkettebene|die Parkettebene|eine Parkettebene",
+    ],
+    "place.singularity": ["Nexus|der Nexus|ein Nexus", "Schwelle|die Schwelle|eine Schwelle", "Archiv|das letzte Archiv|ein letztes Archiv"],
+    // Dative, as they follow "unter"
+    sky: ["einem Himmel aus gefrorenen Blitzen", "drei langsamen Monden", "einer Decke aus fallender Tinte", "{count} schwarzen Sonnen"],
+    "sky.calm": ["einem blassen, ungebrochenen Morgengrauen", "einem Himmel in der Farbe stillen Wassers"],
+    "sky.chaotic": ["einem Himmel, der an den Nähten reißt", "Stürmen aus weißem Rauschen"],
+    material: ["schwarzem Glas", "flüssigem Quecksilber", "lebenden Korallen", "summenden Knochen", "hauchdünnem Licht", "geflochtenem Klang"],
+    horizon: ["einem Horizont, der nie näher kommt", "dem Rand der Karte", "einer Wand aus Rauschen"],
+    detail: ["{entities} {activity}.", "Jede Oberfläche {surfaceVerb} {reflection}.", "Die Schwerkraft {gravity}."],
+    entities: [
+      "Geometrische Wesen",
+      "Kristalline Karawanen",
+      "Durchscheinende Archivare",
+      "Schwärme leuchtender Glyphen",
+      "Schatten ohne Besitzer",
+    ],
+    "entities.neighboring": ["Vertraut wirkende Vögel", "Pendler, um einen Schritt phasenverschoben,"],
+    "entities.mirror": ["Spiegelzwillinge der örtlichen Fauna", "Organismen mit umgekehrter Chiralität"],
+    "entities.imaginary": ["Wandelnde Gleichungen", "In einem Strich gezeichnete Kreaturen"],
+    activity: [
+      "durchqueren die Stille, unberührt",
+      "ordnen sich neu, sobald man sie beobachtet",
+      "ziehen langsame Kreise um den Beobachter",
+      "gleiten durch feste Materie",
+      "singen in Frequenzen knapp unter der Hörschwelle",
+    ],
+    "activity.chaotic": ["zerstreuen sich, als der Boden aufreißt", "flackern zwischen Sein und Nichts"],
+    surfaceVerb: ["spiegelt", "bewahrt", "trägt", "wiederholt"],
+    reflection: [
+      "einen anderen Moment der Zeit",
+      "eine Zeitlinie, die nie geschah",
+      "den eigenen Herzschlag des Beobachters",
+      "Erinnerungen, die niemandem gehören",
+    ],
+    gravity: [
+      "verläuft hier seitwärts",
+      "zieht sanft nach oben",
+      "kommt und geht wie die Gezeiten",
+      "krümmt sich um das Denken selbst",
+    ],
+    coda: [
+      "Nichts hier wirft einen Schatten.",
+      "Namenlose Farben sickern an den Rändern hervor.",
+      "Entfernung wird in Begriffen statt in Einheiten gemessen.",
+      "Die Luft schmeckt nach Rauschen.",
+    ],
+    "coda.chaotic": ["Die Ränder der Szene lösen sich bereits auf."],
+    "coda.singularity": ["Jenseits dieses Punktes zerfällt die Realität in reines Potenzial."],
+    log: ["{reading} {finding} {closing}", "{reading} {finding}"],
+    logWithTask: ["{reading} {finding} {taskLine}", "{reading} {taskLine} {closing}"],
+    reading: [
+      "Signalintegrität von {percent} % über {minutes} Beobachtung.",
+      "Der Beobachter zeichnete in {minutes} {count} kohärente Bilder auf.",
+    ],
+    "reading.calm": ["Stabiles Signal über {minutes}."],
+    "reading.flicker": [
+      "Das Signal hielt kaum lange genug, um erfasst zu werden.",
+      "Zeitlicher Aussetzer. Dauer für eine vollständige Erfassung unzureichend.",
+    ],
+    "reading.chaotic": ["Das Signal brach wiederholt ein; {percent} % der Bilder wurden geborgen."],
+    finding: [
+      "{ThePlace} verlangsamt die Zeit um {factor} %.",
+      "Einheimische Wesen scheinen über {medium} zu kommunizieren.",
+      "Physikalische Konstanten driften zwischen zwei Messungen um {factor} %.",
+      "{ThePlace} hat die Anwesenheit des Beobachters bemerkt.",
+    ],
+    "finding.calm": ["Ungewöhnlich niedrige Entropiewerte; die Region ruht."],
+    "finding.shifting": ["Multiversales Durchsickern bestätigt: {count} parallele Iterationen gleichzeitig sichtbar."],
+    "finding.chaotic": [
+      "Kausalitätsverletzungen an {count} verschiedenen Punkten erfasst.",
+      "{ThePlace} steht offenbar kurz vor dem Einsturz.",
+    ],
+    "finding.singularity": ["Geborgene Daten deuten darauf hin, dass diese Dimension älter ist als die Zeit selbst."],
+    medium: ["geschriebene Symbole", "Temperaturschwankungen", "Lichtmuster", "gefaltete Stille"],
+    closing: [
+      "Weitere Beobachtung empfohlen.",
+      "Daten zum Abgleich archiviert.",
+      "Der Beobachter meldet leichten Schwindel.",
+      "Rückkehrkoordinaten protokolliert.",
+    ],
+    "closing.chaotic": ["Extraktion vor dem vollständigen Kollaps empfohlen."],
+    taskLine: [
+      "{ThePlace} warf die Direktive {task} leicht umgestellt zurück.",
+      "Spuren der Direktive {task} fanden sich überall eingeritzt.",
+      "Einheimische Wesen studierten die Direktive {task} mit sichtlichem Interesse.",
+    ],
+  },
+};
+
+const GRAMMARS: Record<Language, Grammar> = {
+  en: EN_GRAMMAR,
+  zh: ZH_GRAMMAR,
+  ja: JA_GRAMMAR,
+  es: ES_GRAMMAR,
+  de: DE_GRAMMAR,
+};
+
+const range = (random: Random, min: number, max: number) =>
+  min + random() * (max - min);
+
+const pick = <T>(random: Random, options: T[]): T =>
+  options[Math.floor(random() * options.length)];
+
+const getBand = (entropy: number): Band =>
+  entropy < 0.35 ? "calm" : entropy < 0.7 ? "shifting" : "chaotic";
+
+// Entropy sets the baseline; a little noise keeps the two from lining up exactly
+const getStability = (entropy: number, random: Random): Stability => {
+  const strain = entropy + range(random, -0.1, 0.1);
+  if (strain < 0.45) return "Stable";
+  if (strain < 0.7) return "Unstable";
+  if (strain < 0.9) return "Critical";
+  return "Collapsed";
+};
+
+// Fixed text, or a generator for values that differ at each use (counts)
+type Vars = Record<string, string | (() => string)>;
+
+// Expands `{symbol}` references until only text is left. Variables shadow
+// rules, so values fixed up front (place, task) stay consistent.
+const expand = (
+  template: string,
+  rules: Rules,
+  variants: string[],
+  vars: Vars,
+  random: Random,
+): string =>
+  template.replace(/\{(\w+)\}/g, (_, symbol: string) => {
+    const value = vars[symbol];
+    if (typeof value === "function") return value();
+    if (value !== undefined) return value;
+    const options = [symbol, ...variants.map((variant) => `${symbol}.${variant}`)]
+      .flatMap((key) => rules[key] ?? []);
+    return expand(pick(random, options), rules, variants, vars, random);
+  });
+
+const quoteTask = (taskContext: string) => {
+  const task = taskContext.trim().replace(/\s+/g, " ");
+  return task.length > MAX_QUOTED_TASK_LENGTH
+    ? `${task.slice(0, MAX_QUOTED_TASK_LENGTH - 1)}…`
+    : task;
+};
+
+export const generateFallbackReport = (
+  { duration, taskContext, tier, language }: FallbackRequest,
+  seed: string,
+): Omit<ObservationReport, "id" | "timestamp"> => {
+  const random = createSeededRandom(seed);
+  const grammar = GRAMMARS[language] ?? EN_GRAMMAR;
+  const [minEntropy, maxEntropy] = ENTROPY_RANGES[tier] ?? [0, 1];
+  const entropy = Math.round(range(random, minEntropy, maxEntropy) * 100) / 100;
+  const variants = [TIER_KEYS[tier], getBand(entropy)];
+  const task = quoteTask(taskContext);
+
+  const vars: Vars = {
+    minutes: grammar.minutes(duration),
+    percent: String(Math.round((1 - entropy * 0.8) * 100)),
+    count: () => String(2 + Math.floor(random() * 998)),
+    factor: () =>
+      (1 + random() * 40).toLocaleString(LANGUAGE_INFO[language].locale, {
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      }),
+    ...(task && { task: grammar.quote(task) }),
+  };
+  // Fixed once so the log talks about the place the feed showed
+  const [place, thePlace = place, aPlace = thePlace] = expand(
+    "{place}",
+    grammar.rules,
+    variants,
+    vars,
+    random,
+  ).split("|");
+  Object.assign(vars, {
+    place,
+    thePlace,
+    aPlace,
+    ThePlace: thePlace.charAt(0).toUpperCase() + thePlace.slice(1),
+  });
+
+  const prefix = pick(random, grammar.codePrefixes[tier] ?? grammar.codePrefixes[FocusTier.NEIGHBORING]);
+  const number = String(1 + Math.floor(random() * 999)).padStart(3, "0");
+
+  return {
+    duration,
+    dimensionCode: `${prefix}-${number}`,
+    environment: expand("{environment}", grammar.rules, variants, vars, random),
+    log: expand(task ? "{logWithTask}" : "{log}", grammar.rules, variants, vars, random),
+    entropy,
+    stability: getStability(entropy, random),
+    isSystemGenerated: true,
+  };
+};
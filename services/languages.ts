@@ -0,0 +1,36 @@
+// Every language the UI, the report prompts and the fallback generator
+// support. Shared by the client and the worker; add a language here, then
+// give it a dictionary in locales/, a prompt in worker/prompts.ts and a
+// grammar in services/fallbackReport.ts.
+
+export const LANGUAGES = ["en", "zh", "ja", "es", "de"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+export interface LanguageInfo {
+  nativeName: string; // shown in the language menu
+  locale: string; // BCP 47 tag for <html lang> and Intl
+}
+
+export const LANGUAGE_INFO: Record<Language, LanguageInfo> = {
+  en: { nativeName: "English", locale: "en-US" },
+  zh: { nativeName: "中文", locale: "zh-CN" },
+  ja: { nativeName: "日本語", locale: "ja-JP" },
+  es: { nativeName: "Español", locale: "es-ES" },
+  de: { nativeName: "Deutsch", locale: "de-DE" },
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+
+// First supported language in a list of BCP 47 tags (e.g. navigator.languages),
+// matched on the primary subtag so "de-AT" picks German
+export const matchLanguage = (tags: readonly string[]): Language | null => {
+  for (const tag of tags) {
+    const primary = tag.toLowerCase().split("-")[0];
+    if (isLanguage(primary)) return primary;
+  }
+  return null;
+};
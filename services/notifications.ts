@@ -0,0 +1,42 @@
+import { STORAGE_KEYS } from "./storage";
+
+// Opt-in Web Notifications for session events
+
+export const isNotificationSupported = (): boolean =>
+  typeof window !== "undefined" && "Notification" in window;
+
+// The user's opt-in only counts while the browser permission is still granted
+export const loadNotificationPreference = (): boolean =>
+  isNotificationSupported() &&
+  Notification.permission === "granted" &&
+  localStorage.getItem(STORAGE_KEYS.notifications) === "on";
+
+export const saveNotificationPreference = (enabled: boolean) => {
+  localStorage.setItem(STORAGE_KEYS.notifications, enabled ? "on" : "off");
+};
+
+// Resolves to whether notifications may be shown
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+};
+
+// Only interrupts when the tab is out of sight; a shared tag lets a later
+// notification (report ready) replace an earlier one (session complete)
+export const notify = (title: string, body: string, tag: string) => {
+  if (!isNotificationSupported() || Notification.permission !== "granted") return;
+  if (document.visibilityState === "visible") return;
+
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn("Notification failed", error);
+  }
+};
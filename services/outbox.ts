@@ -0,0 +1,135 @@
+import {
+  ArchiveEntry,
+  FocusTier,
+  Language,
+  ObservationReport,
+  getReportTier,
+  isSignalLost,
+} from "../types";
+import { buildContinuityMemory } from "./continuity";
+import { buildExpeditionReport, toChapter } from "./expedition";
+import { generateObservationReport } from "./geminiService";
+
+// Replacing system fallbacks with real transmissions. Sessions completed
+// without a connection keep a fallback report flagged `awaitingSignal`; the
+// outbox is derived from those flags, so it lives in the archive itself and
+// survives reloads, exports and sync without extra state. Any other fallback
+// can be re-requested by hand.
+
+export interface OutboxItem {
+  reportId: string;
+  block: number | null; // expedition chapter to replace, null for a single session
+  timestamp: number;
+  duration: number;
+  taskContext: string;
+  tier: FocusTier;
+  language: Language;
+}
+
+type TransmissionData = Omit<ObservationReport, "id" | "timestamp">;
+
+// Requests needed to replace every fallback part of a report (the whole
+// report, or each fallback chapter of an expedition). Reports from before
+// the language was recorded use `language`, the observer's current one.
+export const getTransmissions = (
+  report: ObservationReport,
+  language: Language,
+): OutboxItem[] => {
+  const base = {
+    reportId: report.id,
+    taskContext: report.taskContext ?? "",
+    tier: getReportTier(report),
+    language: report.language ?? language,
+  };
+  if (!report.chapters) {
+    return report.isSystemGenerated
+      ? [{ ...base, block: null, timestamp: report.timestamp, duration: report.duration }]
+      : [];
+  }
+  return report.chapters
+    .filter((chapter) => chapter.isSystemGenerated)
+    .map((chapter) => ({
+      ...base,
+      block: chapter.block,
+      timestamp: chapter.timestamp,
+      duration: chapter.duration,
+    }));
+};
+
+// Oldest first, so continuity memory builds up in the order sessions happened
+export const getOutbox = (
+  archive: ArchiveEntry[],
+  language: Language,
+): OutboxItem[] =>
+  archive
+    .filter(
+      (entry): entry is ObservationReport =>
+        !isSignalLost(entry) && entry.awaitingSignal === true,
+    )
+    .flatMap((report) => getTransmissions(report, language))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Same request the session made originally; continuity memory only holds
+// what the observer had seen by then
+export const requestTransmission = (
+  item: OutboxItem,
+  archive: ArchiveEntry[],
+): Promise<TransmissionData> =>
+  generateObservationReport(
+    item.duration,
+    item.taskContext,
+    item.tier,
+    item.language,
+    buildContinuityMemory(
+      archive.filter((entry) => entry.timestamp < item.timestamp),
+      item.timestamp,
+    ),
+  );
+
+// Replaces the fallback narrative with a real transmission, keeping the
+// session's own fields (id, time, pauses, directive)
+export const applyTransmission = (
+  report: ObservationReport,
+  item: OutboxItem,
+  data: TransmissionData,
+): ObservationReport => {
+  const { isSystemGenerated, awaitingSignal, ...rest } = report;
+
+  if (item.block === null || !report.chapters) {
+    return {
+      ...rest,
+      dimensionCode: data.dimensionCode,
+      environment: data.environment,
+      log: data.log,
+      entropy: data.entropy,
+      stability: data.stability,
+      ...(data.relatedTo && { relatedTo: data.relatedTo }),
+    };
+  }
+
+  const chapters = report.chapters.map((chapter) =>
+    chapter.block === item.block
+      ? toChapter({ ...data, timestamp: chapter.timestamp }, chapter.block)
+      : chapter,
+  );
+  return {
+    ...rest,
+    ...buildExpeditionReport(chapters, getReportTier(report), item.language),
+  };
+};
+
+// Re-requests every fallback part of a report. Resolves to the report with
+// whatever came through applied, or null when the signal is still lost.
+export const reestablishSignal = async (
+  report: ObservationReport,
+  archive: ArchiveEntry[],
+  language: Language,
+): Promise<ObservationReport | null> => {
+  let next = report;
+  for (const item of getTransmissions(report, language)) {
+    const data = await requestTransmission(item, archive);
+    if (data.isSystemGenerated) break;
+    next = applyTransmission(next, item, data);
+  }
+  return next === report ? null : next;
+};
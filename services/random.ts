@@ -0,0 +1,26 @@
+// Seeded randomness for anything that must look random yet render the same
+// every time (visual feeds, generated fallback text)
+
+// FNV-1a 32-bit hash of a string
+export const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Mulberry32 PRNG: returns a function yielding floats in [0, 1)
+export const mulberry32 = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeededRandom = (seed: string) => mulberry32(hashString(seed));
@@ -0,0 +1,227 @@
+import { ObservationReport, TIER_CSS_VARS, getReportTier } from "../types";
+import { drawVisualFeed } from "./visualFeed";
+
+// Report card rendered straight to canvas for sharing as a PNG
+
+export const SHARE_CARD_SIZES = {
+  landscape: { width: 1200, height: 630 }, // Open Graph / X link previews
+  square: { width: 1080, height: 1080 }, // Feed posts
+  story: { width: 1080, height: 1920 }, // Stories / status
+} as const;
+
+export type ShareCardSize = keyof typeof SHARE_CARD_SIZES;
+
+// Localized strings, passed in from the component's i18n context
+export interface ShareCardLabels {
+  tierName: string;
+  visualFeed: string;
+  observerLog: string;
+  entropy: string;
+  integrity: string;
+  minutes: string;
+}
+
+// Same families as index.html; canvas text silently falls back unless loaded
+const FONTS = {
+  display: "'Cinzel', serif",
+  serif: "'Crimson Text', serif",
+  mono: "'Space Mono', monospace",
+};
+
+const loadFonts = async () => {
+  if (!document.fonts) return;
+  await Promise.all([
+    document.fonts.load(`700 48px ${FONTS.display}`),
+    document.fonts.load(`italic 400 32px ${FONTS.serif}`),
+    document.fonts.load(`400 32px ${FONTS.serif}`),
+    document.fonts.load(`400 20px ${FONTS.mono}`),
+    document.fonts.load(`700 20px ${FONTS.mono}`),
+  ]).catch(() => {});
+};
+
+const readCssVar = (name: string, fallback: string) =>
+  getComputedStyle(document.documentElement).getPropertyValue(name).trim() ||
+  fallback;
+
+// Words for spaced scripts, single characters for CJK (which wraps anywhere)
+const TOKEN_PATTERN = /[\u3000-\u9fff\uff00-\uffef]|[^\s\u3000-\u9fff\uff00-\uffef]+|\s+/g;
+
+// Greedy line wrapping; the last line gets an ellipsis when text is cut
+const wrapText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  maxLines: number,
+): string[] => {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const token of text.match(TOKEN_PATTERN) ?? []) {
+    const candidate = line + token;
+    if (ctx.measureText(candidate).width <= maxWidth || !line.trim()) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line.trimEnd());
+    line = token.trimStart();
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line.trim()) lines.push(line.trimEnd());
+
+  const visible = (value: string) => value.replace(/\s+/g, "").length;
+  const truncated = visible(lines.join("")) < visible(text);
+  if (truncated && lines.length) {
+    let last = lines[lines.length - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    lines[lines.length - 1] = `${last.trimEnd()}…`;
+  }
+  return lines;
+};
+
+// Draws wrapped text and returns the y below it
+const drawParagraph = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  lineHeight: number,
+  maxLines: number,
+) => {
+  const lines = wrapText(ctx, text, maxWidth, maxLines);
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * lineHeight));
+  return y + lines.length * lineHeight;
+};
+
+export const renderShareCard = async (
+  report: ObservationReport,
+  size: ShareCardSize,
+  labels: ShareCardLabels,
+): Promise<HTMLCanvasElement> => {
+  await loadFonts();
+
+  const { width, height } = SHARE_CARD_SIZES[size];
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas unavailable");
+
+  const tierColor = readCssVar(TIER_CSS_VARS[getReportTier(report)], "#22d3ee");
+  const background = readCssVar("--background", "#020617");
+  const muted = readCssVar("--muted", "#64748b");
+  const unit = Math.min(width, height) / 40;
+  const padding = unit * 2.5;
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  // Feed beside the text on wide cards, above it on tall ones
+  const sideBySide = width > height;
+  const feed = sideBySide
+    ? { x: 0, y: 0, width: Math.round(width * 0.42), height }
+    : { x: 0, y: 0, width, height: Math.round(height * (size === "story" ? 0.42 : 0.38)) };
+
+  // Drawn on its own canvas: the glitch layer reads back its own pixels
+  const feedCanvas = document.createElement("canvas");
+  feedCanvas.width = feed.width;
+  feedCanvas.height = feed.height;
+  const feedCtx = feedCanvas.getContext("2d");
+  if (feedCtx) {
+    drawVisualFeed(feedCtx, feed.width, feed.height, report);
+    ctx.drawImage(feedCanvas, feed.x, feed.y);
+  }
+
+  // Fade the feed into the card
+  const fade = sideBySide
+    ? ctx.createLinearGradient(feed.width * 0.6, 0, feed.width, 0)
+    : ctx.createLinearGradient(0, feed.height * 0.55, 0, feed.height);
+  fade.addColorStop(0, "rgba(0, 0, 0, 0)");
+  fade.addColorStop(1, background);
+  ctx.fillStyle = fade;
+  ctx.fillRect(feed.x, feed.y, feed.width, feed.height);
+
+  // Tier accent bar
+  const accent = ctx.createLinearGradient(0, 0, width, 0);
+  accent.addColorStop(0, "rgba(0, 0, 0, 0)");
+  accent.addColorStop(0.5, tierColor);
+  accent.addColorStop(1, "rgba(0, 0, 0, 0)");
+  ctx.fillStyle = accent;
+  ctx.fillRect(0, 0, width, Math.max(4, unit * 0.25));
+
+  const left = sideBySide ? feed.width + padding * 0.5 : padding;
+  const textWidth = width - left - padding;
+  let y = sideBySide ? padding * 1.2 : feed.height + padding * 0.6;
+  ctx.textBaseline = "top";
+
+  // Header
+  ctx.fillStyle = muted;
+  ctx.font = `400 ${unit * 0.8}px ${FONTS.mono}`;
+  ctx.fillText("INTO THE ABYSS // OBS-99", left, y);
+  y += unit * 1.8;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `700 ${unit * 2.6}px ${FONTS.display}`;
+  ctx.fillText(report.dimensionCode, left, y);
+  y += unit * 3.2;
+
+  ctx.fillStyle = tierColor;
+  ctx.font = `700 ${unit * 0.9}px ${FONTS.mono}`;
+  ctx.fillText(`// ${labels.tierName}`.toUpperCase(), left, y);
+  y += unit * 2.2;
+
+  // Narrative, given whatever room the card size leaves
+  const footerHeight = unit * 2.5;
+  const available = height - padding - footerHeight - y;
+  const narrativeLines = Math.max(2, Math.floor(available / (unit * 1.45)) - 3);
+  const environmentLines = Math.max(1, Math.floor(narrativeLines * 0.45));
+  const logLines = Math.max(1, narrativeLines - environmentLines);
+
+  ctx.fillStyle = muted;
+  ctx.font = `400 ${unit * 0.7}px ${FONTS.mono}`;
+  ctx.fillText(labels.visualFeed.toUpperCase(), left, y);
+  y += unit * 1.2;
+  ctx.fillStyle = "#cbd5e1";
+  ctx.font = `italic 400 ${unit * 1.05}px ${FONTS.serif}`;
+  y = drawParagraph(ctx, `"${report.environment}"`, left, y, textWidth, unit * 1.4, environmentLines);
+  y += unit * 0.9;
+
+  ctx.fillStyle = muted;
+  ctx.font = `400 ${unit * 0.7}px ${FONTS.mono}`;
+  ctx.fillText(labels.observerLog.toUpperCase(), left, y);
+  y += unit * 1.2;
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `400 ${unit * 1.15}px ${FONTS.serif}`;
+  drawParagraph(ctx, report.log, left, y, textWidth, unit * 1.5, logLines);
+
+  // Footer specs
+  const footerY = height - padding - unit;
+  ctx.strokeStyle = "rgba(148, 163, 184, 0.25)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(left, footerY - unit * 0.8);
+  ctx.lineTo(left + textWidth, footerY - unit * 0.8);
+  ctx.stroke();
+
+  ctx.fillStyle = muted;
+  ctx.font = `400 ${unit * 0.75}px ${FONTS.mono}`;
+  const specs = [
+    `${labels.entropy} ${report.entropy.toFixed(4)}`,
+    `${labels.integrity} ${report.stability}`,
+    `${report.duration} ${labels.minutes}`,
+    new Date(report.timestamp).toISOString().slice(0, 10),
+  ].join("  //  ");
+  ctx.fillText(wrapText(ctx, specs, textWidth, 1)[0] ?? "", left, footerY);
+
+  return canvas;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))),
+      "image/png",
+    ),
+  );
@@ -0,0 +1,60 @@
+import { ObservationReport, getReportTier } from "../types";
+import { Language, getClientToken } from "./geminiService";
+
+// Publishes a report snapshot through the worker's /api/share route.
+// Task text, pauses and chapters stay private; only the observation is shared.
+
+export class ShareUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareUnavailableError";
+  }
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Resolves to the public URL of the share page. `language` stands in for
+// reports saved before their language was recorded.
+export const createShareLink = async (
+  report: ObservationReport,
+  language: Language,
+  previewImage: Blob | null,
+): Promise<string> => {
+  const response = await fetch("/api/share", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Client-Token": getClientToken(),
+    },
+    body: JSON.stringify({
+      report: {
+        dimensionCode: report.dimensionCode,
+        environment: report.environment,
+        log: report.log,
+        entropy: report.entropy,
+        stability: report.stability,
+        duration: report.duration,
+        tier: getReportTier(report),
+        timestamp: report.timestamp,
+        language: report.language ?? language,
+      },
+      image: previewImage ? await blobToDataUrl(previewImage) : null,
+    }),
+  });
+
+  // 404: no worker in front (plain `vite` dev); 501: no share store bound
+  if (response.status === 404 || response.status === 501) {
+    throw new ShareUnavailableError("Sharing not configured");
+  }
+  if (!response.ok) {
+    throw new Error(`Share failed: ${response.status}`);
+  }
+  const { url } = await response.json();
+  return url;
+};
@@ -0,0 +1,318 @@
+import { ArchiveEntry, FocusTier, SignalLostEntry, Task, getEntryTier } from "../types";
+import { mergeArchives } from "./archiveTransfer";
+import { migrateTasks } from "./tasks";
+
+// Persistence for the archive and task list (IndexedDB), plus the one list of
+// localStorage keys still used for small settings and in-progress state.
+
+export const STORAGE_KEYS = {
+  session: "4th_dim_session",
+  clientToken: "4th_dim_client_token",
+  notifications: "4th_dim_notifications",
+  sync: "4th_dim_sync",
+  taskTombstones: "4th_dim_task_tombstones",
+  language: "gazing_abyss_lang",
+  // Legacy: imported into IndexedDB by schema v1, then removed
+  archive: "4th_dim_archive",
+  tasks: "4th_dim_tasks",
+  // Legacy: aborted sessions used to live outside the archive
+  aborts: "4th_dim_aborts",
+} as const;
+
+const DB_NAME = "into-the-abyss";
+const ARCHIVE_STORE = "archive";
+const RECORD_STORE = "records"; // Out-of-line keys, whole values (e.g. the task list)
+const TASKS_RECORD = "tasks";
+
+// Archive rows keep the tier next to the entry, since older reports only
+// imply it through their duration and an index needs a real field
+interface ArchiveRow {
+  id: string;
+  timestamp: number;
+  tier: FocusTier;
+  entry: ArchiveEntry;
+}
+
+export interface ArchivePageQuery {
+  tiers: FocusTier[]; // empty = every tier
+  from: number; // epoch ms, inclusive
+  to: number; // epoch ms, inclusive
+  order: "newest" | "oldest";
+  limit: number;
+}
+
+export interface ArchivePage {
+  entries: ArchiveEntry[];
+  total: number; // matches across all pages
+}
+
+const toRow = (entry: ArchiveEntry): ArchiveRow => ({
+  id: entry.id,
+  timestamp: entry.timestamp,
+  tier: getEntryTier(entry),
+  entry,
+});
+
+const readLegacy = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Archive as it was kept in localStorage, with legacy aborts folded in as lost signals
+const readLegacyArchive = (): ArchiveEntry[] => {
+  // Rows need a key; anything without one could never have been shown anyway
+  const archive = readLegacy<ArchiveEntry[]>(STORAGE_KEYS.archive, []).filter(
+    (entry) => typeof entry?.id === "string" && typeof entry.timestamp === "number",
+  );
+  const aborts = readLegacy<Omit<SignalLostEntry, "kind" | "taskContext">[]>(
+    STORAGE_KEYS.aborts,
+    [],
+  );
+  const lost = aborts.map(
+    (abort): SignalLostEntry => ({ ...abort, kind: "signalLost", taskContext: "" }),
+  );
+  return mergeArchives(archive, lost).archive;
+};
+
+// ============================================
+// SCHEMA MIGRATIONS
+// ============================================
+
+// Runs inside the versionchange transaction; true when localStorage data was
+// imported and can be cleared once that transaction commits
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => boolean;
+
+// Entry i upgrades the database to version i + 1. Append only; never edit a
+// migration that has shipped.
+const MIGRATIONS: Migration[] = [
+  // v1: archive indexed by time and by tier + time, task list record,
+  // existing localStorage data imported
+  (db, transaction) => {
+    const archive = db.createObjectStore(ARCHIVE_STORE, { keyPath: "id" });
+    archive.createIndex("timestamp", "timestamp");
+    archive.createIndex("tier_timestamp", ["tier", "timestamp"]);
+    db.createObjectStore(RECORD_STORE);
+
+    readLegacyArchive().forEach((entry) =>
+      transaction.objectStore(ARCHIVE_STORE).put(toRow(entry)),
+    );
+    transaction
+      .objectStore(RECORD_STORE)
+      .put(migrateTasks(readLegacy(STORAGE_KEYS.tasks, [])), TASKS_RECORD);
+    return true;
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB unavailable"));
+      return;
+    }
+    let importedLegacy = false;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        importedLegacy = MIGRATIONS[version](request.result, transaction) || importedLegacy;
+      }
+    };
+    request.onsuccess = () => {
+      if (importedLegacy) {
+        localStorage.removeItem(STORAGE_KEYS.archive);
+        localStorage.removeItem(STORAGE_KEYS.tasks);
+        localStorage.removeItem(STORAGE_KEYS.aborts);
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    // Another tab still has an older version open
+    request.onblocked = () => console.warn("Storage upgrade waiting for other tabs to close");
+  });
+  return databasePromise;
+};
+
+// Resolves once the transaction commits, with whatever `run` produced
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => T,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const result = run(transaction);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// ============================================
+// WRITES
+// ============================================
+
+// Writes run one at a time, and reads wait for them, so a page queried right
+// after a change already contains it
+let pendingWrites: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (write: () => Promise<void>) => {
+  pendingWrites = pendingWrites
+    .then(write)
+    .catch((error) => console.error("Storage write failed:", error));
+};
+
+// Last archive written, so each save only touches entries that changed
+let savedArchive = new Map<string, ArchiveEntry>();
+// Set when IndexedDB cannot be opened (e.g. some private modes)
+let useLocalStorage = false;
+
+export const loadArchive = async (): Promise<ArchiveEntry[]> => {
+  try {
+    const rows = await transact([ARCHIVE_STORE], "readonly", (transaction) =>
+      transaction.objectStore(ARCHIVE_STORE).index("timestamp").getAll(),
+    );
+    const archive = (rows.result as ArchiveRow[]).map((row) => row.entry).reverse();
+    savedArchive = new Map(archive.map((entry) => [entry.id, entry]));
+    return archive;
+  } catch (error) {
+    console.error("IndexedDB unavailable, falling back to localStorage:", error);
+    useLocalStorage = true;
+    return readLegacyArchive();
+  }
+};
+
+// Diffs against the last save by reference: entries are replaced, never mutated
+export const saveArchive = (archive: ArchiveEntry[]) => {
+  if (useLocalStorage) {
+    localStorage.setItem(STORAGE_KEYS.archive, JSON.stringify(archive));
+    return;
+  }
+
+  const next = new Map(archive.map((entry) => [entry.id, entry]));
+  const changed = archive.filter((entry) => savedArchive.get(entry.id) !== entry);
+  const removed = Array.from(savedArchive.keys()).filter((id) => !next.has(id));
+  savedArchive = next;
+  if (!changed.length && !removed.length) return;
+
+  enqueueWrite(() =>
+    transact([ARCHIVE_STORE], "readwrite", (transaction) => {
+      const store = transaction.objectStore(ARCHIVE_STORE);
+      changed.forEach((entry) => store.put(toRow(entry)));
+      removed.forEach((id) => store.delete(id));
+    }),
+  );
+};
+
+export const loadTasks = async (): Promise<Task[]> => {
+  try {
+    const request = await transact([RECORD_STORE], "readonly", (transaction) =>
+      transaction.objectStore(RECORD_STORE).get(TASKS_RECORD),
+    );
+    return migrateTasks(request.result);
+  } catch (error) {
+    console.error("IndexedDB unavailable, falling back to localStorage:", error);
+    useLocalStorage = true;
+    return migrateTasks(readLegacy(STORAGE_KEYS.tasks, []));
+  }
+};
+
+// The task list is small and ordered, so it is stored as one record
+export const saveTasks = (tasks: Task[]) => {
+  if (useLocalStorage) {
+    localStorage.setItem(STORAGE_KEYS.tasks, JSON.stringify(tasks));
+    return;
+  }
+  enqueueWrite(() =>
+    transact([RECORD_STORE], "readwrite", (transaction) => {
+      transaction.objectStore(RECORD_STORE).put(tasks, TASKS_RECORD);
+    }),
+  );
+};
+
+// ============================================
+// ARCHIVE QUERIES
+// ============================================
+
+// Up to `limit` rows from one index range, in display order
+const readRange = (
+  index: IDBIndex,
+  range: IDBKeyRange,
+  direction: IDBCursorDirection,
+  limit: number,
+): Promise<ArchiveRow[]> =>
+  new Promise((resolve, reject) => {
+    const rows: ArchiveRow[] = [];
+    const request = index.openCursor(range, direction);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || rows.length >= limit) {
+        resolve(rows);
+        return;
+      }
+      rows.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const countRange = (index: IDBIndex, range: IDBKeyRange): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const request = index.count(range);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// First `limit` entries in a time window, optionally limited to some tiers.
+// Each tier is read from its own slice of the tier + time index and the
+// slices merged, so no rows outside the requested tiers are touched.
+export const queryArchive = async ({
+  tiers,
+  from,
+  to,
+  order,
+  limit,
+}: ArchivePageQuery): Promise<ArchivePage> => {
+  // Yield once so saves triggered by the same render (parent effects run
+  // after child ones) are queued before waiting on them
+  await Promise.resolve();
+  await pendingWrites;
+  if (from > to) return { entries: [], total: 0 };
+  const direction: IDBCursorDirection = order === "newest" ? "prev" : "next";
+
+  if (useLocalStorage) {
+    const matches = readLegacyArchive()
+      .filter((entry) => entry.timestamp >= from && entry.timestamp <= to)
+      .filter((entry) => !tiers.length || tiers.includes(getEntryTier(entry)))
+      .sort((a, b) => (order === "newest" ? b.timestamp - a.timestamp : a.timestamp - b.timestamp));
+    return { entries: matches.slice(0, limit), total: matches.length };
+  }
+
+  const db = await openDatabase();
+  const store = db.transaction(ARCHIVE_STORE, "readonly").objectStore(ARCHIVE_STORE);
+  const slices = tiers.length
+    ? tiers.map((tier) => ({
+        index: store.index("tier_timestamp"),
+        range: IDBKeyRange.bound([tier, from], [tier, to]),
+      }))
+    : [{ index: store.index("timestamp"), range: IDBKeyRange.bound(from, to) }];
+
+  const [rows, counts] = await Promise.all([
+    Promise.all(slices.map(({ index, range }) => readRange(index, range, direction, limit))),
+    Promise.all(slices.map(({ index, range }) => countRange(index, range))),
+  ]);
+  const entries = rows
+    .flat()
+    .sort((a, b) => (order === "newest" ? b.timestamp - a.timestamp : a.timestamp - b.timestamp))
+    .slice(0, limit)
+    .map((row) => row.entry);
+  return { entries, total: counts.reduce((sum, count) => sum + count, 0) };
+};
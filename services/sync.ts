@@ -0,0 +1,146 @@
+import { ArchiveEntry } from "../types";
+import { parseEntry } from "./archiveTransfer";
+import { getClientToken } from "./geminiService";
+import { STORAGE_KEYS } from "./storage";
+import {
+  MAX_SYNC_ARCHIVE_ENTRIES,
+  MAX_SYNC_BODY_BYTES,
+  SyncSnapshot,
+  TaskTombstones,
+} from "./syncMerge";
+import { migrateTasks } from "./tasks";
+
+// Client for the worker's /api/sync routes. The space token is the only
+// credential: anyone holding it can read and overwrite the synced data.
+
+export interface SyncLink {
+  token: string;
+  lastSyncedAt: number | null;
+}
+
+export interface PairingCode {
+  code: string; // 8 characters, shown as XXXX-XXXX
+  expiresAt: number;
+}
+
+// No worker or no sync store in front of the app
+export class SyncUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncUnavailableError";
+  }
+}
+
+// The space behind the stored token no longer exists, or the code was wrong/expired
+export class SyncRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncRejectedError";
+  }
+}
+
+// The local data is over the push limits; retrying cannot help until it shrinks
+export class SyncTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncTooLargeError";
+  }
+}
+
+export const loadSyncLink = (): SyncLink | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.sync) ?? "null");
+    return typeof saved?.token === "string" ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSyncLink = (link: SyncLink | null) => {
+  if (link) localStorage.setItem(STORAGE_KEYS.sync, JSON.stringify(link));
+  else localStorage.removeItem(STORAGE_KEYS.sync);
+};
+
+export const loadTaskTombstones = (): TaskTombstones => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEYS.taskTombstones) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const saveTaskTombstones = (tombstones: TaskTombstones) =>
+  localStorage.setItem(STORAGE_KEYS.taskTombstones, JSON.stringify(tombstones));
+
+export const formatPairingCode = (code: string) =>
+  `${code.slice(0, 4)}-${code.slice(4)}`;
+
+const postSync = async (
+  path: string,
+  body: unknown,
+  token: string | null = null,
+): Promise<Record<string, unknown>> => {
+  const response = await fetch(`/api/sync${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Client-Token": getClientToken(),
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (response.status === 413) {
+    throw new SyncTooLargeError("Sync payload too large");
+  }
+  if (response.status === 401 || response.status === 404) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    if (typeof error === "string") throw new SyncRejectedError(error);
+  }
+  // Bare 404: no worker in front (plain `vite` dev); 501: no sync store bound
+  if (response.status === 404 || response.status === 501) {
+    throw new SyncUnavailableError("Sync not configured");
+  }
+  if (!response.ok) {
+    throw new Error(`Sync failed: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const createSyncSpace = async (): Promise<string> => {
+  const { token } = await postSync("/space", {});
+  return token as string;
+};
+
+export const createPairingCode = async (token: string): Promise<PairingCode> => {
+  const { code, expiresAt } = await postSync("/pair", {}, token);
+  return { code: code as string, expiresAt: expiresAt as number };
+};
+
+// Resolves to the token of the space the code was issued for
+export const claimPairingCode = async (code: string): Promise<string> => {
+  const { token } = await postSync("/claim", { code });
+  return token as string;
+};
+
+// Pushes the local snapshot and resolves to the merged state held by the worker
+export const syncSnapshot = async (
+  token: string,
+  local: SyncSnapshot,
+): Promise<SyncSnapshot> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(local)).byteLength;
+  if (local.archive.length > MAX_SYNC_ARCHIVE_ENTRIES || bytes > MAX_SYNC_BODY_BYTES) {
+    throw new SyncTooLargeError(
+      `Archive too large to sync: ${local.archive.length} entries, ${bytes} bytes`,
+    );
+  }
+  const data = await postSync("", local, token);
+  const archive = Array.isArray(data.archive) ? data.archive : [];
+  return {
+    archive: archive
+      .map(parseEntry)
+      .filter((entry): entry is ArchiveEntry => entry !== null),
+    tasks: migrateTasks(data.tasks),
+    deletedTasks: (data.deletedTasks ?? {}) as TaskTombstones,
+  };
+};
@@ -0,0 +1,101 @@
+import { ArchiveEntry, Task, isSignalLost } from "../types";
+
+// Conflict resolution for cloud sync, shared by the client and the worker.
+// Records are matched by id and the most recently updated copy wins; deleted
+// tasks leave a tombstone so a stale device cannot bring them back.
+
+// Task id -> deletion time (ms)
+export type TaskTombstones = Record<string, number>;
+
+export interface SyncSnapshot {
+  archive: ArchiveEntry[];
+  tasks: Task[];
+  deletedTasks: TaskTombstones;
+}
+
+// Upper bounds for one push, checked by the client before sending and by the
+// worker on receipt. Archive entries average well under 4 KB of JSON (CJK
+// narratives included), so a full archive fills roughly the byte budget.
+export const MAX_SYNC_BODY_BYTES = 8 * 1024 * 1024;
+export const MAX_SYNC_ARCHIVE_ENTRIES = 2000;
+
+// Tombstones older than this are dropped; a device offline for longer may resurrect tasks
+export const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const emptySnapshot = (): SyncSnapshot => ({
+  archive: [],
+  tasks: [],
+  deletedTasks: {},
+});
+
+// Latest deletion per id, minus expired ones
+export const mergeTombstones = (
+  local: TaskTombstones,
+  remote: TaskTombstones,
+  now: number = Date.now(),
+): TaskTombstones => {
+  const merged: TaskTombstones = {};
+  [local, remote].forEach((tombstones) =>
+    Object.entries(tombstones).forEach(([id, deletedAt]) => {
+      if (now - deletedAt > TOMBSTONE_RETENTION_MS) return;
+      merged[id] = Math.max(merged[id] ?? 0, deletedAt);
+    }),
+  );
+  return merged;
+};
+
+// Local list order wins; tasks only known remotely (added on another
+// device) go on top, the same place a freshly added task would
+export const mergeTasks = (
+  local: Task[],
+  remote: Task[],
+  deletedTasks: TaskTombstones,
+): Task[] => {
+  const remoteById = new Map(remote.map((task) => [task.id, task]));
+  const localIds = new Set(local.map((task) => task.id));
+  const alive = (task: Task) =>
+    deletedTasks[task.id] === undefined || task.updatedAt > deletedTasks[task.id];
+
+  const added = remote.filter((task) => !localIds.has(task.id));
+  const kept = local.map((task) => {
+    const other = remoteById.get(task.id);
+    // Ties keep the local copy so an unchanged list stays referentially stable
+    return other && other.updatedAt > task.updatedAt ? other : task;
+  });
+  return [...added, ...kept].filter(alive);
+};
+
+// Archive entries are immutable once written, so their timestamp is the updated-at
+export const mergeArchive = (
+  local: ArchiveEntry[],
+  remote: ArchiveEntry[],
+): ArchiveEntry[] => {
+  const byId = new Map(local.map((entry) => [entry.id, entry]));
+  remote.forEach((entry) => {
+    const existing = byId.get(entry.id);
+    // A real report sent for an offline fallback keeps its timestamp
+    const replacesFallback =
+      entry.timestamp === existing?.timestamp &&
+      !isSignalLost(existing) &&
+      existing.isSystemGenerated &&
+      !isSignalLost(entry) &&
+      !entry.isSystemGenerated;
+    if (!existing || entry.timestamp > existing.timestamp || replacesFallback) {
+      byId.set(entry.id, entry);
+    }
+  });
+  return Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const mergeSnapshots = (
+  local: SyncSnapshot,
+  remote: SyncSnapshot,
+  now: number = Date.now(),
+): SyncSnapshot => {
+  const deletedTasks = mergeTombstones(local.deletedTasks, remote.deletedTasks, now);
+  return {
+    archive: mergeArchive(local.archive, remote.archive),
+    tasks: mergeTasks(local.tasks, remote.tasks, deletedTasks),
+    deletedTasks,
+  };
+};
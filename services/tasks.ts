@@ -0,0 +1,105 @@
+import { Task } from "../types";
+
+export const MAX_TASK_ESTIMATE = 20; // sessions
+
+// Inline #tags in a directive, e.g. "Draft spec #work #deep"
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g;
+
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, "").toLowerCase();
+
+// Split "text #tag" input into clean text and unique tags
+export const parseTaskInput = (input: string): { text: string; tags: string[] } => {
+  const tags = Array.from(input.matchAll(TAG_PATTERN), (m) => normalizeTag(m[2]));
+  return {
+    text: input.replace(TAG_PATTERN, " ").replace(/\s+/g, " ").trim(),
+    tags: Array.from(new Set(tags)),
+  };
+};
+
+export const createTask = (input: string, now: number = Date.now()): Task | null => {
+  const { text, tags } = parseTaskInput(input);
+  if (!text) return null;
+  return {
+    id: now.toString(),
+    text,
+    completed: false,
+    priority: false,
+    notes: "",
+    tags,
+    estimate: null,
+    createdAt: now,
+    completedAt: null,
+    updatedAt: now,
+  };
+};
+
+export const setTaskCompleted = (task: Task, completed: boolean): Task => ({
+  ...task,
+  completed,
+  completedAt: completed ? Date.now() : null,
+  updatedAt: Date.now(),
+});
+
+// Move a task so it sits where `targetId` is now (list order is display order)
+export const moveTask = (tasks: Task[], id: string, targetId: string): Task[] => {
+  const from = tasks.findIndex((t) => t.id === id);
+  const to = tasks.findIndex((t) => t.id === targetId);
+  if (from === -1 || to === -1 || from === to) return tasks;
+  const next = [...tasks];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// ============================================
+// STORAGE MIGRATION
+// ============================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Fill fields added after the first release ({ id, text, completed, priority })
+const migrateTask = (value: unknown): Task | null => {
+  if (!isRecord(value) || typeof value.id !== "string" || typeof value.text !== "string")
+    return null;
+
+  // Legacy ids were Date.now() strings, which doubles as a creation time
+  const legacyCreatedAt = Number(value.id);
+  const completed = value.completed === true;
+  const createdAt =
+    typeof value.createdAt === "number"
+      ? value.createdAt
+      : Number.isFinite(legacyCreatedAt)
+        ? legacyCreatedAt
+        : Date.now();
+  const completedAt =
+    completed && typeof value.completedAt === "number" ? value.completedAt : null;
+
+  return {
+    id: value.id,
+    text: value.text,
+    completed,
+    priority: value.priority === true,
+    notes: typeof value.notes === "string" ? value.notes : "",
+    tags: Array.isArray(value.tags)
+      ? value.tags.filter((tag): tag is string => typeof tag === "string")
+      : [],
+    estimate:
+      typeof value.estimate === "number" && value.estimate > 0
+        ? Math.min(MAX_TASK_ESTIMATE, Math.round(value.estimate))
+        : null,
+    createdAt,
+    completedAt,
+    // Tasks saved before sync existed were last touched no later than this
+    updatedAt:
+      typeof value.updatedAt === "number" ? value.updatedAt : (completedAt ?? createdAt),
+  };
+};
+
+// Parse whatever is stored under the tasks key (or received from sync),
+// upgrading older task shapes
+export const migrateTasks = (stored: unknown): Task[] =>
+  Array.isArray(stored)
+    ? stored.map(migrateTask).filter((t): t is Task => t !== null)
+    : [];
@@ -0,0 +1,183 @@
+import { Stability } from "../types";
+import { createSeededRandom } from "./random";
+
+// Procedural "visual feed" for an observation report: a nebula, a lattice
+// warped by entropy and glitch damage scaled by instability. Everything is
+// derived from the seed, so a report always renders the same image.
+
+export interface VisualFeedSeed {
+  dimensionCode: string;
+  entropy: number; // 0-1
+  stability: Stability;
+}
+
+// Base hues per stability; the dimension code shifts them slightly
+const STABILITY_HUES: Record<Stability, number[]> = {
+  Stable: [188, 200, 165],
+  Unstable: [265, 38, 290],
+  Critical: [350, 320, 15],
+  Collapsed: [220, 0, 280],
+};
+
+// 0 = intact signal, 1 = barely readable
+const DAMAGE: Record<Stability, number> = {
+  Stable: 0,
+  Unstable: 0.25,
+  Critical: 0.55,
+  Collapsed: 0.85,
+};
+
+type Random = () => number;
+
+const range = (random: Random, min: number, max: number) =>
+  min + random() * (max - min);
+
+const drawNebula = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  random: Random,
+  hues: number[],
+  saturation: number,
+) => {
+  ctx.globalCompositeOperation = "lighter";
+  const clouds = 4 + Math.floor(random() * 5);
+  for (let i = 0; i < clouds; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const radius = range(random, 0.25, 0.7) * Math.max(width, height);
+    const hue = hues[i % hues.length] + range(random, -15, 15);
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, `hsla(${hue}, ${saturation}%, 55%, ${range(random, 0.18, 0.35)})`);
+    gradient.addColorStop(0.5, `hsla(${hue}, ${saturation}%, 30%, 0.08)`);
+    gradient.addColorStop(1, "hsla(0, 0%, 0%, 0)");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // Star field, denser on larger canvases
+  const stars = Math.floor((width * height) / 900);
+  for (let i = 0; i < stars; i++) {
+    const size = random() < 0.92 ? 0.6 : 1.4;
+    ctx.fillStyle = `rgba(255, 255, 255, ${range(random, 0.15, 0.8)})`;
+    ctx.fillRect(random() * width, random() * height, size, size);
+  }
+  ctx.globalCompositeOperation = "source-over";
+};
+
+// Perspective grid receding to a horizon; entropy bends the lines
+const drawLattice = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  random: Random,
+  hue: number,
+  entropy: number,
+) => {
+  const horizon = height * range(random, 0.35, 0.55);
+  const vanishX = width * range(random, 0.3, 0.7);
+  const warp = entropy * height * 0.08;
+  const frequency = range(random, 2, 6);
+  const phase = random() * Math.PI * 2;
+  const wave = (x: number) => Math.sin((x / width) * frequency * Math.PI + phase) * warp;
+
+  ctx.strokeStyle = `hsla(${hue}, 80%, 70%, ${0.35 - entropy * 0.2})`;
+  ctx.lineWidth = 1;
+
+  // Receding rows, closer together near the horizon
+  const rows = 10;
+  for (let i = 1; i <= rows; i++) {
+    const t = (i / rows) ** 2;
+    const y = horizon + (height - horizon) * t;
+    ctx.beginPath();
+    for (let x = 0; x <= width; x += 8) {
+      const offset = wave(x) * t;
+      if (x === 0) ctx.moveTo(x, y + offset);
+      else ctx.lineTo(x, y + offset);
+    }
+    ctx.stroke();
+  }
+
+  // Converging columns
+  const columns = 14;
+  for (let i = 0; i <= columns; i++) {
+    const baseX = (i / columns) * width * 1.6 - width * 0.3;
+    ctx.beginPath();
+    ctx.moveTo(vanishX, horizon);
+    ctx.lineTo(baseX + wave(baseX), height);
+    ctx.stroke();
+  }
+};
+
+// Displaced slices, channel-shifted bars and dead scanlines
+const drawGlitch = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  random: Random,
+  damage: number,
+) => {
+  // The canvas is read back in device pixels, drawn onto in CSS pixels
+  const scale = ctx.canvas.width / width;
+  const slices = Math.round(damage * 14);
+  for (let i = 0; i < slices; i++) {
+    const y = random() * height;
+    const sliceHeight = range(random, 2, height * 0.08);
+    const shift = range(random, -0.15, 0.15) * width * damage;
+    ctx.drawImage(
+      ctx.canvas,
+      0, y * scale, width * scale, sliceHeight * scale,
+      shift, y, width, sliceHeight,
+    );
+  }
+
+  ctx.globalCompositeOperation = "lighter";
+  const bars = Math.round(damage * 6);
+  for (let i = 0; i < bars; i++) {
+    ctx.fillStyle = random() < 0.5 ? "rgba(255, 0, 64, 0.12)" : "rgba(0, 255, 224, 0.1)";
+    ctx.fillRect(0, random() * height, width, range(random, 1, 6));
+  }
+  ctx.globalCompositeOperation = "source-over";
+
+  // Noise specks, only once the signal is badly degraded
+  if (damage > 0.5) {
+    const specks = Math.floor((width * height * (damage - 0.5)) / 120);
+    for (let i = 0; i < specks; i++) {
+      ctx.fillStyle = `rgba(255, 255, 255, ${range(random, 0.05, 0.3)})`;
+      ctx.fillRect(random() * width, random() * height, 1, 1);
+    }
+  }
+};
+
+const drawScanlines = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.fillStyle = "rgba(0, 0, 0, 0.18)";
+  for (let y = 0; y < height; y += 3) {
+    ctx.fillRect(0, y, width, 1);
+  }
+};
+
+// Draws in CSS pixels; callers scale the context for the device pixel ratio
+export const drawVisualFeed = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  { dimensionCode, entropy, stability }: VisualFeedSeed,
+) => {
+  const chaos = Math.min(1, Math.max(0, entropy));
+  const random = createSeededRandom(`${dimensionCode}|${chaos.toFixed(3)}|${stability}`);
+  const shift = range(random, -20, 20);
+  const hues = STABILITY_HUES[stability].map((hue) => hue + shift);
+  // Collapsed worlds are drained of color
+  const saturation = stability === "Collapsed" ? 15 : 70;
+
+  const background = ctx.createLinearGradient(0, 0, 0, height);
+  background.addColorStop(0, `hsl(${hues[0]}, ${saturation * 0.5}%, 6%)`);
+  background.addColorStop(1, "hsl(230, 40%, 3%)");
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  drawNebula(ctx, width, height, random, hues, saturation);
+  drawLattice(ctx, width, height, random, hues[1], chaos);
+  drawGlitch(ctx, width, height, random, Math.max(DAMAGE[stability], chaos * 0.6));
+  drawScanlines(ctx, width, height);
+};
@@ -1,10 +1,16 @@
+import { Language } from './services/languages';
+
 export enum AppState {
   IDLE = 'IDLE',
   FOCUSING = 'FOCUSING',
+  PAUSED = 'PAUSED', // Countdown frozen, session kept alive
+  SHORT_BREAK = 'SHORT_BREAK', // Expedition: drift between focus blocks
+  LONG_BREAK = 'LONG_BREAK', // Expedition: extended drift after every few blocks
   PROCESSING = 'PROCESSING', // Analyzing dimension...
   REPORT = 'REPORT',
   SIGNAL_LOST = 'SIGNAL_LOST',
-  ARCHIVE = 'ARCHIVE'
+  ARCHIVE = 'ARCHIVE',
+  STATS = 'STATS' // Aggregate dashboard opened from the archive
 }
 
 export enum FocusTier {
@@ -15,6 +21,97 @@ export enum FocusTier {
   SINGULARITY = 200 // 200 min
 }
 
+// Custom duration bounds (minutes)
+export const MIN_CUSTOM_DURATION = 1;
+export const MAX_CUSTOM_DURATION = 240;
+
+// Resolve any duration to the tier whose preset is closest (ties go to the shorter tier)
+export const getNearestTier = (duration: number): FocusTier => {
+  const tiers = (
+    Object.values(FocusTier).filter((v) => typeof v === "number") as number[]
+  ).sort((a, b) => a - b);
+
+  return tiers.reduce((nearest, tier) =>
+    Math.abs(tier - duration) < Math.abs(nearest - duration) ? tier : nearest,
+  ) as FocusTier;
+};
+
+export interface PauseInterval {
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+// Multi-block "expedition" configuration (break lengths in minutes)
+export interface ExpeditionPlan {
+  blocks: number;
+  shortBreak: number;
+  longBreak: number;
+  longBreakEvery: number; // a long break follows every Nth block
+}
+
+export type ExpeditionPhase = 'focus' | 'shortBreak' | 'longBreak';
+
+export interface ExpeditionProgress {
+  plan: ExpeditionPlan;
+  block: number; // 0-based index of the current (or last completed) focus block
+  phase: ExpeditionPhase;
+  chapters: ObservationChapter[];
+}
+
+// Persisted state of the running session, so a reload can pick it up again
+export interface FocusSession {
+  id: string;
+  duration: number; // in minutes
+  tier: FocusTier;
+  taskContext: string;
+  taskId?: string; // Terminal directive targeted by this session
+  startedAt: number; // epoch ms
+  endsAt: number; // epoch ms, pushed back by every resumed pause
+  pausedAt: number | null; // epoch ms while on hold
+  pauses: PauseInterval[];
+  expedition?: ExpeditionProgress; // Present only in expedition mode
+}
+
+// Remaining whole seconds derived from the wall clock (frozen while paused)
+export const getRemainingSeconds = (session: FocusSession, now: number): number => {
+  const reference = session.pausedAt ?? now;
+  return Math.max(0, Math.ceil((session.endsAt - reference) / 1000));
+};
+
+// Minutes actually spent focusing so far (breaks excluded), e.g. when a session is aborted
+export const getFocusedMinutes = (session: FocusSession, now: number): number => {
+  const expedition = session.expedition;
+  const completedBlocks = expedition
+    ? expedition.block + (expedition.phase === 'focus' ? 0 : 1)
+    : 0;
+  const inBlock =
+    !expedition || expedition.phase === 'focus'
+      ? session.duration - getRemainingSeconds(session, now) / 60
+      : 0;
+  return Math.max(0, completedBlocks * session.duration + inBlock);
+};
+
+export type Stability = 'Stable' | 'Unstable' | 'Critical' | 'Collapsed';
+
+export type { Language };
+
+// Ordered from calm to catastrophic
+export const STABILITY_LEVELS: Stability[] = ['Stable', 'Unstable', 'Critical', 'Collapsed'];
+
+// One focus block of an expedition, folded into the combined report
+export interface ObservationChapter {
+  block: number; // 0-based
+  timestamp: number;
+  duration: number; // in minutes
+  dimensionCode: string;
+  environment: string;
+  log: string;
+  entropy: number;
+  stability: Stability;
+  isSystemGenerated?: boolean;
+  awaitingSignal?: boolean;
+}
+
 export interface ObservationReport {
   id: string;
   timestamp: number;
@@ -23,15 +120,59 @@ export interface ObservationReport {
   environment: string; // Visual description
   log: string; // The narrative
   entropy: number; // 0.0 to 1.0
-  stability: 'Stable' | 'Unstable' | 'Critical' | 'Collapsed';
+  stability: Stability;
   isSystemGenerated?: boolean; // If it was a failure fallback
+  awaitingSignal?: boolean; // Fallback recorded offline; replaced once the signal returns
+  language?: Language; // Language the report was requested in
+  tier?: FocusTier; // Tier whose visuals were used (custom durations map to the nearest one)
+  pauses?: PauseInterval[]; // Interruptions during the session
+  chapters?: ObservationChapter[]; // Expedition blocks, in order
+  taskId?: string; // Directive that was the session target
+  taskContext?: string; // Its text at the time, kept if the task is later removed
+  relatedTo?: string; // Earlier report this one revisits or echoes (dimension continuity)
+}
+
+// Tier used for a report's styling and filtering
+export const getReportTier = (report: ObservationReport): FocusTier =>
+  report.tier ?? getNearestTier(report.duration);
+
+// A session abandoned before its report was generated, kept as a partial transmission
+export interface SignalLostEntry {
+  kind: 'signalLost';
+  id: string;
+  timestamp: number; // when the signal was lost
+  duration: number; // intended minutes (all blocks of an expedition)
+  elapsed: number; // minutes focused before aborting
+  tier: FocusTier;
+  taskContext: string; // active task at the time, may be empty
+  taskId?: string;
 }
 
+// Everything the archive can hold
+export type ArchiveEntry = ObservationReport | SignalLostEntry;
+
+export const isSignalLost = (entry: ArchiveEntry): entry is SignalLostEntry =>
+  'kind' in entry && entry.kind === 'signalLost';
+
+// Tier used for an entry's styling and filtering
+export const getEntryTier = (entry: ArchiveEntry): FocusTier =>
+  isSignalLost(entry) ? entry.tier : getReportTier(entry);
+
+// Minutes actually observed (partial for lost signals)
+export const getEntryMinutes = (entry: ArchiveEntry): number =>
+  isSignalLost(entry) ? entry.elapsed : entry.duration;
+
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
   priority: boolean;
+  notes: string;
+  tags: string[];
+  estimate: number | null; // Planned focus sessions
+  createdAt: number;
+  completedAt: number | null;
+  updatedAt: number; // Last local edit, used to resolve sync conflicts
 }
 
 export const TIER_CONFIG: Record<FocusTier, { name: string; color: string; desc: string }> = {
@@ -40,4 +181,13 @@ export const TIER_CONFIG: Record<FocusTier, { name: string; color: string; desc:
   [FocusTier.MIRROR_RIFT]: { name: "Mirror Rift", color: "text-blue-400", desc: "High anomalies. Biological divergence detected." },
   [FocusTier.IMAGINARY]: { name: "Imaginary Horizon", color: "text-purple-400", desc: "Physics breakdown. Abstract existence." },
   [FocusTier.SINGULARITY]: { name: "Singularity Prime", color: "text-fuchsia-500", desc: "Total reality collapse. The end of meaning." },
-};
\ No newline at end of file
+};
+
+// CSS custom properties (index.css) carrying each tier's accent color
+export const TIER_CSS_VARS: Record<FocusTier, string> = {
+  [FocusTier.QUANTUM_FLICKER]: "--tier-quantum",
+  [FocusTier.NEIGHBORING]: "--tier-neighboring",
+  [FocusTier.MIRROR_RIFT]: "--tier-mirror",
+  [FocusTier.IMAGINARY]: "--tier-imaginary",
+  [FocusTier.SINGULARITY]: "--tier-singularity",
+};
@@ -1,13 +1,44 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists every built file in /precache-manifest.json for the service worker
+// (public/sw.js) to cache on install, so the app opens offline. The list's
+// hash becomes the worker's CACHE_VERSION, so every deploy that changes an
+// asset installs a new worker and clears the old caches.
+const precacheManifest = (): Plugin => {
+  let version = '';
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.map'))
+        .map((file) => `/${file}`)
+        .sort();
+      const source = JSON.stringify(files);
+      version = createHash('sha256').update(source).digest('hex').slice(0, 12);
+      this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source });
+    },
+    // public/ is copied as-is, so the version is stamped into the output copy
+    async writeBundle(options) {
+      const file = path.join(options.dir!, 'sw.js');
+      const source = await readFile(file, 'utf8');
+      const stamped = source.replace(/const CACHE_VERSION = ".*";/, `const CACHE_VERSION = "${version}";`);
+      if (stamped === source) this.error('CACHE_VERSION not found in sw.js');
+      await writeFile(file, stamped);
+    },
+  };
+};
+
 export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
   },
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),
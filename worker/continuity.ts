@@ -0,0 +1,41 @@
+// Dimension continuity: now and then a report returns to a dimension from
+// the client's recent archive, or lets an earlier observation bleed through.
+// Picked here rather than left to the model so the rate stays predictable.
+
+import { MemoryEntry } from "./validation";
+
+// Share of reports (with memory available) that link back to an earlier one
+const CONTINUITY_CHANCE = 0.35;
+// Of those, the share that revisit the same dimension instead of echoing it
+const REVISIT_SHARE = 0.5;
+
+export interface Continuity {
+  mode: "revisit" | "echo";
+  entry: MemoryEntry;
+}
+
+export const pickContinuity = (
+  memory: MemoryEntry[],
+  random: () => number = Math.random,
+): Continuity | null => {
+  if (memory.length === 0 || random() >= CONTINUITY_CHANCE) return null;
+  // Memory is newest first; lean towards recent worlds without excluding old ones
+  const index = Math.floor(random() ** 2 * memory.length);
+  return {
+    mode: random() < REVISIT_SHARE ? "revisit" : "echo",
+    entry: memory[index],
+  };
+};
+
+// A revisit keeps the earlier dimension code whatever the model came up with
+export const applyContinuity = <T extends { dimensionCode: string }>(
+  report: T,
+  continuity: Continuity | null,
+): T & { relatedTo?: string } => {
+  if (!continuity) return report;
+  return {
+    ...report,
+    ...(continuity.mode === "revisit" && { dimensionCode: continuity.entry.code }),
+    relatedTo: continuity.entry.id,
+  };
+};
@@ -0,0 +1,30 @@
+// Origin allowlist for the API routes.
+// ALLOWED_ORIGINS (wrangler.toml [vars]) is a comma-separated list; the worker's
+// own origin is always allowed so same-origin requests keep working on any host.
+
+export const parseAllowedOrigins = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+
+// Requests without an Origin header (same-origin GETs, server-to-server) are
+// not browser cross-origin calls and are left to the rate limiter, which only
+// throttles when RATE_LIMIT_KV is bound
+export const isOriginAllowed = (request: Request, allowedOrigins: string[]): boolean => {
+  const origin = request.headers.get("Origin");
+  if (!origin) return true;
+  if (origin === new URL(request.url).origin) return true;
+  return allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+};
+
+export const getCorsHeaders = (request: Request): Record<string, string> => {
+  const origin = request.headers.get("Origin");
+  return {
+    ...(origin && { "Access-Control-Allow-Origin": origin, Vary: "Origin" }),
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, X-Client-Token",
+    "Access-Control-Expose-Headers":
+      "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
+  };
+};
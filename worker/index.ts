@@ -1,64 +1,205 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { getCorsHeaders, isOriginAllowed, parseAllowedOrigins } from "./cors";
+import {
+  RateLimitResult,
+  RateLimitRule,
+  checkRateLimit,
+  getRateLimitHeaders,
+} from "./rateLimit";
+import { Continuity, applyContinuity, pickContinuity } from "./continuity";
+import { readPartialString } from "./partialJson";
+import { buildReportPrompt } from "./prompts";
+import { ProviderConfigError, ProviderEnv, ReportProvider, createProvider } from "./providers";
+import {
+  ShareStore,
+  SHARE_ID_PATTERN,
+  SHARE_TTL_SECONDS,
+  createShareId,
+  imageKey,
+  parseShareRequest,
+  renderMissingSharePage,
+  renderSharePage,
+  snapshotKey,
+} from "./share";
+import { formatServerSentEvent } from "./sse";
+import {
+  PAIRING_TTL_SECONDS,
+  SyncStore,
+  createPairingCode,
+  createSyncToken,
+  normalizePairingCode,
+  pairingKey,
+  parseSyncPush,
+  readBearerToken,
+  spaceKey,
+} from "./sync";
+import {
+  MAX_SYNC_BODY_BYTES,
+  SyncSnapshot,
+  emptySnapshot,
+  mergeSnapshots,
+} from "../services/syncMerge";
+import {
+  ReportRequest,
+  ValidationIssue,
+  parseModelReport,
+  parseReportRequest,
+} from "./validation";
 
-interface Env {
-  GEMINI_API_KEY: string;
+interface Env extends ProviderEnv {
   ASSETS: Fetcher;
+  RATE_LIMIT_KV?: KVNamespace; // Required when deployed; unbound = no rate limiting, logged once
+  SHARE_KV?: KVNamespace; // Unbound = share links disabled
+  SYNC_KV?: KVNamespace; // Unbound = cloud sync disabled
+  ALLOWED_ORIGINS?: string; // Comma-separated, see wrangler.toml
+  RATE_LIMIT_WINDOW_SECONDS?: string;
+  RATE_LIMIT_MAX_PER_IP?: string;
+  RATE_LIMIT_MAX_PER_TOKEN?: string;
 }
 
-interface RequestBody {
-  duration: number;
-  taskContext: string;
-  tier: number;
-  language?: 'en' | 'zh';
-}
+// Fallbacks when the wrangler.toml vars are missing or invalid
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 600;
+const DEFAULT_RATE_LIMIT_MAX_PER_IP = 30;
+const DEFAULT_RATE_LIMIT_MAX_PER_TOKEN = 20;
+
+// Random per-install id sent by the client; anything else is ignored
+const CLIENT_TOKEN_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
 
-const SYSTEM_PROMPT_EN = `
-You are OBS-99, a Parallel Universe Observer executing a cross-dimensional signal capture mission.
-Your output must be a JSON object.
-
-TONE GUIDELINES:
-1. Absolutely cold, objective, and de-personalized.
-2. NO emotional support, NO "Good job", NO "Keep going".
-3. Use hard sci-fi terminology (entropy, quantum fluctuation, redshift, manifold).
-4. Describe the "dimension" the user just spent time in based on the duration.
-
-DURATION CONTEXT:
-- Micro (1m): A glitch in the matrix. Brief, confusing, unstable imagery. Flicker of alternate reality.
-- Short (25m): Subtle changes from reality.
-- Medium (60m): Noticeable biological or architectural differences.
-- Long (120m+): Abstract, non-Euclidean, metaphysical concepts.
-
-FORBIDDEN WORDS:
-"Focus", "Productivity", "Work", "Task", "Cheer up".
-`;
-
-const SYSTEM_PROMPT_ZH = `
-你是 OBS-99，一名执行跨维度信号捕获任务的平行宇宙观察者。
-你的输出必须是 JSON 对象。
-
-语气指南：
-1. 绝对冷静、客观、去人格化。
-2. 禁止情感支持，禁止"加油"、"做得好"、"继续努力"。
-3. 使用硬科幻术语（熵、量子涨落、红移、流形）。
-4. 根据持续时间描述用户刚刚度过时间的"维度"。
-
-持续时间语境：
-- 微观 (1分钟)：矩阵中的故障。短暂、混乱、不稳定的图像。平行现实的闪烁。
-- 短期 (25分钟)：与现实的细微差异。
-- 中期 (60分钟)：明显的生物或建筑差异。
-- 长期 (120分钟+)：抽象的、非欧几里得的、形而上学的概念。
-
-禁用词汇：
-"专注"、"生产力"、"工作"、"任务"、"加油"。
-`;
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
+// Warn once per isolate rather than on every request
+let warnedUnlimited = false;
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value ?? "", 10);
+  return parsed > 0 ? parsed : fallback;
 };
 
-async function handleGeminiRequest(request: Request, env: Env): Promise<Response> {
+// Per-IP and per-client-token budgets; null when no counter store is bound.
+// Routes with a bucket count separately, so background sync cannot use up
+// the budget for reports.
+async function applyRateLimit(
+  request: Request,
+  env: Env,
+  bucket?: string,
+): Promise<RateLimitResult | null> {
+  if (!env.RATE_LIMIT_KV) {
+    if (!warnedUnlimited) {
+      warnedUnlimited = true;
+      console.warn("RATE_LIMIT_KV is not bound: API requests are not rate limited (see wrangler.toml)");
+    }
+    return null;
+  }
+
+  const prefix = bucket ? `${bucket}:` : "";
+  const rules: RateLimitRule[] = [
+    {
+      scope: "ip",
+      id: prefix + (request.headers.get("CF-Connecting-IP") ?? "unknown"),
+      limit: positiveInt(env.RATE_LIMIT_MAX_PER_IP, DEFAULT_RATE_LIMIT_MAX_PER_IP),
+    },
+  ];
+  const token = request.headers.get("X-Client-Token");
+  if (token && CLIENT_TOKEN_PATTERN.test(token)) {
+    rules.push({
+      scope: "token",
+      id: prefix + token,
+      limit: positiveInt(env.RATE_LIMIT_MAX_PER_TOKEN, DEFAULT_RATE_LIMIT_MAX_PER_TOKEN),
+    });
+  }
+
+  try {
+    return await checkRateLimit(
+      env.RATE_LIMIT_KV,
+      rules,
+      positiveInt(env.RATE_LIMIT_WINDOW_SECONDS, DEFAULT_RATE_LIMIT_WINDOW_SECONDS),
+    );
+  } catch (error) {
+    // Fail open: a KV outage should not take the observatory down with it
+    console.error("Rate limit check failed:", error);
+    return null;
+  }
+}
+
+const invalidRequest = (issues: ValidationIssue[], corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "invalid_request", issues }),
+    { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+// Narrative fields relayed to the client while the model is still writing
+const STREAMED_FIELDS = ["environment", "log"] as const;
+
+// SSE variant of the report route: "telemetry" events carry new environment/log
+// text as it is generated, then a single "report" (validated, same shape as the
+// JSON route) or "error" event ends the stream.
+function streamReport(
+  provider: ReportProvider,
+  reportRequest: ReportRequest,
+  continuity: Continuity | null,
+  headers: Record<string, string>,
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const send = (event: string, data: unknown) =>
+    writer.write(encoder.encode(formatServerSentEvent(event, data)));
+
+  const relay = async () => {
+    let buffer = "";
+    const sent = { environment: 0, log: 0 };
+
+    try {
+      const prompt = buildReportPrompt(reportRequest, continuity);
+      for await (const chunk of provider.stream(prompt, reportRequest)) {
+        buffer += chunk;
+        for (const field of STREAMED_FIELDS) {
+          const text = readPartialString(buffer, field);
+          if (text && text.length > sent[field]) {
+            await send("telemetry", { field, text: text.slice(sent[field]) });
+            sent[field] = text.length;
+          }
+        }
+      }
+
+      const report = parseModelReport(JSON.parse(buffer));
+      if (report.ok === false) {
+        console.error(`${provider.name}/${provider.model} streamed an invalid report:`, report.issues);
+        await send("error", { error: "invalid_model_response", issues: report.issues });
+      } else {
+        await send("report", {
+          duration: reportRequest.duration,
+          ...applyContinuity(report.value, continuity),
+        });
+      }
+    } catch (error) {
+      // Also lands here when the client disconnects mid-stream
+      console.error(`${provider.name}/${provider.model} stream error:`, error);
+      await send("error", { error: "Failed to generate report" }).catch(() => {});
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  };
+  relay();
+
+  return new Response(readable, {
+    headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+// Origin, preflight, method and rate limit checks shared by the POST API routes.
+// Returns either the response to send right away or the headers to attach.
+async function guardApiRequest(
+  request: Request,
+  env: Env,
+  rateLimitBucket?: string,
+): Promise<Response | { corsHeaders: Record<string, string>; rateLimitHeaders: Record<string, string> }> {
+  const corsHeaders = getCorsHeaders(request);
+
+  if (!isOriginAllowed(request, parseAllowedOrigins(env.ALLOWED_ORIGINS))) {
+    return new Response(
+      JSON.stringify({ error: "Origin not allowed" }),
+      { status: 403, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
   if (request.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
@@ -67,98 +208,81 @@ async function handleGeminiRequest(request: Request, env: Env): Promise<Response
     return new Response("Method not allowed", { status: 405 });
   }
 
+  const rateLimit = await applyRateLimit(request, env, rateLimitBucket);
+  const rateLimitHeaders = rateLimit ? getRateLimitHeaders(rateLimit) : {};
+  if (rateLimit && !rateLimit.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000));
+    return new Response(
+      JSON.stringify({ error: "Rate limit exceeded", scope: rateLimit.scope, retryAfter }),
+      {
+        status: 429,
+        headers: {
+          ...corsHeaders,
+          ...rateLimitHeaders,
+          "Retry-After": String(retryAfter),
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+
+  return { corsHeaders, rateLimitHeaders };
+}
+
+async function handleGeminiRequest(request: Request, env: Env, stream = false): Promise<Response> {
+  const guard = await guardApiRequest(request, env);
+  if (guard instanceof Response) return guard;
+  const { corsHeaders, rateLimitHeaders } = guard;
+
+  let provider: ReportProvider;
   try {
-    const apiKey = env.GEMINI_API_KEY;
+    provider = createProvider(env);
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    console.error("Report provider misconfigured:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Report provider not configured" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
 
-    if (!apiKey) {
-      return new Response(
-        JSON.stringify({ error: "API key not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return invalidRequest([{ field: "body", message: "Malformed JSON" }], corsHeaders);
     }
 
-    const body = await request.json() as RequestBody;
-    const { duration, taskContext, tier, language = 'en' } = body;
+    const parsed = parseReportRequest(body);
+    if (parsed.ok === false) {
+      return invalidRequest(parsed.issues, corsHeaders);
+    }
+    const reportRequest = parsed.value;
+    const continuity = pickContinuity(reportRequest.memory);
 
-    const ai = new GoogleGenAI({ apiKey });
-    const systemPrompt = language === 'zh' ? SYSTEM_PROMPT_ZH : SYSTEM_PROMPT_EN;
+    if (stream) {
+      return streamReport(provider, reportRequest, continuity, { ...corsHeaders, ...rateLimitHeaders });
+    }
 
-    const schema: Schema = {
-      type: Type.OBJECT,
-      properties: {
-        dimensionCode: {
-          type: Type.STRING,
-          description: "A random dimension ID like PX-772 or A-99",
-        },
-        environment: {
-          type: Type.STRING,
-          description: "A visual description of the surroundings in this dimension.",
-        },
-        log: {
-          type: Type.STRING,
-          description: "The core observation log. Metaphorical connection to the user's task context if provided.",
-        },
-        entropy: {
-          type: Type.NUMBER,
-          description: "A number between 0 and 1 representing chaos level.",
-        },
-        stability: {
-          type: Type.STRING,
-          enum: ["Stable", "Unstable", "Critical", "Collapsed"],
-        },
-      },
-      required: ["dimensionCode", "environment", "log", "entropy", "stability"],
-    };
-
-    const prompt = language === 'zh'
-      ? `
-    生成一份观测报告。
-    持续时间：${duration} 分钟。
-    层级：${tier} (${tier === 200 ? "奇点" : tier === 120 ? "虚空" : tier === 1 ? "量子闪烁" : "标准"})。
-    用户语境（他们正在做的事）："${taskContext || "未知信号源"}"。
-
-    如果提供了语境，将其巧妙地融入环境描述中，作为一个物理对象或现象，但不要直接提及它是一个任务。
-    所有输出必须使用中文。
-    `
-      : `
-    Generate an observation report.
-    Duration: ${duration} minutes.
-    Tier: ${tier} (${tier === 200 ? "Singularity" : tier === 120 ? "Imaginary" : tier === 1 ? "Quantum Flicker" : "Standard"}).
-    User Context (The task they were doing): "${taskContext || "Unknown signal source"}".
-
-    If the context is provided, subtly weave it into the environment description as a physical object or phenomenon, but do not mention it directly as a task.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
+    const data = await provider.generate(buildReportPrompt(reportRequest, continuity), reportRequest);
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("No response from AI");
+    // Schemas and JSON modes are hints to the model, not guarantees
+    const report = parseModelReport(data);
+    if (report.ok === false) {
+      console.error(`${provider.name}/${provider.model} returned an invalid report:`, report.issues);
+      return new Response(
+        JSON.stringify({ error: "invalid_model_response", issues: report.issues }),
+        { status: 502, headers: { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const data = JSON.parse(text);
-
     return new Response(
-      JSON.stringify({
-        duration,
-        dimensionCode: data.dimensionCode,
-        environment: data.environment,
-        log: data.log,
-        entropy: data.entropy,
-        stability: data.stability,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ duration: reportRequest.duration, ...applyContinuity(report.value, continuity) }),
+      { headers: { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    console.error(`${provider.name}/${provider.model} error:`, error);
     return new Response(
       JSON.stringify({ error: "Failed to generate report" }),
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -166,6 +290,166 @@ async function handleGeminiRequest(request: Request, env: Env): Promise<Response
   }
 }
 
+async function handleShareRequest(request: Request, env: Env): Promise<Response> {
+  const guard = await guardApiRequest(request, env);
+  if (guard instanceof Response) return guard;
+  const { corsHeaders, rateLimitHeaders } = guard;
+  const jsonHeaders = { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "application/json" };
+
+  if (!env.SHARE_KV) {
+    return new Response(
+      JSON.stringify({ error: "Sharing not configured" }),
+      { status: 501, headers: jsonHeaders }
+    );
+  }
+  const store: ShareStore = env.SHARE_KV;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return invalidRequest([{ field: "body", message: "Malformed JSON" }], corsHeaders);
+  }
+  const parsed = parseShareRequest(body);
+  if (parsed.ok === false) {
+    return invalidRequest(parsed.issues, corsHeaders);
+  }
+
+  try {
+    const id = createShareId();
+    const { snapshot, image } = parsed.value;
+    await Promise.all([
+      store.put(snapshotKey(id), JSON.stringify(snapshot), { expirationTtl: SHARE_TTL_SECONDS }),
+      ...(image ? [store.put(imageKey(id), image, { expirationTtl: SHARE_TTL_SECONDS })] : []),
+    ]);
+
+    const url = `${new URL(request.url).origin}/s/${id}`;
+    return new Response(JSON.stringify({ id, url }), { status: 201, headers: jsonHeaders });
+  } catch (error) {
+    console.error("Share store error:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to store share" }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+}
+
+// Read-only share page (/s/<id>) and its preview image (/s/<id>/og.png)
+async function handleSharePage(request: Request, env: Env, id: string, asImage: boolean): Promise<Response> {
+  const origin = new URL(request.url).origin;
+  const notFound = () =>
+    asImage
+      ? new Response("Not found", { status: 404 })
+      : new Response(renderMissingSharePage(`${origin}/`), {
+          status: 404,
+          headers: { "Content-Type": "text/html; charset=utf-8" },
+        });
+
+  if (!env.SHARE_KV || !SHARE_ID_PATTERN.test(id)) return notFound();
+  const store: ShareStore = env.SHARE_KV;
+
+  if (asImage) {
+    const image = await store.get(imageKey(id), "arrayBuffer");
+    if (!image) return notFound();
+    return new Response(image, {
+      headers: { "Content-Type": "image/png", "Cache-Control": "public, max-age=86400, immutable" },
+    });
+  }
+
+  const stored = await store.get(snapshotKey(id), "text");
+  if (!stored) return notFound();
+  const hasImage = (await store.get(imageKey(id), "arrayBuffer")) !== null;
+
+  const html = renderSharePage(JSON.parse(stored), {
+    page: `${origin}/s/${id}`,
+    image: hasImage ? `${origin}/s/${id}/og.png` : null,
+    app: `${origin}/`,
+  });
+  return new Response(html, {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "public, max-age=3600" },
+  });
+}
+
+// Cloud sync: /api/sync/space creates a space, /api/sync/pair issues a pairing
+// code for it, /api/sync/claim trades that code for the space token and
+// /api/sync merges the pushed snapshot into the stored one and returns the result
+async function handleSyncRequest(request: Request, env: Env, action: string): Promise<Response> {
+  const guard = await guardApiRequest(request, env, "sync");
+  if (guard instanceof Response) return guard;
+  const { corsHeaders, rateLimitHeaders } = guard;
+  const jsonHeaders = { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "application/json" };
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), { status, headers: jsonHeaders });
+
+  if (!env.SYNC_KV) {
+    return json({ error: "Sync not configured" }, 501);
+  }
+  const store: SyncStore = env.SYNC_KV;
+
+  let body: unknown;
+  try {
+    const bytes = await request.arrayBuffer();
+    if (bytes.byteLength > MAX_SYNC_BODY_BYTES) {
+      // Distinct from a 400 so the client can stop retrying and say why
+      return json({ error: "sync_too_large", maxBytes: MAX_SYNC_BODY_BYTES }, 413);
+    }
+    const text = new TextDecoder().decode(bytes);
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return invalidRequest([{ field: "body", message: "Malformed JSON" }], corsHeaders);
+  }
+
+  try {
+    if (action === "space") {
+      const token = createSyncToken();
+      await store.put(await spaceKey(token), JSON.stringify(emptySnapshot()));
+      return json({ token }, 201);
+    }
+
+    if (action === "claim") {
+      const code = normalizePairingCode((body as { code?: unknown } | null)?.code);
+      if (!code) {
+        return invalidRequest([{ field: "code", message: "Must be an 8-character pairing code" }], corsHeaders);
+      }
+      const token = await store.get(pairingKey(code), "text");
+      if (!token) return json({ error: "unknown_pairing_code" }, 404);
+      // Single use: the code is useless once a device has joined
+      await store.delete(pairingKey(code));
+      return json({ token });
+    }
+
+    // Everything else acts on an existing space
+    const token = readBearerToken(request);
+    const key = token ? await spaceKey(token) : null;
+    const stored = key ? await store.get(key, "text") : null;
+    if (!token || !key || stored === null) {
+      return json({ error: "unknown_sync_space" }, 401);
+    }
+
+    if (action === "pair") {
+      const code = createPairingCode();
+      await store.put(pairingKey(code), token, { expirationTtl: PAIRING_TTL_SECONDS });
+      return json({ code, expiresAt: Date.now() + PAIRING_TTL_SECONDS * 1000 });
+    }
+
+    const parsed = parseSyncPush(body);
+    if (parsed.ok === false) {
+      return invalidRequest(parsed.issues, corsHeaders);
+    }
+    // Read-merge-write; KV has no transactions, so two devices pushing at the
+    // same instant can drop one side's changes until that device syncs again
+    const merged = mergeSnapshots(JSON.parse(stored) as SyncSnapshot, parsed.value.snapshot);
+    await store.put(key, JSON.stringify(merged));
+    return json({ ...merged, rejected: parsed.value.rejected });
+  } catch (error) {
+    console.error("Sync store error:", error);
+    return json({ error: "Sync failed" }, 500);
+  }
+}
+
+const SYNC_ROUTE_PATTERN = /^\/api\/sync(?:\/(space|pair|claim))?$/;
+const SHARE_PAGE_PATTERN = /^\/s\/([^/]+?)(\/og\.png)?$/;
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -174,6 +458,22 @@ export default {
     if (url.pathname === "/api/gemini") {
       return handleGeminiRequest(request, env);
     }
+    if (url.pathname === "/api/gemini/stream") {
+      return handleGeminiRequest(request, env, true);
+    }
+    if (url.pathname === "/api/share") {
+      return handleShareRequest(request, env);
+    }
+
+    const syncRoute = SYNC_ROUTE_PATTERN.exec(url.pathname);
+    if (syncRoute) {
+      return handleSyncRequest(request, env, syncRoute[1] ?? "push");
+    }
+
+    const sharePage = SHARE_PAGE_PATTERN.exec(url.pathname);
+    if (sharePage && request.method === "GET") {
+      return handleSharePage(request, env, sharePage[1], Boolean(sharePage[2]));
+    }
 
     // For all other routes, serve static assets
     return env.ASSETS.fetch(request);
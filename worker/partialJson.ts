@@ -0,0 +1,44 @@
+// Reads string fields out of a JSON object that is still being streamed,
+// e.g. `{"dimensionCode":"PX-7","environment":"A shallow se` -> "A shallow se".
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// Decoded value of `key` so far, or null if its value has not started yet.
+// An escape sequence cut off at the end of the buffer is held back until
+// the next chunk completes it.
+export const readPartialString = (buffer: string, key: string): string | null => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return null;
+
+  let value = "";
+  for (let i = match.index + match[0].length; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+};
@@ -0,0 +1,69 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { ReportPrompt } from "../prompts";
+import { STABILITY_VALUES } from "../validation";
+import { ReportProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+
+const schema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    dimensionCode: {
+      type: Type.STRING,
+      description: "A random dimension ID like PX-772 or A-99",
+    },
+    environment: {
+      type: Type.STRING,
+      description: "A visual description of the surroundings in this dimension.",
+    },
+    log: {
+      type: Type.STRING,
+      description: "The core observation log. Metaphorical connection to the user's task context if provided.",
+    },
+    entropy: {
+      type: Type.NUMBER,
+      description: "A number between 0 and 1 representing chaos level.",
+    },
+    stability: {
+      type: Type.STRING,
+      enum: STABILITY_VALUES,
+    },
+  },
+  required: ["dimensionCode", "environment", "log", "entropy", "stability"],
+  // Narrative last, so streamed text starts flowing early and ends the object
+  propertyOrdering: ["dimensionCode", "entropy", "stability", "environment", "log"],
+};
+
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): ReportProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toParams = (prompt: ReportPrompt) => ({
+    model,
+    contents: prompt.user,
+    config: {
+      systemInstruction: prompt.system,
+      responseMimeType: "application/json",
+      responseSchema: schema,
+    },
+  });
+
+  return {
+    name: "gemini",
+    model,
+    async generate(prompt) {
+      const response = await ai.models.generateContent(toParams(prompt));
+
+      const text = response.text;
+      if (!text) {
+        throw new Error("No response from Gemini");
+      }
+      return JSON.parse(text);
+    },
+    async *stream(prompt) {
+      const chunks = await ai.models.generateContentStream(toParams(prompt));
+      for await (const chunk of chunks) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
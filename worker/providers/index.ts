@@ -0,0 +1,35 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openai";
+import { ProviderConfigError, ReportProvider } from "./types";
+
+export { ProviderConfigError } from "./types";
+export type { ReportProvider } from "./types";
+
+// Selected via wrangler.toml [vars] / secrets, see Env in ../index.ts
+export interface ProviderEnv {
+  LLM_PROVIDER?: string; // "gemini" (default) | "openai" | "mock"
+  LLM_MODEL?: string; // Provider default when unset
+  GEMINI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+}
+
+export const createProvider = (env: ProviderEnv): ReportProvider => {
+  const name = (env.LLM_PROVIDER || "gemini").trim().toLowerCase();
+  const model = env.LLM_MODEL?.trim() || undefined;
+
+  switch (name) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) {
+        throw new ProviderConfigError("GEMINI_API_KEY not configured");
+      }
+      return createGeminiProvider(env.GEMINI_API_KEY, model);
+    case "openai":
+      return createOpenAICompatibleProvider(env.OPENAI_BASE_URL?.trim() || undefined, env.OPENAI_API_KEY, model);
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new ProviderConfigError(`Unknown LLM_PROVIDER "${name}"`);
+  }
+};
@@ -0,0 +1,103 @@
+import { hashString } from "../../services/random";
+import { Language, ReportRequest, Stability } from "../validation";
+import { ReportProvider } from "./types";
+
+// Offline provider: no network, no key. The same request always yields the
+// same report, and the task context is echoed back so wiring can be checked.
+
+interface Fixture {
+  scenes: string[];
+  unknownSource: string;
+  log: (duration: number, tier: number, context: string) => string;
+}
+
+const FIXTURES: Record<Language, Fixture> = {
+  en: {
+    scenes: [
+      "A salt flat under a violet sky, where {context} hangs suspended at eye level and casts no shadow.",
+      "An abandoned orbital ring, its corridors rearranged around {context} like iron filings around a magnet.",
+      "A forest of glass filaments, each one humming the same note; at its center, {context} slowly rotates.",
+    ],
+    unknownSource: "an unknown signal source",
+    log: (duration, tier, context) =>
+      `Simulated signal. ${duration} minutes at tier ${tier}. Echo: ${context}.`,
+  },
+  zh: {
+    scenes: [
+      "紫色天空下的盐沼，{context}悬浮在视线高度，没有投下影子。",
+      "一座废弃的轨道环，走廊围绕着{context}重新排列，如同磁铁周围的铁屑。",
+      "一片玻璃细丝组成的森林，每一根都在以同一频率嗡鸣；中心处，{context}缓慢旋转。",
+    ],
+    unknownSource: "一个未知信号源",
+    log: (duration, tier, context) => `模拟信号。持续 ${duration} 分钟，层级 ${tier}。回显：${context}。`,
+  },
+  ja: {
+    scenes: [
+      "紫色の空の下の塩原。{context}が目の高さに浮かび、影を落とさない。",
+      "放棄された軌道リング。その回廊は、磁石に集まる砂鉄のように{context}の周りに並び替わっている。",
+      "ガラスの繊維でできた森。どの繊維も同じ音でうなり、その中心で{context}がゆっくりと回転している。",
+    ],
+    unknownSource: "未知の信号源",
+    log: (duration, tier, context) => `模擬信号。${duration} 分間、階層 ${tier}。エコー：${context}。`,
+  },
+  es: {
+    scenes: [
+      "Un salar bajo un cielo violeta, donde {context} flota a la altura de los ojos sin proyectar sombra.",
+      "Un anillo orbital abandonado, cuyos pasillos se reordenan alrededor de {context} como limaduras de hierro alrededor de un imán.",
+      "Un bosque de filamentos de vidrio que zumban la misma nota; en su centro, {context} gira lentamente.",
+    ],
+    unknownSource: "una fuente de señal desconocida",
+    log: (duration, tier, context) =>
+      `Señal simulada. ${duration} minutos en el nivel ${tier}. Eco: ${context}.`,
+  },
+  de: {
+    scenes: [
+      "Eine Salzebene unter violettem Himmel; {context} schwebt dort auf Augenhöhe und wirft keinen Schatten.",
+      "Ein verlassener Orbitalring, dessen Korridore sich um {context} anordnen wie Eisenspäne um einen Magneten.",
+      "Ein Wald aus Glasfäden, die alle denselben Ton summen; in seiner Mitte dreht sich langsam {context}.",
+    ],
+    unknownSource: "eine unbekannte Signalquelle",
+    log: (duration, tier, context) =>
+      `Simuliertes Signal. ${duration} Minuten auf Stufe ${tier}. Echo: ${context}.`,
+  },
+};
+
+const stabilityFor = (entropy: number): Stability =>
+  entropy < 0.35 ? "Stable" : entropy < 0.6 ? "Unstable" : entropy < 0.85 ? "Critical" : "Collapsed";
+
+// Streams the same report in small slices, paced like a slow model
+const STREAM_CHUNK_LENGTH = 12;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+// Narrative last, matching the order real providers are asked for
+const buildReport = ({ duration, taskContext, tier, language }: ReportRequest) => {
+  const seed = hashString(`${language}|${tier}|${duration}|${taskContext}`);
+  const fixture = FIXTURES[language];
+  const context = taskContext || fixture.unknownSource;
+
+  // Longer sessions drift further from baseline reality
+  const entropy = Math.round(Math.min(1, (seed % 40) / 100 + Math.min(duration, 200) / 400) * 100) / 100;
+
+  return {
+    dimensionCode: `MK-${String(seed % 1000).padStart(3, "0")}`,
+    entropy,
+    stability: stabilityFor(entropy),
+    environment: fixture.scenes[seed % fixture.scenes.length].replace("{context}", context),
+    log: fixture.log(duration, tier, context),
+  };
+};
+
+export const createMockProvider = (): ReportProvider => ({
+  name: "mock",
+  model: "echo",
+  async generate(_prompt, request) {
+    return buildReport(request);
+  },
+  async *stream(_prompt, request) {
+    const text = JSON.stringify(buildReport(request));
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_LENGTH) {
+      await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      yield text.slice(i, i + STREAM_CHUNK_LENGTH);
+    }
+  },
+});
@@ -0,0 +1,74 @@
+import { ReportPrompt } from "../prompts";
+import { readServerSentEvents } from "../sse";
+import { ReportProvider } from "./types";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// or a self-hosted model behind Ollama, llama.cpp, vLLM, LM Studio...
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+export const createOpenAICompatibleProvider = (
+  baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+  apiKey: string | undefined,
+  model: string = DEFAULT_OPENAI_MODEL,
+): ReportProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const request = (prompt: ReportPrompt, stream: boolean) =>
+    fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Local servers usually run without a key
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
+        ],
+        response_format: { type: "json_object" },
+        stream,
+      }),
+    }).then((response) => {
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error: ${response.status}`);
+      }
+      return response;
+    });
+
+  return {
+    name: "openai",
+    model,
+    async generate(prompt) {
+      const response = await request(prompt, false);
+      const data = (await response.json()) as ChatCompletionResponse;
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("No response from OpenAI-compatible API");
+      }
+      return JSON.parse(text);
+    },
+    async *stream(prompt) {
+      const response = await request(prompt, true);
+      if (!response.body) {
+        throw new Error("No response from OpenAI-compatible API");
+      }
+      for await (const { data } of readServerSentEvents(response.body)) {
+        if (data === "[DONE]") return;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+};
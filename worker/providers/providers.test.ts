@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { buildReportPrompt } from "../prompts";
+import { readServerSentEvents } from "../sse";
+import { callWorker } from "../test/miniflare";
+import { ReportRequest, parseModelReport } from "../validation";
+import { DEFAULT_GEMINI_MODEL } from "./gemini";
+import { ProviderConfigError, createProvider } from "./index";
+import { createMockProvider } from "./mock";
+import { DEFAULT_OPENAI_MODEL } from "./openai";
+
+const REQUEST: ReportRequest = {
+  duration: 60,
+  tier: 60,
+  taskContext: "a brass astrolabe",
+  language: "en",
+  memory: [],
+};
+
+describe("createProvider", () => {
+  it("defaults to Gemini and needs its key", () => {
+    expect(() => createProvider({})).toThrow(ProviderConfigError);
+    expect(createProvider({ GEMINI_API_KEY: "key" })).toMatchObject({
+      name: "gemini",
+      model: DEFAULT_GEMINI_MODEL,
+    });
+  });
+
+  it("selects providers by name, ignoring case and whitespace", () => {
+    expect(createProvider({ LLM_PROVIDER: " OpenAI " })).toMatchObject({
+      name: "openai",
+      model: DEFAULT_OPENAI_MODEL,
+    });
+    expect(createProvider({ LLM_PROVIDER: "mock" }).name).toBe("mock");
+  });
+
+  it("applies LLM_MODEL overrides", () => {
+    const provider = createProvider({ LLM_PROVIDER: "openai", LLM_MODEL: "llama3.1:8b" });
+    expect(provider.model).toBe("llama3.1:8b");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => createProvider({ LLM_PROVIDER: "oracle" })).toThrow(/Unknown LLM_PROVIDER/);
+  });
+});
+
+describe("mock provider", () => {
+  const provider = createMockProvider();
+  const prompt = buildReportPrompt(REQUEST);
+
+  it("returns the same valid report for the same request", async () => {
+    const first = await provider.generate(prompt, REQUEST);
+    expect(await provider.generate(prompt, REQUEST)).toEqual(first);
+    expect(parseModelReport(first).ok).toBe(true);
+  });
+
+  it("echoes the task context into the report", async () => {
+    const report = (await provider.generate(prompt, REQUEST)) as { environment: string; log: string };
+    expect(report.environment).toContain("a brass astrolabe");
+    expect(report.log).toContain("a brass astrolabe");
+  });
+
+  it("writes in the requested language", async () => {
+    const request: ReportRequest = { ...REQUEST, taskContext: "", language: "de" };
+    const report = (await provider.generate(buildReportPrompt(request), request)) as { log: string };
+    expect(report.log).toContain("eine unbekannte Signalquelle");
+  });
+
+  it("streams the same JSON it generates", async () => {
+    let text = "";
+    for await (const chunk of provider.stream(prompt, REQUEST)) text += chunk;
+    expect(JSON.parse(text)).toEqual(await provider.generate(prompt, REQUEST));
+  });
+});
+
+// The whole report path, offline: validation, prompt, mock provider, output checks
+describe("/api/gemini with the mock provider", () => {
+  const env = { LLM_PROVIDER: "mock" };
+  const body = { duration: REQUEST.duration, tier: REQUEST.tier, taskContext: REQUEST.taskContext };
+
+  it("returns a validated report", async () => {
+    const response = await callWorker(env, "/api/gemini", body);
+    expect(response.status).toBe(200);
+    const report = await response.json();
+    expect(report).toMatchObject({ duration: 60 });
+    expect(parseModelReport(report).ok).toBe(true);
+  });
+
+  it("streams telemetry, then the final report", async () => {
+    const response = await callWorker(env, "/api/gemini/stream", body);
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const events = [];
+    for await (const event of readServerSentEvents(response.body!)) events.push(event);
+    const last = events[events.length - 1];
+    expect(events.slice(0, -1).every(({ event }) => event === "telemetry")).toBe(true);
+    expect(last.event).toBe("report");
+
+    const streamed = events
+      .slice(0, -1)
+      .map(({ data }) => JSON.parse(data))
+      .filter(({ field }) => field === "log")
+      .map(({ text }) => text)
+      .join("");
+    expect(streamed).toBe(JSON.parse(last.data).log);
+  });
+
+  it("answers 400 for invalid requests", async () => {
+    const response = await callWorker(env, "/api/gemini", { duration: 0, tier: 7 });
+    expect(response.status).toBe(400);
+    const { issues } = await response.json();
+    expect(issues.map(({ field }: { field: string }) => field)).toEqual(["duration", "tier"]);
+  });
+});
@@ -0,0 +1,20 @@
+import { ReportPrompt } from "../prompts";
+import { ReportRequest } from "../validation";
+
+// A report provider turns a prompt into the model's raw JSON answer, either
+// at once or as text chunks of that JSON. The result is untrusted and goes
+// through parseModelReport afterwards.
+export interface ReportProvider {
+  name: string;
+  model: string;
+  generate(prompt: ReportPrompt, request: ReportRequest): Promise<unknown>;
+  stream(prompt: ReportPrompt, request: ReportRequest): AsyncIterable<string>;
+}
+
+// Missing keys, unknown provider names and the like; surfaced as a 500
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
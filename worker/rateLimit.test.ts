@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { CounterStore, checkRateLimit } from "./rateLimit";
+import { callWorker, createTestKv } from "./test/miniflare";
+
+const WINDOW_SECONDS = 600;
+const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+let kv: Awaited<ReturnType<typeof createTestKv<"RATE_LIMIT_KV">>>;
+let store: CounterStore;
+
+beforeAll(async () => {
+  kv = await createTestKv("RATE_LIMIT_KV");
+  store = kv.namespaces.RATE_LIMIT_KV;
+}, 30000);
+
+afterAll(() => kv.dispose());
+
+describe("checkRateLimit", () => {
+  it("allows requests up to the limit, then rejects within the window", async () => {
+    const rules = [{ scope: "ip" as const, id: "window-test", limit: 3 }];
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit(store, rules, WINDOW_SECONDS, NOW + i * 1000));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]).toMatchObject({ scope: "ip", limit: 3 });
+    expect(results[3].resetAt).toBe(Math.floor(NOW / 600000) * 600000 + 600000);
+  });
+
+  it("starts counting again in the next window", async () => {
+    const rules = [{ scope: "ip" as const, id: "next-window", limit: 1 }];
+    expect((await checkRateLimit(store, rules, WINDOW_SECONDS, NOW)).allowed).toBe(true);
+    expect((await checkRateLimit(store, rules, WINDOW_SECONDS, NOW)).allowed).toBe(false);
+
+    const later = await checkRateLimit(store, rules, WINDOW_SECONDS, NOW + WINDOW_SECONDS * 1000);
+    expect(later.allowed).toBe(true);
+  });
+
+  it("does not count a rejected request against the other rules", async () => {
+    const ip = { scope: "ip" as const, id: "shared-ip", limit: 5 };
+    const token = { scope: "token" as const, id: "busy-token", limit: 1 };
+
+    expect((await checkRateLimit(store, [ip, token], WINDOW_SECONDS, NOW)).allowed).toBe(true);
+    const rejected = await checkRateLimit(store, [ip, token], WINDOW_SECONDS, NOW);
+    expect(rejected).toMatchObject({ allowed: false, scope: "token" });
+
+    // Only the accepted request used up the IP's quota
+    const other = await checkRateLimit(store, [ip], WINDOW_SECONDS, NOW);
+    expect(other.remaining).toBe(3);
+  });
+
+  it("reports the tightest remaining budget", async () => {
+    const result = await checkRateLimit(
+      store,
+      [
+        { scope: "ip", id: "roomy-ip", limit: 10 },
+        { scope: "token", id: "tight-token", limit: 2 },
+      ],
+      WINDOW_SECONDS,
+      NOW,
+    );
+    expect(result).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+  });
+});
+
+describe("/api/gemini rate limiting", () => {
+  const request = { duration: 25, tier: 25 };
+
+  it("answers 429 with Retry-After once the per-IP limit is used up", async () => {
+    const env = {
+      RATE_LIMIT_KV: kv.namespaces.RATE_LIMIT_KV,
+      RATE_LIMIT_MAX_PER_IP: "2",
+      LLM_PROVIDER: "mock",
+    } as const;
+    const headers = { "CF-Connecting-IP": "203.0.113.7" };
+
+    const first = await callWorker(env, "/api/gemini", request, headers);
+    expect(first.status).toBe(200);
+    expect(first.headers.get("X-RateLimit-Remaining")).toBe("1");
+    expect((await callWorker(env, "/api/gemini", request, headers)).status).toBe(200);
+
+    const limited = await callWorker(env, "/api/gemini", request, headers);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await limited.json()).toMatchObject({ error: "Rate limit exceeded", scope: "ip" });
+
+    // Other clients are unaffected
+    const other = await callWorker(env, "/api/gemini", request, { "CF-Connecting-IP": "203.0.113.8" });
+    expect(other.status).toBe(200);
+  });
+
+  it("skips rate limiting when no counter store is bound, warning once", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    for (let i = 0; i < 3; i++) {
+      const response = await callWorker({ LLM_PROVIDER: "mock" }, "/api/gemini", request);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("X-RateLimit-Limit")).toBeNull();
+    }
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("RATE_LIMIT_KV is not bound");
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,89 @@
+// Fixed-window request counters for /api/gemini.
+// Backed by Workers KV in production; anything with the same get/put shape
+// (e.g. a Miniflare KV namespace) can stand in locally and in tests.
+
+export interface CounterStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface RateLimitRule {
+  scope: "ip" | "token";
+  id: string;
+  limit: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  scope?: RateLimitRule["scope"]; // rule that rejected the request
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms when the current window ends
+}
+
+// KV rejects TTLs below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+const readCount = async (store: CounterStore, key: string) => {
+  const value = parseInt((await store.get(key)) ?? "0", 10);
+  return isNaN(value) ? 0 : value;
+};
+
+// Checks every rule before counting, so a rejected request does not use up quota.
+// KV is eventually consistent: bursts across edge locations may slightly overshoot.
+export async function checkRateLimit(
+  store: CounterStore,
+  rules: RateLimitRule[],
+  windowSeconds: number,
+  now: number = Date.now(),
+): Promise<RateLimitResult> {
+  if (rules.length === 0) {
+    return { allowed: true, limit: Infinity, remaining: Infinity, resetAt: now };
+  }
+
+  const windowMs = windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetAt = windowStart + windowMs;
+
+  const counters = await Promise.all(
+    rules.map(async (rule) => {
+      const key = `rl:${rule.scope}:${rule.id}:${windowStart}`;
+      return { rule, key, count: await readCount(store, key) };
+    }),
+  );
+
+  const exceeded = counters.find(({ rule, count }) => count >= rule.limit);
+  if (exceeded) {
+    return {
+      allowed: false,
+      scope: exceeded.rule.scope,
+      limit: exceeded.rule.limit,
+      remaining: 0,
+      resetAt,
+    };
+  }
+
+  const ttl = Math.max(MIN_KV_TTL_SECONDS, Math.ceil((resetAt - now) / 1000));
+  await Promise.all(
+    counters.map(({ key, count }) =>
+      store.put(key, String(count + 1), { expirationTtl: ttl }),
+    ),
+  );
+
+  // Report the tightest remaining budget
+  const tightest = counters.reduce((a, b) =>
+    a.rule.limit - a.count <= b.rule.limit - b.count ? a : b,
+  );
+  return {
+    allowed: true,
+    limit: tightest.rule.limit,
+    remaining: tightest.rule.limit - tightest.count - 1,
+    resetAt,
+  };
+}
+
+export const getRateLimitHeaders = (result: RateLimitResult): Record<string, string> => ({
+  "X-RateLimit-Limit": String(result.limit),
+  "X-RateLimit-Remaining": String(Math.max(0, result.remaining)),
+  "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+});
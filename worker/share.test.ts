@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { imageKey, snapshotKey } from "./share";
+import { callWorker, createTestKv, getFromWorker } from "./test/miniflare";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const report = (overrides: Record<string, unknown> = {}) => ({
+  dimensionCode: "PX-772",
+  environment: "A salt flat under a violet sky.",
+  log: "Signal integrity nominal.",
+  entropy: 0.42,
+  stability: "Unstable",
+  duration: 25,
+  tier: 25,
+  timestamp: Date.now() - 60000,
+  language: "en",
+  ...overrides,
+});
+
+const dataUrl = (bytes: Uint8Array) =>
+  `data:image/png;base64,${Buffer.from(bytes).toString("base64")}`;
+
+const png = (size = 64) => {
+  const bytes = new Uint8Array(size);
+  bytes.set(PNG_SIGNATURE);
+  return bytes;
+};
+
+let kv: Awaited<ReturnType<typeof createTestKv<"SHARE_KV">>>;
+let env: { SHARE_KV: (typeof kv)["namespaces"]["SHARE_KV"] };
+
+beforeAll(async () => {
+  kv = await createTestKv("SHARE_KV");
+  env = { SHARE_KV: kv.namespaces.SHARE_KV };
+}, 30000);
+
+afterAll(() => kv.dispose());
+
+const share = async (body: unknown) => {
+  const response = await callWorker(env, "/api/share", body);
+  return { status: response.status, body: await response.json() };
+};
+
+const issueFields = (body: { issues?: { field: string }[] }) =>
+  (body.issues ?? []).map((issue) => issue.field);
+
+describe("POST /api/share", () => {
+  it("stores the snapshot and image under a new id", async () => {
+    const { status, body } = await share({ report: report(), image: dataUrl(png()) });
+
+    expect(status).toBe(201);
+    expect(body.url).toBe(`https://abyss.test/s/${body.id}`);
+    const stored = JSON.parse((await env.SHARE_KV.get(snapshotKey(body.id), "text"))!);
+    expect(stored).toMatchObject({ dimensionCode: "PX-772", duration: 25, language: "en" });
+    const image = await env.SHARE_KV.get(imageKey(body.id), "arrayBuffer");
+    expect(new Uint8Array(image!).slice(0, 8)).toEqual(new Uint8Array(PNG_SIGNATURE));
+  });
+
+  it("rejects images that are not PNGs", async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0]);
+    const results = await Promise.all([
+      share({ report: report(), image: dataUrl(jpeg) }),
+      share({ report: report(), image: `data:image/jpeg;base64,${btoa("jpeg")}` }),
+      share({ report: report(), image: 42 }),
+    ]);
+    results.forEach(({ status, body }) => {
+      expect(status).toBe(400);
+      expect(issueFields(body)).toEqual(["image"]);
+    });
+  });
+
+  it("rejects images over the size cap", async () => {
+    const { status, body } = await share({
+      report: report(),
+      image: dataUrl(png(1.5 * 1024 * 1024 + 1)),
+    });
+    expect(status).toBe(400);
+    expect(issueFields(body)).toEqual(["image"]);
+  });
+
+  it("caps durations at the longest possible expedition", async () => {
+    expect((await share({ report: report({ duration: 1920 }) })).status).toBe(201);
+
+    const { status, body } = await share({ report: report({ duration: 1921 }) });
+    expect(status).toBe(400);
+    expect(issueFields(body)).toEqual(["report.duration"]);
+  });
+
+  it("rejects timestamps in the future or beyond the Date range", async () => {
+    for (const timestamp of [Date.now() + 2 * 24 * 60 * 60 * 1000, 9e15, 0]) {
+      const { status, body } = await share({ report: report({ timestamp }) });
+      expect(status).toBe(400);
+      expect(issueFields(body)).toEqual(["report.timestamp"]);
+    }
+  });
+
+  it("returns 501 when no share store is bound", async () => {
+    const response = await callWorker({}, "/api/share", { report: report() });
+    expect(response.status).toBe(501);
+  });
+});
+
+describe("/s/<id>", () => {
+  it("serves the share page with Open Graph tags", async () => {
+    const { body } = await share({
+      report: report({ dimensionCode: "ZK-<19>", language: "ja" }),
+      image: dataUrl(png()),
+    });
+    const response = await getFromWorker(env, `/s/${body.id}`);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/html");
+    expect(html).toContain('<html lang="ja-JP">');
+    expect(html).toContain('<meta property="og:title" content="ZK-&lt;19&gt; — Into the Abyss">');
+    expect(html).toContain(`<meta property="og:image" content="https://abyss.test/s/${body.id}/og.png">`);
+  });
+
+  it("leaves out the preview image when none was uploaded", async () => {
+    const { body } = await share({ report: report() });
+    const html = await (await getFromWorker(env, `/s/${body.id}`)).text();
+
+    expect(html).toContain("og:title");
+    expect(html).not.toContain("og:image");
+    expect((await getFromWorker(env, `/s/${body.id}/og.png`)).status).toBe(404);
+  });
+
+  it("serves the uploaded preview as og.png", async () => {
+    const { body } = await share({ report: report(), image: dataUrl(png(128)) });
+    const response = await getFromWorker(env, `/s/${body.id}/og.png`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect((await response.arrayBuffer()).byteLength).toBe(128);
+  });
+
+  it("answers unknown and malformed ids with 404", async () => {
+    const unknown = await getFromWorker(env, "/s/ABCDEFGHJK");
+    expect(unknown.status).toBe(404);
+    expect(await unknown.text()).toContain("Signal not found");
+    expect((await getFromWorker(env, "/s/not-an-id")).status).toBe(404);
+    expect((await getFromWorker(env, "/s/ABCDEFGHJK/og.png")).status).toBe(404);
+  });
+});
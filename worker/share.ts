@@ -0,0 +1,300 @@
+// Public share links. POST /api/share stores a report snapshot (plus an
+// optional PNG rendered by the client) under a short id; /s/<id> serves a
+// read-only page with Open Graph tags and /s/<id>/og.png the preview image.
+
+import { MAX_EXPEDITION_BLOCKS } from "../services/expedition";
+import { LANGUAGES, LANGUAGE_INFO, Language, isLanguage } from "../services/languages";
+import { MAX_CUSTOM_DURATION } from "../types";
+import {
+  Stability,
+  TIER_VALUES,
+  ValidationIssue,
+  ValidationResult,
+  parseModelReport,
+} from "./validation";
+
+// Workers KV shape; Miniflare's local store works the same way
+export interface ShareStore {
+  get(key: string, type: "text"): Promise<string | null>;
+  get(key: string, type: "arrayBuffer"): Promise<ArrayBuffer | null>;
+  put(key: string, value: string | ArrayBuffer, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface ShareSnapshot {
+  dimensionCode: string;
+  environment: string;
+  log: string;
+  entropy: number;
+  stability: Stability;
+  duration: number;
+  tier: number;
+  timestamp: number;
+  language: Language;
+}
+
+export interface ShareRequest {
+  snapshot: ShareSnapshot;
+  image: ArrayBuffer | null;
+}
+
+export const SHARE_TTL_SECONDS = 180 * 24 * 60 * 60;
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9]{10}$/;
+const SHARE_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+// Expedition reports add up the durations of all their blocks
+const MAX_SHARE_DURATION = MAX_EXPEDITION_BLOCKS * MAX_CUSTOM_DURATION;
+// Leeway for clients whose clocks run ahead of the worker's
+const MAX_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+const MAX_SHARE_IMAGE_BYTES = 1.5 * 1024 * 1024;
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export const snapshotKey = (id: string) => `share:${id}`;
+export const imageKey = (id: string) => `share:${id}:og`;
+
+// Unambiguous characters only (no 0/O, 1/l/I), so links survive being read aloud
+export const createShareId = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  return Array.from(bytes, (byte) => SHARE_ID_ALPHABET[byte % SHARE_ID_ALPHABET.length]).join("");
+};
+
+const decodePng = (dataUrl: string): ArrayBuffer | null => {
+  if (!dataUrl.startsWith(PNG_DATA_URL_PREFIX)) return null;
+  try {
+    const binary = atob(dataUrl.slice(PNG_DATA_URL_PREFIX.length));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte) ? bytes.buffer : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseShareRequest = (body: unknown): ValidationResult<ShareRequest> => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ field: "body", message: "Expected a JSON object" }] };
+  }
+  const { report, image } = body as Record<string, unknown>;
+  if (typeof report !== "object" || report === null) {
+    return { ok: false, issues: [{ field: "report", message: "Expected a JSON object" }] };
+  }
+
+  const narrative = parseModelReport(report);
+  const issues: ValidationIssue[] = narrative.ok === false
+    ? narrative.issues.map(({ field, message }) => ({ field: `report.${field}`, message }))
+    : [];
+
+  const { duration, tier, timestamp, language = "en" } = report as Record<string, unknown>;
+  if (
+    typeof duration !== "number" ||
+    !Number.isInteger(duration) ||
+    duration < 1 ||
+    duration > MAX_SHARE_DURATION
+  ) {
+    issues.push({
+      field: "report.duration",
+      message: `Must be an integer between 1 and ${MAX_SHARE_DURATION}`,
+    });
+  }
+  if (typeof tier !== "number" || !TIER_VALUES.includes(tier)) {
+    issues.push({ field: "report.tier", message: `Must be one of ${TIER_VALUES.join(", ")}` });
+  }
+  if (
+    typeof timestamp !== "number" ||
+    !Number.isFinite(timestamp) ||
+    timestamp <= 0 ||
+    timestamp > Date.now() + MAX_CLOCK_SKEW_MS
+  ) {
+    issues.push({ field: "report.timestamp", message: "Must be a past epoch timestamp in ms" });
+  }
+  if (!isLanguage(language)) {
+    issues.push({ field: "report.language", message: `Must be one of ${LANGUAGES.join(", ")}` });
+  }
+
+  let png: ArrayBuffer | null = null;
+  if (image !== undefined && image !== null) {
+    png = typeof image === "string" ? decodePng(image) : null;
+    if (!png) {
+      issues.push({ field: "image", message: "Must be a PNG data URL" });
+    } else if (png.byteLength > MAX_SHARE_IMAGE_BYTES) {
+      issues.push({ field: "image", message: `Must be at most ${MAX_SHARE_IMAGE_BYTES} bytes` });
+    }
+  }
+
+  if (issues.length || narrative.ok === false) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      snapshot: {
+        ...narrative.value,
+        duration: duration as number,
+        tier: tier as number,
+        timestamp: timestamp as number,
+        language: language as Language,
+      },
+      image: png,
+    },
+  };
+};
+
+// ============================================
+// SHARE PAGE
+// ============================================
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+type PageText = Record<
+  | "visualFeed"
+  | "observerLog"
+  | "entropy"
+  | "integrity"
+  | "minutes"
+  | "cta"
+  | "lostTitle"
+  | "lostBody",
+  string
+>;
+
+const PAGE_TEXT: Record<Language, PageText> = {
+  en: {
+    visualFeed: "Visual_Feed",
+    observerLog: "Observer_Log",
+    entropy: "ENTROPY:",
+    integrity: "INTEGRITY:",
+    minutes: "min",
+    cta: "Begin your own descent",
+    lostTitle: "Signal not found",
+    lostBody: "This transmission has decayed or never existed.",
+  },
+  zh: {
+    visualFeed: "视觉馈送",
+    observerLog: "观察者日志",
+    entropy: "熵值：",
+    integrity: "完整性：",
+    minutes: "分钟",
+    cta: "开始你自己的下潜",
+    lostTitle: "信号未找到",
+    lostBody: "这段传输已经衰变，或从未存在。",
+  },
+  ja: {
+    visualFeed: "視覚フィード",
+    observerLog: "観測者ログ",
+    entropy: "エントロピー：",
+    integrity: "完全性：",
+    minutes: "分",
+    cta: "あなた自身の潜行を始める",
+    lostTitle: "信号が見つかりません",
+    lostBody: "この通信は減衰したか、最初から存在しなかった。",
+  },
+  es: {
+    visualFeed: "Imagen_Visual",
+    observerLog: "Registro_del_Observador",
+    entropy: "ENTROPÍA:",
+    integrity: "INTEGRIDAD:",
+    minutes: "min",
+    cta: "Comienza tu propio descenso",
+    lostTitle: "Señal no encontrada",
+    lostBody: "Esta transmisión se ha degradado o nunca existió.",
+  },
+  de: {
+    visualFeed: "Bildsignal",
+    observerLog: "Beobachterprotokoll",
+    entropy: "ENTROPIE:",
+    integrity: "INTEGRITÄT:",
+    minutes: "Min.",
+    cta: "Beginne deinen eigenen Abstieg",
+    lostTitle: "Signal nicht gefunden",
+    lostBody: "Diese Übertragung ist zerfallen oder hat nie existiert.",
+  },
+};
+
+const pageShell = (lang: string, head: string, body: string) => `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${head}
+<link rel="preconnect" href="https://fonts.googleapis.com">
+<link href="https://fonts.googleapis.com/css2?family=Cinzel:wght@700&family=Crimson+Text:ital@0;1&family=Space+Mono:wght@400;700&display=swap" rel="stylesheet">
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center;
+    background: #020617; color: #e2e8f0; font-family: 'Space Mono', monospace; }
+  main { max-width: 720px; margin: 32px 16px; padding: 28px; border: 1px solid #1e293b;
+    border-radius: 16px; background: linear-gradient(180deg, #0f172a, #020617); }
+  img { display: block; width: 100%; border-radius: 10px; border: 1px solid #1e293b; margin-bottom: 24px; }
+  h1 { font-family: 'Cinzel', serif; font-size: 32px; margin: 0 0 4px; color: #fff; }
+  h2 { font-size: 11px; letter-spacing: 0.2em; text-transform: uppercase; color: #64748b; margin: 24px 0 8px; }
+  p { font-family: 'Crimson Text', serif; font-size: 20px; line-height: 1.6; margin: 0; }
+  .env { font-style: italic; color: #cbd5e1; }
+  .meta { font-size: 11px; letter-spacing: 0.15em; text-transform: uppercase; color: #64748b; }
+  .specs { margin-top: 24px; padding-top: 16px; border-top: 1px solid #1e293b; }
+  a { color: #22d3ee; font-size: 12px; letter-spacing: 0.15em; text-transform: uppercase; text-decoration: none; }
+</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+
+export const renderSharePage = (
+  snapshot: ShareSnapshot,
+  urls: { page: string; image: string | null; app: string },
+): string => {
+  const text = PAGE_TEXT[snapshot.language];
+  const title = `${snapshot.dimensionCode} — Into the Abyss`;
+  const description = snapshot.log.length > 200 ? `${snapshot.log.slice(0, 199)}…` : snapshot.log;
+
+  const head = [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}">`,
+    `<meta property="og:type" content="article">`,
+    `<meta property="og:site_name" content="Into the Abyss">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(description)}">`,
+    `<meta property="og:url" content="${escapeHtml(urls.page)}">`,
+    ...(urls.image
+      ? [
+          `<meta property="og:image" content="${escapeHtml(urls.image)}">`,
+          `<meta property="og:image:width" content="1200">`,
+          `<meta property="og:image:height" content="630">`,
+          `<meta name="twitter:card" content="summary_large_image">`,
+          `<meta name="twitter:image" content="${escapeHtml(urls.image)}">`,
+        ]
+      : [`<meta name="twitter:card" content="summary">`]),
+    `<meta name="twitter:title" content="${escapeHtml(title)}">`,
+    `<meta name="twitter:description" content="${escapeHtml(description)}">`,
+  ].join("\n");
+
+  const body = [
+    urls.image ? `<img src="${escapeHtml(urls.image)}" alt="">` : "",
+    `<h1>${escapeHtml(snapshot.dimensionCode)}</h1>`,
+    `<div class="meta">${new Date(snapshot.timestamp).toISOString().slice(0, 10)} // ${snapshot.duration} ${text.minutes}</div>`,
+    `<h2>${text.visualFeed}</h2>`,
+    `<p class="env">"${escapeHtml(snapshot.environment)}"</p>`,
+    `<h2>${text.observerLog}</h2>`,
+    `<p>${escapeHtml(snapshot.log)}</p>`,
+    `<div class="meta specs">${text.entropy} ${snapshot.entropy.toFixed(4)} // ${text.integrity} ${snapshot.stability}</div>`,
+    `<h2><a href="${escapeHtml(urls.app)}">${text.cta} →</a></h2>`,
+  ].join("\n");
+
+  return pageShell(LANGUAGE_INFO[snapshot.language].locale, head, body);
+};
+
+export const renderMissingSharePage = (app: string): string => {
+  const text = PAGE_TEXT.en;
+  return pageShell(
+    "en",
+    `<title>${text.lostTitle} — Into the Abyss</title>\n<meta name="robots" content="noindex">`,
+    [
+      `<h1>${text.lostTitle}</h1>`,
+      `<p class="env">${text.lostBody}</p>`,
+      `<h2><a href="${escapeHtml(app)}">${text.cta} →</a></h2>`,
+    ].join("\n"),
+  );
+};
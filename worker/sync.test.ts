@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { MAX_SYNC_BODY_BYTES, SyncSnapshot } from "../services/syncMerge";
+import { ObservationReport, Task } from "../types";
+import { callWorker, createTestKv } from "./test/miniflare";
+
+const NOW = Date.now();
+
+const report = (id: string, overrides: Partial<ObservationReport> = {}): ObservationReport => ({
+  id,
+  timestamp: NOW - 60000,
+  duration: 25,
+  dimensionCode: "PX-772",
+  environment: "A salt flat under a violet sky.",
+  log: "Signal integrity nominal.",
+  entropy: 0.42,
+  stability: "Unstable",
+  ...overrides,
+});
+
+const task = (id: string, updatedAt: number): Task => ({
+  id,
+  text: `Directive ${id}`,
+  completed: false,
+  priority: false,
+  notes: "",
+  tags: [],
+  estimate: null,
+  createdAt: NOW - 3600000,
+  completedAt: null,
+  updatedAt,
+});
+
+const snapshot = (overrides: Partial<SyncSnapshot> = {}): SyncSnapshot => ({
+  archive: [],
+  tasks: [],
+  deletedTasks: {},
+  ...overrides,
+});
+
+let kv: Awaited<ReturnType<typeof createTestKv<"SYNC_KV">>>;
+let env: { SYNC_KV: (typeof kv)["namespaces"]["SYNC_KV"] };
+
+beforeAll(async () => {
+  kv = await createTestKv("SYNC_KV");
+  env = { SYNC_KV: kv.namespaces.SYNC_KV };
+}, 30000);
+
+afterAll(() => kv.dispose());
+
+const createSpace = async (): Promise<string> => {
+  const response = await callWorker(env, "/api/sync/space", {});
+  expect(response.status).toBe(201);
+  return (await response.json()).token;
+};
+
+const push = async (token: string, body: SyncSnapshot) => {
+  const response = await callWorker(env, "/api/sync", body, { Authorization: `Bearer ${token}` });
+  expect(response.status).toBe(200);
+  return (await response.json()) as SyncSnapshot & { rejected: number };
+};
+
+describe("/api/sync", () => {
+  it("pairs a second device, which then pulls the first device's data", async () => {
+    const token = await createSpace();
+    await push(token, snapshot({ archive: [report("r1")], tasks: [task("t1", NOW)] }));
+
+    const pair = await callWorker(env, "/api/sync/pair", {}, { Authorization: `Bearer ${token}` });
+    const { code } = await pair.json();
+    const claim = await callWorker(env, "/api/sync/claim", {
+      code: `${code.slice(0, 4)}-${code.slice(4).toLowerCase()}`,
+    });
+    expect(await claim.json()).toEqual({ token });
+
+    // Codes are single use
+    expect((await callWorker(env, "/api/sync/claim", { code })).status).toBe(404);
+
+    const pulled = await push(token, snapshot());
+    expect(pulled.archive.map((entry) => entry.id)).toEqual(["r1"]);
+    expect(pulled.tasks.map((item) => item.id)).toEqual(["t1"]);
+  });
+
+  it("merges pushes from both devices, newest copy winning", async () => {
+    const token = await createSpace();
+    await push(token, snapshot({ archive: [report("a")], tasks: [task("t", NOW - 1000)] }));
+    const merged = await push(
+      token,
+      snapshot({
+        archive: [report("b", { timestamp: NOW })],
+        tasks: [{ ...task("t", NOW), text: "Edited on the other device" }],
+      }),
+    );
+
+    expect(merged.archive.map((entry) => entry.id)).toEqual(["b", "a"]);
+    expect(merged.tasks).toHaveLength(1);
+    expect(merged.tasks[0].text).toBe("Edited on the other device");
+  });
+
+  it("keeps deleted tasks deleted when a stale device pushes them again", async () => {
+    const token = await createSpace();
+    await push(token, snapshot({ tasks: [task("gone", NOW - 5000), task("kept", NOW - 5000)] }));
+    await push(token, snapshot({ tasks: [task("kept", NOW - 5000)], deletedTasks: { gone: NOW - 1000 } }));
+
+    // The stale device still has the deleted task, unchanged since before the deletion
+    const merged = await push(
+      token,
+      snapshot({ tasks: [task("gone", NOW - 5000), task("kept", NOW - 5000)] }),
+    );
+    expect(merged.tasks.map((item) => item.id)).toEqual(["kept"]);
+    expect(merged.deletedTasks).toEqual({ gone: NOW - 1000 });
+  });
+
+  it("brings back a deleted task edited after the deletion", async () => {
+    const token = await createSpace();
+    await push(token, snapshot({ deletedTasks: { revived: NOW - 5000 } }));
+    const merged = await push(token, snapshot({ tasks: [task("revived", NOW - 1000)] }));
+    expect(merged.tasks.map((item) => item.id)).toEqual(["revived"]);
+  });
+
+  it("replaces a fallback report with the real transmission under the same id", async () => {
+    const token = await createSpace();
+    await push(token, snapshot({ archive: [report("r", { isSystemGenerated: true, awaitingSignal: true })] }));
+    const merged = await push(token, snapshot({ archive: [report("r", { log: "Real transmission." })] }));
+
+    expect(merged.archive).toHaveLength(1);
+    expect(merged.archive[0]).toMatchObject({ log: "Real transmission." });
+    expect(merged.archive[0]).not.toHaveProperty("isSystemGenerated");
+  });
+
+  it("drops invalid records instead of rejecting the push", async () => {
+    const token = await createSpace();
+    const merged = await push(
+      token,
+      snapshot({ archive: [report("ok"), { id: "broken" } as unknown as ObservationReport] }),
+    );
+    expect(merged.archive.map((entry) => entry.id)).toEqual(["ok"]);
+    expect(merged.rejected).toBe(1);
+  });
+
+  it("rejects unknown spaces", async () => {
+    const response = await callWorker(env, "/api/sync", snapshot(), {
+      Authorization: `Bearer ${"0".repeat(32)}`,
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("answers 413 for bodies over the byte limit, counting bytes rather than characters", async () => {
+    const token = await createSpace();
+    // Under the limit in characters, over it in UTF-8 bytes
+    const log = "深".repeat(Math.ceil(MAX_SYNC_BODY_BYTES / 3) + 1);
+    expect(log.length).toBeLessThan(MAX_SYNC_BODY_BYTES);
+
+    const response = await callWorker(env, "/api/sync", snapshot({ archive: [report("big", { log })] }), {
+      Authorization: `Bearer ${token}`,
+    });
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: "sync_too_large" });
+  });
+
+  it("is unavailable when no sync store is bound", async () => {
+    expect((await callWorker({}, "/api/sync/space", {})).status).toBe(501);
+  });
+});
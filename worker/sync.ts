@@ -0,0 +1,120 @@
+// Cloud sync of the archive and task list. A sync space is identified by a
+// random bearer token (never stored in the clear); a second device joins by
+// claiming a short-lived pairing code issued to the first one.
+
+import { parseEntry } from "../services/archiveTransfer";
+import {
+  MAX_SYNC_ARCHIVE_ENTRIES,
+  SyncSnapshot,
+  TaskTombstones,
+} from "../services/syncMerge";
+import { migrateTasks } from "../services/tasks";
+import { ArchiveEntry } from "../types";
+import { ValidationIssue, ValidationResult } from "./validation";
+
+// Workers KV shape; Miniflare's local store works the same way
+export interface SyncStore {
+  get(key: string, type: "text"): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface SyncPushResult {
+  snapshot: SyncSnapshot;
+  rejected: number; // archive entries or tasks that failed validation
+}
+
+export const SYNC_TOKEN_PATTERN = /^[a-f0-9]{32}$/;
+export const PAIRING_CODE_PATTERN = /^[A-Z2-9]{8}$/;
+export const PAIRING_TTL_SECONDS = 10 * 60;
+// Unambiguous characters only, since codes are typed in by hand
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const MAX_SYNC_TASKS = 2000;
+const MAX_SYNC_TOMBSTONES = 5000;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const createSyncToken = (): string =>
+  toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+export const createPairingCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (byte) => PAIRING_CODE_ALPHABET[byte % PAIRING_CODE_ALPHABET.length]).join("");
+};
+
+// Codes are shown as XXXX-XXXX; accept them with any spacing or case
+export const normalizePairingCode = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const code = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return PAIRING_CODE_PATTERN.test(code) ? code : null;
+};
+
+// Keyed by a hash so a leaked key listing does not hand out working tokens
+export const spaceKey = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return `sync:${toHex(new Uint8Array(digest))}`;
+};
+
+export const pairingKey = (code: string) => `pair:${code}`;
+
+export const readBearerToken = (request: Request): string | null => {
+  const match = /^Bearer\s+(\S+)$/.exec(request.headers.get("Authorization") ?? "");
+  return match && SYNC_TOKEN_PATTERN.test(match[1]) ? match[1] : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseTombstones = (value: unknown, issues: ValidationIssue[]): TaskTombstones => {
+  if (!isRecord(value) || Object.keys(value).length > MAX_SYNC_TOMBSTONES) {
+    issues.push({
+      field: "deletedTasks",
+      message: `Must be an object of at most ${MAX_SYNC_TOMBSTONES} id -> timestamp pairs`,
+    });
+    return {};
+  }
+  const tombstones: TaskTombstones = {};
+  Object.entries(value).forEach(([id, deletedAt]) => {
+    if (typeof deletedAt === "number" && Number.isFinite(deletedAt) && deletedAt > 0) {
+      tombstones[id] = deletedAt;
+    }
+  });
+  return tombstones;
+};
+
+// Shape errors reject the push; individual records that fail validation are
+// dropped instead, so one corrupt local entry cannot block sync for good
+export const parseSyncPush = (body: unknown): ValidationResult<SyncPushResult> => {
+  if (!isRecord(body)) {
+    return { ok: false, issues: [{ field: "body", message: "Expected a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { archive = [], tasks = [], deletedTasks = {} } = body;
+  if (!Array.isArray(archive) || archive.length > MAX_SYNC_ARCHIVE_ENTRIES) {
+    issues.push({
+      field: "archive",
+      message: `Must be an array of at most ${MAX_SYNC_ARCHIVE_ENTRIES} entries`,
+    });
+  }
+  if (!Array.isArray(tasks) || tasks.length > MAX_SYNC_TASKS) {
+    issues.push({ field: "tasks", message: `Must be an array of at most ${MAX_SYNC_TASKS} tasks` });
+  }
+  const tombstones = parseTombstones(deletedTasks, issues);
+  if (issues.length) return { ok: false, issues };
+
+  const entries = (archive as unknown[])
+    .map(parseEntry)
+    .filter((entry): entry is ArchiveEntry => entry !== null);
+  const parsedTasks = migrateTasks(tasks);
+  return {
+    ok: true,
+    value: {
+      snapshot: { archive: entries, tasks: parsedTasks, deletedTasks: tombstones },
+      rejected:
+        (archive as unknown[]).length - entries.length +
+        (tasks as unknown[]).length - parsedTasks.length,
+    },
+  };
+};
@@ -0,0 +1,41 @@
+// Local stand-ins for the worker's bindings in tests: KV namespaces served by
+// the same Miniflare store `wrangler dev` uses, and a helper to call the worker.
+
+import { Miniflare } from "miniflare";
+import worker from "../index";
+
+export type WorkerEnv = Parameters<typeof worker.fetch>[1];
+
+export const createTestKv = async <Binding extends string>(...bindings: Binding[]) => {
+  const miniflare = new Miniflare({
+    modules: true,
+    script: "export default { fetch: () => new Response(null, { status: 404 }) };",
+    kvNamespaces: bindings,
+  });
+  const namespaces = Object.fromEntries(
+    await Promise.all(
+      bindings.map(async (binding) => [binding, await miniflare.getKVNamespace(binding)] as const),
+    ),
+  ) as Record<Binding, Awaited<ReturnType<Miniflare["getKVNamespace"]>>>;
+  return { namespaces, dispose: () => miniflare.dispose() };
+};
+
+// POSTs a JSON body to an API route of the worker under test
+export const callWorker = (
+  env: Partial<WorkerEnv>,
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+) =>
+  worker.fetch(
+    new Request(`https://abyss.test${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    }),
+    env as WorkerEnv,
+  );
+
+// GETs a page or asset route of the worker under test
+export const getFromWorker = (env: Partial<WorkerEnv>, path: string) =>
+  worker.fetch(new Request(`https://abyss.test${path}`), env as WorkerEnv);
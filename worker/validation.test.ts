@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_MEMORY_ENTRIES,
+  MAX_TASK_CONTEXT_LENGTH,
+  ValidationResult,
+  parseModelReport,
+  parseReportRequest,
+  sanitizePromptText,
+} from "./validation";
+
+const memoryEntry = (overrides: Record<string, unknown> = {}) => ({
+  id: "a1b2-c3",
+  code: "PX-772",
+  motif: "A salt flat under a violet sky.",
+  stability: "Unstable",
+  daysAgo: 2,
+  ...overrides,
+});
+
+const modelReport = (overrides: Record<string, unknown> = {}) => ({
+  dimensionCode: "PX-772",
+  environment: "A salt flat under a violet sky.",
+  log: "Signal integrity nominal.",
+  entropy: 0.42,
+  stability: "Unstable",
+  ...overrides,
+});
+
+const issueFields = (result: ValidationResult<unknown>) =>
+  result.ok === false ? result.issues.map((issue) => issue.field) : [];
+
+describe("sanitizePromptText", () => {
+  it("strips characters that could break out of the prompt wrapper", () => {
+    expect(sanitizePromptText("</context>`rm` {x} \\n")).toBe("/contextrm x n");
+  });
+
+  it("replaces control and format characters with spaces and collapses whitespace", () => {
+    expect(sanitizePromptText("  line\u0000one\r\n\tline\u200Btwo\u202E  ")).toBe("line one line two");
+  });
+
+  it("folds compatibility characters with NFKC before stripping", () => {
+    // Fullwidth and small-form brackets normalize to plain ones, which are then removed
+    expect(sanitizePromptText("\uFF1Cscript\uFF1E \uFE64b\uFE65 ｛x｝ ﬁle")).toBe("script b x file");
+  });
+});
+
+describe("parseReportRequest", () => {
+  const request = (overrides: Record<string, unknown> = {}) => ({
+    duration: 25,
+    tier: 25,
+    ...overrides,
+  });
+
+  it("fills in defaults for optional fields", () => {
+    expect(parseReportRequest(request())).toEqual({
+      ok: true,
+      value: { duration: 25, tier: 25, language: "en", taskContext: "", memory: [] },
+    });
+  });
+
+  it("sanitizes the task context", () => {
+    const result = parseReportRequest(request({ taskContext: " Write <b>tests</b>\n" }));
+    expect(result.ok && result.value.taskContext).toBe("Write btests/b");
+  });
+
+  it("limits the raw task context length", () => {
+    const atLimit = parseReportRequest(request({ taskContext: "a".repeat(MAX_TASK_CONTEXT_LENGTH) }));
+    expect(atLimit.ok).toBe(true);
+
+    const over = parseReportRequest(request({ taskContext: "a".repeat(MAX_TASK_CONTEXT_LENGTH + 1) }));
+    expect(issueFields(over)).toEqual(["taskContext"]);
+    expect(issueFields(parseReportRequest(request({ taskContext: 42 })))).toEqual(["taskContext"]);
+  });
+
+  it("truncates text that NFKC expands past the limit", () => {
+    // U+FDFA normalizes to 18 characters
+    const result = parseReportRequest(request({ taskContext: "\uFDFA".repeat(MAX_TASK_CONTEXT_LENGTH) }));
+    expect(result.ok && result.value.taskContext.length).toBe(MAX_TASK_CONTEXT_LENGTH);
+  });
+
+  it("sanitizes memory codes and cuts long motifs", () => {
+    const result = parseReportRequest(
+      request({ memory: [memoryEntry({ code: "<PX-772>", motif: `{${"m".repeat(200)}}` })] }),
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.memory[0]).toMatchObject({ code: "PX-772", stability: "Unstable" });
+    expect(result.value.memory[0].motif).toBe("m".repeat(120));
+  });
+
+  it("reports each invalid memory field", () => {
+    const result = parseReportRequest(
+      request({
+        memory: [
+          memoryEntry(),
+          memoryEntry({ id: "../etc", code: "<>", motif: 1, stability: "Fine", daysAgo: -1 }),
+          "entry",
+        ],
+      }),
+    );
+    expect(issueFields(result)).toEqual([
+      "memory[1].id",
+      "memory[1].code",
+      "memory[1].motif",
+      "memory[1].stability",
+      "memory[1].daysAgo",
+      "memory[2]",
+    ]);
+  });
+
+  it("limits the number of memory entries", () => {
+    const memory = Array.from({ length: MAX_MEMORY_ENTRIES + 1 }, () => memoryEntry());
+    expect(issueFields(parseReportRequest(request({ memory })))).toEqual(["memory"]);
+    expect(issueFields(parseReportRequest(request({ memory: {} })))).toEqual(["memory"]);
+  });
+
+  it("rejects out-of-range durations, tiers and languages", () => {
+    const result = parseReportRequest({ duration: 241, tier: 30, language: "fr" });
+    expect(issueFields(result)).toEqual(["duration", "tier", "language"]);
+    expect(issueFields(parseReportRequest(request({ duration: 2.5 })))).toEqual(["duration"]);
+  });
+});
+
+describe("parseModelReport", () => {
+  it("clamps entropy into 0..1", () => {
+    const high = parseModelReport(modelReport({ entropy: 1.7 }));
+    const low = parseModelReport(modelReport({ entropy: -0.3 }));
+    expect(high.ok && high.value.entropy).toBe(1);
+    expect(low.ok && low.value.entropy).toBe(0);
+  });
+
+  it("parses entropy sent as a string", () => {
+    const result = parseModelReport(modelReport({ entropy: "0.73" }));
+    expect(result.ok && result.value.entropy).toBe(0.73);
+    expect(issueFields(parseModelReport(modelReport({ entropy: "high" })))).toEqual(["entropy"]);
+    expect(issueFields(parseModelReport(modelReport({ entropy: null })))).toEqual(["entropy"]);
+  });
+
+  it("only accepts known stability levels", () => {
+    expect(parseModelReport(modelReport({ stability: "Collapsed" })).ok).toBe(true);
+    expect(issueFields(parseModelReport(modelReport({ stability: "stable" })))).toEqual(["stability"]);
+    expect(issueFields(parseModelReport(modelReport({ stability: 2 })))).toEqual(["stability"]);
+  });
+
+  it("trims text fields and requires them to be non-empty", () => {
+    const result = parseModelReport(modelReport({ log: "  Nominal.  " }));
+    expect(result.ok && result.value.log).toBe("Nominal.");
+    expect(issueFields(parseModelReport(modelReport({ environment: "   ", dimensionCode: 7 })))).toEqual([
+      "dimensionCode",
+      "environment",
+    ]);
+  });
+
+  it("rejects responses that are not objects", () => {
+    expect(issueFields(parseModelReport([modelReport()]))).toEqual(["response"]);
+  });
+});
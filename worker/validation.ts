@@ -0,0 +1,241 @@
+// Runtime validation for /api/gemini: the request body comes from the open
+// internet and the model output is only loosely bound by the response schema.
+
+import { LANGUAGES, Language, isLanguage } from "../services/languages";
+
+export type { Language };
+export type Stability = "Stable" | "Unstable" | "Critical" | "Collapsed";
+
+export const STABILITY_VALUES: Stability[] = ["Stable", "Unstable", "Critical", "Collapsed"];
+export const TIER_VALUES = [1, 25, 60, 120, 200];
+
+// Mirrors the client's custom duration bounds (minutes)
+export const MIN_DURATION = 1;
+export const MAX_DURATION = 240;
+export const MAX_TASK_CONTEXT_LENGTH = 200;
+export const MAX_MEMORY_ENTRIES = 8;
+const MAX_MOTIF_LENGTH = 120;
+const MEMORY_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+const MAX_DIMENSION_CODE_LENGTH = 32;
+const MAX_NARRATIVE_LENGTH = 2000;
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+// Compact summary of an earlier archive entry, sent for dimension continuity
+export interface MemoryEntry {
+  id: string;
+  code: string; // sanitized dimension code
+  motif: string; // sanitized opening of its visual feed
+  stability: Stability;
+  daysAgo: number;
+}
+
+export interface ReportRequest {
+  duration: number;
+  taskContext: string; // sanitized, may be empty
+  tier: number;
+  language: Language;
+  memory: MemoryEntry[]; // newest first, may be empty
+}
+
+export interface ModelReport {
+  dimensionCode: string;
+  environment: string;
+  log: string;
+  entropy: number;
+  stability: Stability;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// ============================================
+// PROMPT TEXT SANITIZATION
+// ============================================
+
+// User-supplied text ends up inside the prompt, wrapped in <context> or
+// <memory> tags. Strip anything that could break out of that wrapper or
+// smuggle structure: control/format characters, angle brackets, backticks and braces.
+export const sanitizePromptText = (value: string): string =>
+  value
+    .normalize("NFKC")
+    .replace(/[\p{Cc}\p{Cf}]/gu, " ")
+    .replace(/[<>`{}\\]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// ============================================
+// REQUEST
+// ============================================
+
+const parseMemoryEntry = (
+  value: unknown,
+  field: string,
+  issues: ValidationIssue[],
+): MemoryEntry | null => {
+  if (!isRecord(value)) {
+    issues.push({ field, message: "Expected an object" });
+    return null;
+  }
+
+  const { id, code, motif, stability, daysAgo } = value;
+  const before = issues.length;
+  if (typeof id !== "string" || !MEMORY_ID_PATTERN.test(id)) {
+    issues.push({ field: `${field}.id`, message: "Must be a short alphanumeric id" });
+  }
+  const safeCode = typeof code === "string" ? sanitizePromptText(code) : "";
+  if (!safeCode || safeCode.length > MAX_DIMENSION_CODE_LENGTH) {
+    issues.push({
+      field: `${field}.code`,
+      message: `Must be a non-empty string of at most ${MAX_DIMENSION_CODE_LENGTH} characters`,
+    });
+  }
+  if (typeof motif !== "string") {
+    issues.push({ field: `${field}.motif`, message: "Must be a string" });
+  }
+  if (!STABILITY_VALUES.includes(stability as Stability)) {
+    issues.push({ field: `${field}.stability`, message: `Must be one of ${STABILITY_VALUES.join(", ")}` });
+  }
+  if (typeof daysAgo !== "number" || !Number.isInteger(daysAgo) || daysAgo < 0) {
+    issues.push({ field: `${field}.daysAgo`, message: "Must be a non-negative integer" });
+  }
+  if (issues.length > before) return null;
+
+  return {
+    id: id as string,
+    code: safeCode,
+    // Only a glimpse is needed; longer motifs are cut rather than rejected
+    motif: sanitizePromptText(motif as string).slice(0, MAX_MOTIF_LENGTH),
+    stability: stability as Stability,
+    daysAgo: daysAgo as number,
+  };
+};
+
+const parseMemory = (value: unknown, issues: ValidationIssue[]): MemoryEntry[] => {
+  if (!Array.isArray(value) || value.length > MAX_MEMORY_ENTRIES) {
+    issues.push({
+      field: "memory",
+      message: `Must be an array of at most ${MAX_MEMORY_ENTRIES} entries`,
+    });
+    return [];
+  }
+  return value
+    .map((entry, index) => parseMemoryEntry(entry, `memory[${index}]`, issues))
+    .filter((entry): entry is MemoryEntry => entry !== null);
+};
+
+export const parseReportRequest = (body: unknown): ValidationResult<ReportRequest> => {
+  if (!isRecord(body)) {
+    return { ok: false, issues: [{ field: "body", message: "Expected a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { duration, tier, taskContext = "", language = "en", memory = [] } = body;
+
+  if (
+    typeof duration !== "number" ||
+    !Number.isInteger(duration) ||
+    duration < MIN_DURATION ||
+    duration > MAX_DURATION
+  ) {
+    issues.push({
+      field: "duration",
+      message: `Must be an integer between ${MIN_DURATION} and ${MAX_DURATION}`,
+    });
+  }
+
+  if (typeof tier !== "number" || !TIER_VALUES.includes(tier)) {
+    issues.push({ field: "tier", message: `Must be one of ${TIER_VALUES.join(", ")}` });
+  }
+
+  if (!isLanguage(language)) {
+    issues.push({ field: "language", message: `Must be one of ${LANGUAGES.join(", ")}` });
+  }
+
+  let context = "";
+  if (typeof taskContext !== "string") {
+    issues.push({ field: "taskContext", message: "Must be a string" });
+  } else if (taskContext.length > MAX_TASK_CONTEXT_LENGTH) {
+    // Checked on the raw text the client cut to length; NFKC can expand it
+    issues.push({
+      field: "taskContext",
+      message: `Must be at most ${MAX_TASK_CONTEXT_LENGTH} characters`,
+    });
+  } else {
+    context = sanitizePromptText(taskContext).slice(0, MAX_TASK_CONTEXT_LENGTH);
+  }
+
+  const memoryEntries = parseMemory(memory, issues);
+
+  if (issues.length) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      duration: duration as number,
+      tier: tier as number,
+      language: language as Language,
+      taskContext: context,
+      memory: memoryEntries,
+    },
+  };
+};
+
+// ============================================
+// MODEL RESPONSE
+// ============================================
+
+const requireText = (
+  data: Record<string, unknown>,
+  field: keyof ModelReport,
+  maxLength: number,
+  issues: ValidationIssue[],
+): string => {
+  const value = data[field];
+  if (typeof value !== "string" || !value.trim()) {
+    issues.push({ field, message: "Must be a non-empty string" });
+    return "";
+  }
+  return value.trim().slice(0, maxLength);
+};
+
+export const parseModelReport = (data: unknown): ValidationResult<ModelReport> => {
+  if (!isRecord(data)) {
+    return { ok: false, issues: [{ field: "response", message: "Expected a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const dimensionCode = requireText(data, "dimensionCode", MAX_DIMENSION_CODE_LENGTH, issues);
+  const environment = requireText(data, "environment", MAX_NARRATIVE_LENGTH, issues);
+  const log = requireText(data, "log", MAX_NARRATIVE_LENGTH, issues);
+
+  // Out-of-range entropy is clamped rather than rejected; it is cosmetic
+  const entropy = typeof data.entropy === "string" ? parseFloat(data.entropy) : data.entropy;
+  if (typeof entropy !== "number" || !Number.isFinite(entropy)) {
+    issues.push({ field: "entropy", message: "Must be a number" });
+  }
+
+  const stability = data.stability;
+  if (!STABILITY_VALUES.includes(stability as Stability)) {
+    issues.push({ field: "stability", message: `Must be one of ${STABILITY_VALUES.join(", ")}` });
+  }
+
+  if (issues.length) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      dimensionCode,
+      environment,
+      log,
+      entropy: Math.min(1, Math.max(0, entropy as number)),
+      stability: stability as Stability,
+    },
+  };
+};